@@ -14,8 +14,11 @@ import {
   JetBrainsMono_400Regular,
   JetBrainsMono_700Bold,
 } from '@expo-google-fonts/jetbrains-mono';
-import { COLORS } from './src/constants/theme';
+import { COLORS } from '@forma/core/theme';
+import { PoseBackendProvider } from '@forma/core/contexts/PoseBackendContext';
+import { UserProfileProvider } from '@forma/core/contexts/UserProfileContext';
 import { RootNavigator } from './src/app/RootNavigator';
+import { POSE_BACKENDS } from './src/pose/poseBackends';
 
 export default function App() {
   const [fontsLoaded] = useFonts({
@@ -41,10 +44,14 @@ export default function App() {
   return (
     <SafeAreaProvider>
       <GestureHandlerRootView style={{ flex: 1 }}>
-        <NavigationContainer>
-          <RootNavigator />
-          <StatusBar style="light" />
-        </NavigationContainer>
+        <PoseBackendProvider backends={POSE_BACKENDS}>
+          <UserProfileProvider>
+            <NavigationContainer>
+              <RootNavigator />
+              <StatusBar style="light" />
+            </NavigationContainer>
+          </UserProfileProvider>
+        </PoseBackendProvider>
       </GestureHandlerRootView>
     </SafeAreaProvider>
   );
@@ -0,0 +1,167 @@
+/**
+ * Golden-session regression check for rep counting and feedback.
+ *
+ * Replays every case in golden/sessions.json (a synthetic session or a recorded
+ * .forma-pose.json file) through its analyzer and checks the result against
+ * the expectations stored with the case:
+ *   reps       exact number of counted reps
+ *   partialReps  exact number of partial reps (started but not counted)
+ *   sides      exact reps per side, for unilateral analyzers (null otherwise)
+ *   feedback   exact set of feedback messages emitted over the set
+ *   formScore  [min, max] range every counted rep's score must fall in,
+ *              recorded with FORM_SCORE_TOLERANCE either side
+ *
+ * Run it after touching thresholds in poseAnalysis.ts (updateRepCount),
+ * barbellCurlAnalysis.ts (updateBarbellCurlState) or squatAnalysis.ts
+ * (updateSquatState). When a change in behaviour
+ * is intended, re-record the expectations with --update and review the diff.
+ *
+ * Usage: npm run test:golden -- [--update] [case name filter]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { getExerciseAnalyzer, hasExerciseAnalyzer } from '@forma/core/analysis/exerciseAnalyzers';
+import { PoseRecording, parsePoseRecording } from '@forma/core/analysis/poseRecording';
+import { ReplayResult, replayPoseRecording } from '@forma/core/analysis/poseReplay';
+import { SyntheticPoseOptions, generateSyntheticPoseSession } from '@forma/core/analysis/syntheticPose';
+
+const CASES_FILE = resolve(__dirname, '../golden/sessions.json');
+
+// Points either side of the observed scores that a recorded range allows. Retuning a smoothing
+// filter or threshold moves a rep's score by a point or so; a scoring or weighting regression
+// moves it by more. The feedback set, not the score, is what catches a check that stops firing.
+const FORM_SCORE_TOLERANCE = 2;
+
+type GoldenExpectation = {
+  reps: number;
+  partialReps: number;
+  sides: { left: number; right: number } | null;
+  feedback: string[];
+  formScore: [number, number] | null; // null when no rep is counted
+};
+
+type GoldenCase = {
+  name: string;
+  analyzer: string; // Exercise catalog id, as passed to getExerciseAnalyzer
+  unilateral?: boolean; // Use the exercise's per-side analyzer
+  synthetic?: SyntheticPoseOptions;
+  recording?: string; // Path relative to the cases file
+  expect?: GoldenExpectation;
+};
+
+function loadRecording(goldenCase: GoldenCase): PoseRecording {
+  if (goldenCase.synthetic) {
+    return generateSyntheticPoseSession(goldenCase.synthetic);
+  }
+  if (goldenCase.recording) {
+    return parsePoseRecording(readFileSync(join(dirname(CASES_FILE), goldenCase.recording), 'utf8'));
+  }
+  throw new Error('case needs either "synthetic" or "recording"');
+}
+
+function observe(result: ReplayResult): GoldenExpectation {
+  const scores = result.reps
+    .map(rep => rep.formScore)
+    .filter((score): score is number => score !== null);
+  return {
+    reps: result.summary.reps,
+    partialReps: result.summary.partialReps.length,
+    sides: result.summary.unilateral
+      ? { left: result.summary.unilateral.left.reps, right: result.summary.unilateral.right.reps }
+      : null,
+    feedback: [...new Set(result.feedback.map(item => item.message))].sort(),
+    formScore: scores.length > 0
+      ? [Math.floor(Math.min(...scores) * 10) / 10, Math.ceil(Math.max(...scores) * 10) / 10]
+      : null,
+  };
+}
+
+/** The observed score range widened by FORM_SCORE_TOLERANCE, within 0–100 */
+function withTolerance(range: [number, number] | null): [number, number] | null {
+  if (!range) return null;
+  const round = (score: number) => Math.round(score * 10) / 10;
+  return [Math.max(0, round(range[0] - FORM_SCORE_TOLERANCE)), Math.min(100, round(range[1] + FORM_SCORE_TOLERANCE))];
+}
+
+function compare(expected: GoldenExpectation, actual: GoldenExpectation, result: ReplayResult): string[] {
+  const failures: string[] = [];
+  if (actual.reps !== expected.reps) {
+    failures.push(`reps: expected ${expected.reps}, got ${actual.reps}`);
+  }
+  if (actual.partialReps !== expected.partialReps) {
+    failures.push(`partial reps: expected ${expected.partialReps}, got ${actual.partialReps}`);
+  }
+  if (JSON.stringify(actual.sides) !== JSON.stringify(expected.sides)) {
+    failures.push(`sides: expected ${JSON.stringify(expected.sides)}, got ${JSON.stringify(actual.sides)}`);
+  }
+
+  const missing = expected.feedback.filter(message => !actual.feedback.includes(message));
+  const unexpected = actual.feedback.filter(message => !expected.feedback.includes(message));
+  if (missing.length > 0) {
+    failures.push(`feedback missing: ${missing.map(message => JSON.stringify(message)).join(', ')}`);
+  }
+  if (unexpected.length > 0) {
+    failures.push(`feedback unexpected: ${unexpected.map(message => JSON.stringify(message)).join(', ')}`);
+  }
+
+  if (expected.formScore) {
+    const [min, max] = expected.formScore;
+    for (const rep of result.reps) {
+      if (rep.formScore === null || rep.formScore < min || rep.formScore > max) {
+        failures.push(`rep ${rep.repNumber} form score ${rep.formScore} outside ${min}–${max}`);
+      }
+    }
+  }
+  return failures;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filter = args.find(arg => !arg.startsWith('--')) ?? null;
+
+  const cases: GoldenCase[] = JSON.parse(readFileSync(CASES_FILE, 'utf8'));
+  let failed = 0;
+  let checked = 0;
+
+  for (const goldenCase of cases) {
+    if (filter && !goldenCase.name.includes(filter)) continue;
+    checked++;
+
+    let failures: string[];
+    try {
+      if (!hasExerciseAnalyzer(goldenCase.analyzer)) {
+        throw new Error(`unknown analyzer ${goldenCase.analyzer}`);
+      }
+      const result = replayPoseRecording(loadRecording(goldenCase), getExerciseAnalyzer(goldenCase.analyzer, goldenCase.unilateral));
+      const actual = observe(result);
+      if (update) {
+        goldenCase.expect = { ...actual, formScore: withTolerance(actual.formScore) };
+        failures = [];
+      } else if (!goldenCase.expect) {
+        failures = ['no expectations recorded (run with --update)'];
+      } else {
+        failures = compare(goldenCase.expect, actual, result);
+      }
+    } catch (error) {
+      failures = [error instanceof Error ? error.message : String(error)];
+    }
+
+    if (failures.length > 0) {
+      failed++;
+      console.log(`FAIL ${goldenCase.name}`);
+      failures.forEach(failure => console.log(`     ${failure}`));
+    } else {
+      console.log(`${update ? 'UPDATED' : 'ok'}   ${goldenCase.name}`);
+    }
+  }
+
+  if (update) {
+    writeFileSync(CASES_FILE, JSON.stringify(cases, null, 2) + '\n');
+  }
+  console.log(`\n${checked - failed}/${checked} golden sessions ${update ? 'updated' : 'passed'}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
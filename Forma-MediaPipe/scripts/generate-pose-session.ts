@@ -0,0 +1,134 @@
+/**
+ * Generate a synthetic pose session file (see @forma/core/analysis/syntheticPose.ts).
+ *
+ * Usage: npm run generate-session -- --exercise <curl|squat|pushup|lunge> --out <file> [options]
+ *   --reps <n>                Reps to perform (default 5)
+ *   --tempo <e-b-c-t>         Phase durations in seconds, e.g. 3-1-1-0 (default per exercise)
+ *   --rom <0-1>               Fraction of full range of motion (default 1)
+ *   --yaw <deg>               Camera yaw, 0 = facing the camera, 90 = side-on (default 0)
+ *   --noise <m>               Landmark jitter std deviation in metres (default 0)
+ *   --fps <n>                 Frame rate (default 30)
+ *   --seed <n>                Noise seed (default 1)
+ *   --faults <list>           Comma-separated: bodySwing, elbowDrift (curls), kneeValgus, heelLift,
+ *                             forwardLean (squats), halfReps, droppedEccentric
+ *   --side <side>             left, right or alternating: one arm curls or one leg leads (default both arms, alternating legs)
+ *   --model <model>           mediapipe (33 world landmarks) or movenet (17 image landmarks, no depth); default mediapipe
+ *   --exercise-id <id>        Catalog id stored in the file, picks the analyzer when scoring
+ */
+
+import { writeFileSync } from 'fs';
+import { serializePoseRecording } from '@forma/core/analysis/poseRecording';
+import {
+  SyntheticExercise,
+  SyntheticFaults,
+  SyntheticPoseOptions,
+  generateSyntheticPoseSession,
+} from '@forma/core/analysis/syntheticPose';
+
+const USAGE = 'Usage: npm run generate-session -- --exercise <curl|squat|pushup|lunge> --out <file> [options]';
+const EXERCISES: SyntheticExercise[] = ['curl', 'squat', 'pushup', 'lunge'];
+const SIDES: NonNullable<SyntheticPoseOptions['workingSide']>[] = ['left', 'right', 'alternating'];
+const MODELS: NonNullable<SyntheticPoseOptions['landmarkModel']>[] = ['mediapipe', 'movenet'];
+const FAULTS: (keyof SyntheticFaults)[] = [
+  'bodySwing', 'elbowDrift', 'kneeValgus', 'heelLift', 'forwardLean', 'halfReps', 'droppedEccentric',
+];
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || Number.isNaN(parsed)) {
+    throw new Error(`${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parseArgs(args: string[]): { options: SyntheticPoseOptions; outFile: string } {
+  let exercise: SyntheticExercise | null = null;
+  let outFile: string | null = null;
+  const options: Omit<SyntheticPoseOptions, 'exercise'> = { reps: 5 };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[++i];
+    switch (flag) {
+      case '--exercise':
+        if (!EXERCISES.includes(value as SyntheticExercise)) {
+          throw new Error(`--exercise must be one of ${EXERCISES.join(', ')}`);
+        }
+        exercise = value as SyntheticExercise;
+        break;
+      case '--out':
+        outFile = value ?? null;
+        break;
+      case '--reps':
+        options.reps = parseNumber(flag, value);
+        break;
+      case '--tempo': {
+        const [eccentric, bottom, concentric, top] = (value ?? '').split('-').map(v => parseNumber(flag, v) * 1000);
+        options.tempo = { eccentricMs: eccentric, bottomPauseMs: bottom, concentricMs: concentric, topPauseMs: top };
+        break;
+      }
+      case '--rom':
+        options.rangeOfMotion = parseNumber(flag, value);
+        break;
+      case '--yaw':
+        options.cameraYawDeg = parseNumber(flag, value);
+        break;
+      case '--noise':
+        options.noise = parseNumber(flag, value);
+        break;
+      case '--fps':
+        options.fps = parseNumber(flag, value);
+        break;
+      case '--seed':
+        options.seed = parseNumber(flag, value);
+        break;
+      case '--faults': {
+        const faults: SyntheticFaults = {};
+        for (const fault of (value ?? '').split(',')) {
+          if (!FAULTS.includes(fault as keyof SyntheticFaults)) {
+            throw new Error(`Unknown fault: ${fault} (expected ${FAULTS.join(', ')})`);
+          }
+          faults[fault as keyof SyntheticFaults] = true;
+        }
+        options.faults = faults;
+        break;
+      }
+      case '--side':
+        if (!SIDES.includes(value as NonNullable<SyntheticPoseOptions['workingSide']>)) {
+          throw new Error(`--side must be one of ${SIDES.join(', ')}`);
+        }
+        options.workingSide = value as NonNullable<SyntheticPoseOptions['workingSide']>;
+        break;
+      case '--model':
+        if (!MODELS.includes(value as NonNullable<SyntheticPoseOptions['landmarkModel']>)) {
+          throw new Error(`--model must be one of ${MODELS.join(', ')}`);
+        }
+        options.landmarkModel = value as NonNullable<SyntheticPoseOptions['landmarkModel']>;
+        break;
+      case '--exercise-id':
+        options.exerciseCatalogId = value ?? null;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  if (!exercise || !outFile) {
+    throw new Error(USAGE);
+  }
+  return { options: { ...options, exercise }, outFile };
+}
+
+function main(): void {
+  try {
+    const { options, outFile } = parseArgs(process.argv.slice(2));
+    const recording = generateSyntheticPoseSession(options);
+    writeFileSync(outFile, serializePoseRecording(recording));
+    console.log(`Wrote ${recording.frames.length} frames to ${outFile}`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,182 @@
+/**
+ * Score recorded pose sessions offline.
+ *
+ * Runs each recording (see @forma/core/analysis/poseRecording.ts) through an exercise
+ * analyzer and prints a rep-by-rep report: phase timings, joint angle ranges,
+ * tempo, bar velocity, feedback fired, tracking confidence and form score (with its
+ * components, for analyzers that score them). Unilateral analyzers add the side
+ * of each rep and a left/right summary.
+ *
+ * Usage: npm run score-sessions -- [options] <file.forma-pose.json...>
+ *   --analyzer <catalog-id>  Analyzer to use (default: the recording's exercise, else auto-detect)
+ *   --tempo <e-b-c-t>        Prescribed tempo to score reps against, e.g. 3-1-1-0
+ *   --unilateral             Count each side separately, for exercises that have a unilateral mode
+ *   --json                   Print the report as JSON instead of text
+ *   --out <file>             Also write the JSON report to a file
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { getExerciseAnalyzer, hasExerciseAnalyzer } from '@forma/core/analysis/exerciseAnalyzers';
+import { parsePoseRecording } from '@forma/core/analysis/poseRecording';
+import { ReplayRep, ReplayResult, replayPoseRecording } from '@forma/core/analysis/poseReplay';
+import { TempoPrescription, formatRepTempo, parseTempo, scoreTempoCompliance } from '@forma/core/analysis/tempoAnalysis';
+import { capabilitiesFromLandmarks, getMissingLandmarks } from '@forma/core/analysis/skeleton';
+
+type Options = {
+  analyzerId: string | null;
+  tempo: TempoPrescription | null;
+  unilateral: boolean;
+  json: boolean;
+  outFile: string | null;
+  files: string[];
+};
+
+type SessionReport = ReplayResult & { file: string };
+
+const USAGE = 'Usage: npm run score-sessions -- [--analyzer <catalog-id>] [--tempo <e-b-c-t>] [--unilateral] [--json] [--out <file>] <file...>';
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { analyzerId: null, tempo: null, unilateral: false, json: false, outFile: null, files: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--analyzer') {
+      options.analyzerId = args[++i] ?? null;
+    } else if (arg === '--tempo') {
+      options.tempo = parseTempo(args[++i]);
+      if (!options.tempo) {
+        throw new Error(`Invalid tempo: ${args[i]}`);
+      }
+    } else if (arg === '--unilateral') {
+      options.unilateral = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--out') {
+      options.outFile = args[++i] ?? null;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      options.files.push(arg);
+    }
+  }
+  return options;
+}
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(2)}s`;
+
+function formatRep(rep: ReplayRep, tempo: TempoPrescription | null): string[] {
+  const score = rep.formScore !== null ? rep.formScore.toFixed(1) : '-';
+  const side = rep.record?.side ? ` (${rep.record.side})` : '';
+  const lines = [`  Rep ${rep.repNumber}${side}  @ ${formatSeconds(rep.endTime)}  score ${score}`];
+
+  const phases = Object.entries(rep.phaseDurations)
+    .map(([phase, ms]) => `${phase} ${Math.round(ms)}ms`)
+    .join(', ');
+  lines.push(`    phases:   ${phases || '-'}`);
+
+  const angles = Object.entries(rep.angleRanges)
+    .map(([joint, range]) => `${joint} ${range!.min.toFixed(0)}–${range!.max.toFixed(0)}°`)
+    .join(', ');
+  if (angles) {
+    lines.push(`    angles:   ${angles}`);
+  }
+
+  if (rep.tempo) {
+    const compliance = tempo ? scoreTempoCompliance(rep.tempo, tempo) : null;
+    lines.push(`    tempo:    ${formatRepTempo(rep.tempo)}${compliance !== null ? `, ${compliance.toFixed(0)}% on ${tempo!.notation}` : ''}`);
+  }
+
+  if (rep.velocity) {
+    lines.push(`    velocity: mean ${rep.velocity.meanVelocity.toFixed(2)} m/s, peak ${rep.velocity.peakVelocity.toFixed(2)} m/s over ${rep.velocity.displacement.toFixed(2)} m`);
+  }
+
+  if (rep.record) {
+    const components = Object.entries(rep.record.scoreComponents ?? {})
+      .map(([component, score]) => `, ${component} ${score.toFixed(0)}`)
+      .join('');
+    lines.push(`    record:   tracking ${(rep.record.trackingConfidence * 100).toFixed(0)}%${components}`);
+  }
+
+  lines.push(`    feedback: ${rep.feedback.length > 0 ? rep.feedback.join(' | ') : '-'}`);
+  return lines;
+}
+
+function formatReport(report: SessionReport, tempo: TempoPrescription | null): string {
+  const lines = [
+    `${report.file}`,
+    `  analyzer ${report.analyzerId}, ${report.frameCount} frames, ${formatSeconds(report.durationMs)}`,
+    `  reps ${report.summary.reps}, avg form score ${report.summary.avgFormScore}`,
+  ];
+  const { unilateral } = report.summary;
+  if (unilateral) {
+    for (const side of ['left', 'right'] as const) {
+      const { reps, avgFormScore, avgDepth } = unilateral[side];
+      lines.push(`  ${side} ${reps} reps, avg form score ${avgFormScore}, avg depth ${avgDepth !== null ? `${avgDepth}°` : '-'}`);
+    }
+    const depth = unilateral.depthImbalance !== null ? `, depth ${unilateral.depthImbalance}°` : '';
+    lines.push(`  imbalance: reps ${unilateral.repImbalance}%, form ${unilateral.formImbalance} pts${depth}, weaker side ${unilateral.weakerSide ?? '-'}`);
+  }
+  for (const partial of report.summary.partialReps) {
+    lines.push(`  partial rep @ ${formatSeconds(partial.time)}: ${partial.message}`);
+  }
+  if (report.summary.tempo) {
+    const { timeUnderTensionMs, compliance } = report.summary.tempo;
+    lines.push(`  time under tension ${formatSeconds(timeUnderTensionMs)}${compliance !== null ? `, tempo compliance ${compliance.toFixed(0)}%` : ''}`);
+  }
+  if (report.summary.velocity?.velocityLoss != null) {
+    const { velocityLoss, estimatedRepsInReserve } = report.summary.velocity;
+    lines.push(`  velocity loss ${velocityLoss.toFixed(0)}%, estimated reps in reserve ${estimatedRepsInReserve ?? '-'}`);
+  }
+  for (const rep of report.reps) {
+    lines.push(...formatRep(rep, tempo));
+  }
+  return lines.join('\n');
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.files.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  if (options.analyzerId && !hasExerciseAnalyzer(options.analyzerId)) {
+    console.error(`Unknown analyzer: ${options.analyzerId}`);
+    process.exit(1);
+  }
+
+  const reports: SessionReport[] = [];
+  let failed = false;
+
+  for (const file of options.files) {
+    try {
+      const recording = parsePoseRecording(readFileSync(file, 'utf8'));
+      const analyzer = getExerciseAnalyzer(options.analyzerId ?? recording.exerciseCatalogId, options.unilateral);
+      const source = recording.frames[0]?.landmarkSource ?? 'image';
+      const missing = getMissingLandmarks(capabilitiesFromLandmarks(recording.landmarkNames, source), analyzer.requiredLandmarks);
+      if (missing.length > 0) {
+        console.warn(`${file}: recording has no ${missing.join(', ')}; ${analyzer.id} results will be incomplete`);
+      }
+      reports.push({ file: basename(file), ...replayPoseRecording(recording, analyzer, { tempo: options.tempo }) });
+    } catch (error) {
+      failed = true;
+      console.error(`${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(reports.map(report => formatReport(report, options.tempo)).join('\n\n'));
+  }
+  if (options.outFile) {
+    writeFileSync(options.outFile, JSON.stringify(reports, null, 2));
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
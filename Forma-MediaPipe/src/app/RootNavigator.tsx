@@ -12,6 +12,7 @@ import { RewardsScreen } from '../screens/RewardsScreen';
 import { TrainerScreen } from '../screens/TrainerScreen';
 import { WelcomeScreen } from '../screens/WelcomeScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
+import { CalibrationScreen } from '../screens/CalibrationScreen';
 import { CameraScreen } from '../screens/CameraScreen';
 import { InsightsScreen } from '../screens/InsightsScreen';
 import { WorkoutDetailsScreen } from '../screens/WorkoutDetailsScreen';
@@ -21,14 +22,15 @@ import { WorkoutInfoScreen } from '../screens/WorkoutInfoScreen';
 import { RecordLandingScreen } from '../screens/RecordLandingScreen';
 import { CurrentWorkoutScreen } from '../screens/CurrentWorkoutScreen';
 import { ChooseExerciseScreen } from '../screens/ChooseExerciseScreen';
-import { CurrentWorkoutProvider, LoggedSet } from '../contexts/CurrentWorkoutContext';
-import { ScrollProvider, ScrollContext } from '../contexts/ScrollContext';
+import { CurrentWorkoutProvider, LoggedSet, WorkoutExercise } from '@forma/core/contexts/CurrentWorkoutContext';
+import { ScrollProvider, ScrollContext } from '@forma/core/contexts/ScrollContext';
 import { AppHeader } from '../components/ui/AppHeader';
-import { COLORS, FONTS } from '../constants/theme';
+import { COLORS, FONTS } from '@forma/core/theme';
 
 export type CameraParams = { 
   category?: string;
   exerciseName?: string;
+  exerciseCatalogId?: string;
   exerciseId?: string;
   returnToCurrentWorkout?: boolean;
 } | undefined;
@@ -38,6 +40,7 @@ export type RootStackParamList = {
   Welcome: undefined;
   MainTabs: { screen?: string } | undefined;
   Settings: undefined;
+  Calibration: undefined;
   Camera: CameraParams;
   Insights: { metric: string };
   WorkoutDetails: { workoutId: string };
@@ -50,8 +53,11 @@ export type RecordStackParamList = {
   RecordLanding: undefined;
   CurrentWorkout: { newSet?: LoggedSet } | undefined;
   ChooseExercise: undefined;
-  Camera: { exerciseName: string; category: string; exerciseId?: string; returnToCurrentWorkout?: true };
-  SaveWorkout: { workoutData: { category: string; duration: string; totalSets: number; totalReps: number; avgFormScore: number } };
+  Camera: { exerciseName: string; category: string; exerciseCatalogId?: string; exerciseId?: string; returnToCurrentWorkout?: true };
+  SaveWorkout: {
+    workoutData: { category: string; duration: string; totalSets: number; totalReps: number; avgFormScore: number };
+    exercise?: WorkoutExercise; // A set recorded outside the current workout, saved instead of its exercises
+  };
 };
 
 export type RootTabParamList = {
@@ -318,6 +324,14 @@ export const RootNavigator: React.FC = () => {
       <Stack.Screen name="Welcome" component={WelcomeScreen} />
       <Stack.Screen name="MainTabs" component={AppTabs} />
       <Stack.Screen name="Settings" component={SettingsScreen} />
+      <Stack.Screen
+        name="Calibration"
+        component={CalibrationScreen}
+        options={{
+          presentation: 'card',
+          animation: 'slide_from_right',
+        }}
+      />
       <Stack.Screen 
         name="Camera" 
         component={CameraScreen}
@@ -2,8 +2,8 @@ import React, { memo, useCallback, useContext } from 'react';
 import { View, Text, StyleSheet, Image, TouchableOpacity, Animated } from 'react-native';
 import { Search, Bell, Settings } from 'lucide-react-native';
 import { useNavigation } from '@react-navigation/native';
-import { COLORS, SPACING, FONTS } from '../../constants/theme';
-import { ScrollContext } from '../../contexts/ScrollContext';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
+import { ScrollContext } from '@forma/core/contexts/ScrollContext';
 
 export const HEADER_HEIGHT = 80; // Approximate height of the header
 
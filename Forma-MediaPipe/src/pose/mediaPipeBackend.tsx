@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View } from 'react-native';
+import { RNMediapipe, switchCamera } from '@thinksys/react-native-mediapipe';
+import { MEDIAPIPE_CAPABILITIES, MediaPipeLandmark, Skeleton, fromMediaPipeLandmarks, unmirrorSkeleton } from '@forma/core/analysis/skeleton';
+import { CameraFacing } from '@forma/core/analysis/poseRecording';
+import { PoseBackend, PoseBackendViewProps } from '@forma/core/pose/poseBackend';
+import { PoseOverlay, PoseKeypoint } from '@forma/core/components/ui/PoseOverlay';
+
+// Landmark visibility below this isn't drawn
+const OVERLAY_MIN_VISIBILITY = 0.5;
+
+// The plugin's landmark event: a JSON string or an object, untyped by the plugin
+interface LandmarkPayload {
+  landmarks?: MediaPipeLandmark[]; // Image coords, normalized 0-1
+  worldLandmarks?: MediaPipeLandmark[]; // Metres around the hip midpoint
+}
+
+const isLandmarkArray = (value: unknown): value is MediaPipeLandmark[] =>
+  Array.isArray(value) && value.every(landmark => typeof landmark === 'object' && landmark !== null);
+
+const parseLandmarkData = (landmarkData: unknown): LandmarkPayload | null => {
+  let parsed: unknown;
+  try {
+    parsed = typeof landmarkData === 'string' ? JSON.parse(landmarkData) : landmarkData;
+  } catch {
+    return null;
+  }
+  // The image landmarks may also come as a bare array
+  if (isLandmarkArray(parsed)) {
+    return { landmarks: parsed };
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const { landmarks, worldLandmarks } = parsed as Record<string, unknown>;
+  return {
+    landmarks: isLandmarkArray(landmarks) ? landmarks : undefined,
+    worldLandmarks: isLandmarkArray(worldLandmarks) ? worldLandmarks : undefined,
+  };
+};
+
+// The plugin runs the model on the mirrored front-camera preview, so front-camera landmarks come
+// out mirrored, with the athlete's left arm labelled right_*. They are unmirrored to the side
+// convention in skeleton.ts before anything uses them.
+const fromMirroredCamera = (skeleton: Skeleton, facing: CameraFacing): Skeleton =>
+  facing === 'front' ? unmirrorSkeleton(skeleton) : skeleton;
+
+// Convert MediaPipe landmark data to a Skeleton (see @forma/core/analysis/skeleton.ts).
+// Prefer worldLandmarks (3D real-world coords in meters) for accurate joint angles - they have
+// consistent scale across x,y,z and represent actual body pose. Fall back to landmarks (image
+// coords) if worldLandmarks unavailable.
+const convertLandmarksToSkeleton = (payload: LandmarkPayload | null, facing: CameraFacing): Skeleton | null => {
+  const worldLandmarksArray = payload?.worldLandmarks;
+  const useWorldLandmarks = worldLandmarksArray?.length === 33;
+  const landmarksArray = useWorldLandmarks ? worldLandmarksArray : payload?.landmarks;
+
+  if (!landmarksArray) {
+    return null;
+  }
+
+  return fromMirroredCamera(fromMediaPipeLandmarks(landmarksArray, useWorldLandmarks ? 'world' : 'image'), facing);
+};
+
+// Image landmarks (normalized 0-1) scaled to the view, for the skeleton overlay. Like the
+// analyzers' skeleton they are unmirrored; the overlay mirrors them back onto the front preview.
+const convertLandmarksToOverlay = (payload: LandmarkPayload | null, width: number, height: number, facing: CameraFacing): PoseKeypoint[] | null => {
+  const imageLandmarksArray = payload?.landmarks;
+  if (!imageLandmarksArray || imageLandmarksArray.length === 0) {
+    return null;
+  }
+  return fromMirroredCamera(fromMediaPipeLandmarks(imageLandmarksArray, 'image'), facing).keypoints.map(kp => ({
+    name: kp.name,
+    x: kp.x * width,
+    y: kp.y * height,
+    score: kp.score,
+  }));
+};
+
+const MediaPipeView: React.FC<PoseBackendViewProps> = ({ width, height, running, facing, onPose, annotations }) => {
+  const runningRef = useRef(running);
+  const facingRef = useRef(facing);
+  // RNMediapipe starts on the front camera; switchCamera() toggles it
+  const nativeFacingRef = useRef<CameraFacing>('front');
+  const lastLandmarkTimeRef = useRef(0);
+  const [overlayKeypoints, setOverlayKeypoints] = useState<PoseKeypoint[] | null>(null);
+
+  useEffect(() => {
+    runningRef.current = running;
+  }, [running]);
+
+  useEffect(() => {
+    facingRef.current = facing;
+    if (nativeFacingRef.current !== facing) {
+      switchCamera();
+      nativeFacingRef.current = facing;
+    }
+  }, [facing]);
+
+  const handleLandmark = useCallback((data: unknown) => {
+    // Reduced throttle to 16ms (~60fps) for ultra-low latency
+    // Most devices can handle 60fps, provides smooth real-time feedback
+    const now = Date.now();
+    if (now - lastLandmarkTimeRef.current < 16) {
+      return;
+    }
+    lastLandmarkTimeRef.current = now;
+
+    const payload = parseLandmarkData(data);
+    // The skeleton is drawn whether or not poses are being delivered
+    setOverlayKeypoints(convertLandmarksToOverlay(payload, width, height, facingRef.current));
+
+    if (!runningRef.current) {
+      return;
+    }
+
+    const skeleton = convertLandmarksToSkeleton(payload, facingRef.current);
+    if (!skeleton || skeleton.keypoints.length === 0) {
+      return;
+    }
+
+    // The landmark event carries no capture time on Android, so frames are stamped on arrival
+    onPose({ skeleton, timestamp: now, cameraFacing: facingRef.current });
+  }, [onPose, width, height]);
+
+  // Memoize MediaPipe props. The body-part flags only switch the library's own
+  // drawing (landmark data is unaffected), so it is turned off in favour of PoseOverlay.
+  const mediapipeProps = useMemo(() => ({
+    width,
+    height,
+    face: false,
+    leftArm: false,
+    rightArm: false,
+    torso: false,
+    leftLeg: false,
+    rightLeg: false,
+    leftWrist: false,
+    rightWrist: false,
+    leftAnkle: false,
+    rightAnkle: false,
+  }), [width, height]);
+
+  return (
+    <View style={{ width, height }}>
+      <RNMediapipe {...mediapipeProps} onLandmark={handleLandmark} />
+      <PoseOverlay
+        keypoints={overlayKeypoints}
+        width={width}
+        height={height}
+        mirror={facing === 'front'}
+        minScore={OVERLAY_MIN_VISIBILITY}
+        {...annotations}
+      />
+    </View>
+  );
+};
+
+export const mediaPipeBackend: PoseBackend = {
+  id: 'mediapipe',
+  name: 'MediaPipe Pose',
+  description: '33 landmarks with depth',
+  capabilities: MEDIAPIPE_CAPABILITIES,
+  View: MediaPipeView,
+};
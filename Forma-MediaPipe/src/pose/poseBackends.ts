@@ -0,0 +1,8 @@
+import { PoseBackend } from '@forma/core/pose/poseBackend';
+import { replayPoseBackend } from '@forma/core/pose/replayPoseBackend';
+import { mediaPipeBackend } from './mediaPipeBackend';
+
+// Pose backends selectable in Settings; the first is the default.
+// MoveNet runs in the Forma-MoveNet app: its frame processor needs the
+// worklets babel plugin, which this app leaves out (iOS Hermes crash).
+export const POSE_BACKENDS: PoseBackend[] = [mediaPipeBackend, replayPoseBackend];
@@ -2,13 +2,13 @@ import React from 'react';
 import { View, StyleSheet, ScrollView, Text, TouchableOpacity, Dimensions, Modal } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Activity, Flame, Droplet, Dumbbell, Target, TrendingUp, ChevronRight, ArrowUp, ArrowDown, ChevronDown } from 'lucide-react-native';
-import { MonoText } from '../components/typography/MonoText';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { MonoText } from '@forma/core/components/typography/MonoText';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
 import Svg, { Circle, Path, Defs, LinearGradient, Stop } from 'react-native-svg';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../app/RootNavigator';
-import { useScroll } from '../contexts/ScrollContext';
+import { useScroll } from '@forma/core/contexts/ScrollContext';
 
 // Circular Progress Component
 const CircularProgress = ({ size, strokeWidth, progress, icon: Icon }: { size: number; strokeWidth: number; progress: number; icon: any }) => {
@@ -0,0 +1,304 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ChevronLeft, FlipHorizontal } from 'lucide-react-native';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { NeonButton } from '@forma/core/components/ui/NeonButton';
+import { usePoseBackend } from '@forma/core/contexts/PoseBackendContext';
+import { useUserProfile } from '@forma/core/contexts/UserProfileContext';
+import { PoseEvent } from '@forma/core/pose/poseBackend';
+import { CameraFacing } from '@forma/core/analysis/poseRecording';
+import {
+  BodyCalibration,
+  CALIBRATION_STEPS,
+  CalibrationSession,
+  createCalibrationSession,
+  getCalibrationStepProgress,
+  getCurrentCalibrationStep,
+  isCalibrationComplete,
+  summarizeCalibration,
+  updateCalibrationSession,
+} from '@forma/core/analysis/bodyCalibration';
+
+// Portrait preview, like the camera screen
+const PREVIEW_ASPECT = 3 / 4;
+
+const formatAngle = (angle: number | null) => (angle === null ? '-' : `${Math.round(angle)}°`);
+
+// World landmarks are metres; image landmarks are only relative
+const formatLength = (length: number | null, calibration: BodyCalibration) => {
+  if (length === null) return '-';
+  return calibration.source === 'world' ? `${Math.round(length * 100)} cm` : length.toFixed(2);
+};
+
+interface CalibrationScreenProps {
+  navigation: any;
+}
+
+/**
+ * Guided body calibration: the user holds each step in CALIBRATION_STEPS in
+ * front of the camera, then saves the measured ranges to their profile.
+ */
+export const CalibrationScreen: React.FC<CalibrationScreenProps> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const { backend } = usePoseBackend();
+  const { profile, setBodyCalibration } = useUserProfile();
+
+  const [running, setRunning] = useState(false);
+  const [facing, setFacing] = useState<CameraFacing>('front');
+  const [previewWidth, setPreviewWidth] = useState(0);
+  const [session, setSession] = useState<CalibrationSession>(createCalibrationSession);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<BodyCalibration | null>(null);
+  const sessionRef = useRef(session);
+
+  const handlePose = useCallback(({ skeleton, timestamp }: PoseEvent) => {
+    const next = updateCalibrationSession(sessionRef.current, skeleton.keypoints, timestamp);
+    sessionRef.current = next;
+    setSession(next);
+    setProgress(getCalibrationStepProgress(next, timestamp));
+
+    if (isCalibrationComplete(next)) {
+      setRunning(false);
+      setResult(summarizeCalibration(next, skeleton.source, timestamp));
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    const fresh = createCalibrationSession();
+    sessionRef.current = fresh;
+    setSession(fresh);
+    setProgress(0);
+    setResult(null);
+    setRunning(true);
+  }, []);
+
+  const save = useCallback(() => {
+    if (!result) return;
+    setBodyCalibration(result);
+    navigation.goBack();
+  }, [result, setBodyCalibration, navigation]);
+
+  const step = getCurrentCalibrationStep(session);
+  const shown = result ?? profile.bodyCalibration;
+  const previewHeight = previewWidth / PREVIEW_ASPECT;
+
+  const summaryRows = useMemo(() => {
+    if (!shown) return [];
+    const { rom, limbLengths } = shown;
+    return [
+      { label: 'Elbow range', value: `${formatAngle(rom.elbowFlexion)} – ${formatAngle(rom.elbowExtension)}` },
+      { label: 'Knee range', value: `${formatAngle(rom.kneeFlexion)} – ${formatAngle(rom.kneeExtension)}` },
+      { label: 'Deepest hip angle', value: formatAngle(rom.hipFlexion) },
+      { label: 'Upper arm / forearm', value: `${formatLength(limbLengths.upperArm, shown)} / ${formatLength(limbLengths.forearm, shown)}` },
+      { label: 'Thigh / shin', value: `${formatLength(limbLengths.thigh, shown)} / ${formatLength(limbLengths.shin, shown)}` },
+    ];
+  }, [shown]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ChevronLeft size={24} color={COLORS.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Body Calibration</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => setFacing(current => (current === 'front' ? 'back' : 'front'))}
+        >
+          <FlipHorizontal size={22} color={COLORS.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.intro}>
+          Prop the phone up so your whole body is in view, then hold each position until the bar fills.
+          Rep counting and form checks then adapt to your own range of motion.
+        </Text>
+
+        <View
+          style={[styles.preview, previewWidth > 0 && { height: previewHeight }]}
+          onLayout={(event) => setPreviewWidth(event.nativeEvent.layout.width)}
+        >
+          {previewWidth > 0 && (
+            <backend.View
+              width={previewWidth}
+              height={previewHeight}
+              running={running}
+              facing={facing}
+              onPose={handlePose}
+            />
+          )}
+          {running && step && (
+            <View style={styles.stepCard}>
+              <Text style={styles.stepCount}>
+                Step {session.stepIndex + 1} of {CALIBRATION_STEPS.length}
+              </Text>
+              <Text style={styles.stepTitle}>{step.title}</Text>
+              <Text style={styles.stepInstruction}>{step.instruction}</Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+              </View>
+            </View>
+          )}
+        </View>
+
+        {!running && (
+          <NeonButton
+            title={shown ? 'Calibrate Again' : 'Start Calibration'}
+            variant={result ? 'ghost' : 'primary'}
+            onPress={start}
+            style={styles.button}
+          />
+        )}
+        {result && <NeonButton title="Save Calibration" onPress={save} style={styles.button} />}
+
+        {shown && (
+          <>
+            <Text style={styles.sectionTitle}>{result ? 'New Calibration' : 'Saved Calibration'}</Text>
+            <View style={styles.section}>
+              {summaryRows.map((row) => (
+                <View key={row.label} style={styles.row}>
+                  <Text style={styles.rowLabel}>{row.label}</Text>
+                  <Text style={styles.rowValue}>{row.value}</Text>
+                </View>
+              ))}
+            </View>
+            {!result && (
+              <TouchableOpacity style={styles.clearButton} onPress={() => setBodyCalibration(null)}>
+                <Text style={styles.clearText}>Clear calibration</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.screenHorizontal,
+    paddingVertical: SPACING.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.cardBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: SPACING.screenHorizontal,
+  },
+  intro: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  preview: {
+    height: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: COLORS.cardBackground,
+  },
+  stepCard: {
+    position: 'absolute',
+    left: SPACING.sm,
+    right: SPACING.sm,
+    bottom: SPACING.sm,
+    padding: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  stepCount: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  stepTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.text,
+    marginTop: 2,
+  },
+  stepInstruction: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: SPACING.sm,
+    backgroundColor: COLORS.inactive,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: COLORS.primary,
+  },
+  button: {
+    marginTop: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xl,
+    marginBottom: SPACING.sm,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  section: {
+    ...CARD_STYLE,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.screenHorizontal,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.text,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontFamily: FONTS.mono.regular,
+    color: COLORS.textSecondary,
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: SPACING.lg,
+  },
+  clearText: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.danger,
+  },
+});
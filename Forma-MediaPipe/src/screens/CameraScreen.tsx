@@ -1,16 +1,28 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { View, StyleSheet, Text, TouchableOpacity, Dimensions, Platform } from 'react-native';
-import { RNMediapipe, switchCamera } from '@thinksys/react-native-mediapipe';
+import { View, StyleSheet, Text, TouchableOpacity, Dimensions, Platform, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp, useFocusEffect, CompositeNavigationProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { FlipHorizontal, Pause, Play, Info, Dumbbell } from 'lucide-react-native';
-import { COLORS, FONTS, SPACING } from '../constants/theme';
-import { MonoText } from '../components/typography/MonoText';
+import { COLORS, FONTS, SPACING } from '@forma/core/theme';
+import { MonoText } from '@forma/core/components/typography/MonoText';
 import { RootStackParamList, RecordStackParamList } from '../app/RootNavigator';
-import { detectExercise, updateRepCount, Keypoint } from '../utils/poseAnalysis';
-import { updateBarbellCurlState, initializeBarbellCurlState, BarbellCurlState } from '../utils/barbellCurlAnalysis';
-import { useCurrentWorkout } from '../contexts/CurrentWorkoutContext';
+import { getExerciseAnalyzer, hasUnilateralMode, JointAngles } from '@forma/core/analysis/exerciseAnalyzers';
+import {
+  appendPoseFrame,
+  CameraFacing,
+  createPoseRecording,
+  PoseRecording,
+} from '@forma/core/analysis/poseRecording';
+import { savePoseRecording } from '@forma/core/services/poseRecordingStorage';
+import { useCurrentWorkout, LoggedSet } from '@forma/core/contexts/CurrentWorkoutContext';
+import { usePoseBackend } from '@forma/core/contexts/PoseBackendContext';
+import { useUserProfile } from '@forma/core/contexts/UserProfileContext';
+import { PoseEvent, PoseOverlayAnnotations } from '@forma/core/pose/poseBackend';
+import { BodyPart, BodySide } from '@forma/core/analysis/skeleton';
+import { getReferenceMotion, getReferencePose, ReferencePose } from '@forma/core/analysis/referenceMotion';
+import { MAX_REPS_IN_RESERVE, SetVelocity } from '@forma/core/analysis/velocityMetrics';
+import { parseTempo, SetTempo, TEMPO_PRESETS } from '@forma/core/analysis/tempoAnalysis';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -20,75 +32,72 @@ const CAMERA_ASPECT_HEIGHT = 4;
 const cameraDisplayWidth = SCREEN_WIDTH;
 const cameraDisplayHeight = (SCREEN_WIDTH * CAMERA_ASPECT_HEIGHT) / CAMERA_ASPECT_WIDTH; // width * 4/3
 
-// Camera can be called from either the root stack or the record stack
+// Camera can be called from either the root stack or the record stack, and navigates within both
 type CameraScreenRouteProp = RouteProp<RootStackParamList, 'Camera'> | RouteProp<RecordStackParamList, 'Camera'>;
-type CameraScreenNavigationProp = NativeStackNavigationProp<RootStackParamList | RecordStackParamList>;
-
-// MediaPipe landmark names (33 landmarks)
-const MEDIAPIPE_LANDMARK_NAMES = [
-  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
-  'right_eye_inner', 'right_eye', 'right_eye_outer',
-  'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
-  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
-  'left_wrist', 'right_wrist', 'left_pinky', 'right_pinky',
-  'left_index', 'right_index', 'left_thumb', 'right_thumb',
-  'left_hip', 'right_hip', 'left_knee', 'right_knee',
-  'left_ankle', 'right_ankle', 'left_heel', 'right_heel',
-  'left_foot_index', 'right_foot_index'
-];
+type CameraScreenNavigationProp = CompositeNavigationProp<
+  NativeStackNavigationProp<RecordStackParamList, 'Camera'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
 
 export const CameraScreen: React.FC = () => {
   const navigation = useNavigation<CameraScreenNavigationProp>();
   const route = useRoute<CameraScreenRouteProp>();
   const insets = useSafeAreaInsets();
   const { addSetToExercise } = useCurrentWorkout();
+  const { backend, showJointAngles, showGhost } = usePoseBackend();
+  const { profile, setPrescribedTempo } = useUserProfile();
   
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [currentExercise, setCurrentExercise] = useState<string | null>(null);
   const [repCount, setRepCount] = useState(0);
+  const [partialRepCount, setPartialRepCount] = useState(0);
+  // Reps on each side, from unilateral analyzers
+  const [sideReps, setSideReps] = useState<Record<BodySide, number> | null>(null);
   const [currentFormScore, setCurrentFormScore] = useState<number | null>(null);
-  const [exercisePhase, setExercisePhase] = useState<'up' | 'down' | 'idle'>('idle');
+  const [velocity, setVelocity] = useState<SetVelocity | null>(null);
+  const [tempo, setTempo] = useState<SetTempo | null>(null);
   const [workoutStartTime, setWorkoutStartTime] = useState<Date | null>(null);
-  const [workoutData, setWorkoutData] = useState({
-    totalReps: 0,
-    formScores: [] as number[],
-    duration: 0,
-  });
+  const [workoutData, setWorkoutData] = useState({ duration: 0 });
   const [feedback, setFeedback] = useState<string | null>(null);
+  // Camera placement advice, shown while there is no form feedback
+  const [placementHint, setPlacementHint] = useState<string | null>(null);
 
   // Debug angles display state (for UI only)
-  const [debugAngles, setDebugAngles] = useState<{
-    leftElbow: number | null;
-    rightElbow: number | null;
-    leftShoulder: number | null;
-    rightShoulder: number | null;
-    leftHip: number | null;
-    rightHip: number | null;
-    leftKnee: number | null;
-    rightKnee: number | null;
-    phase: string;
-  }>({
-    leftElbow: null,
-    rightElbow: null,
-    leftShoulder: null,
-    rightShoulder: null,
-    leftHip: null,
-    rightHip: null,
-    leftKnee: null,
-    rightKnee: null,
-    phase: 'idle',
-  });
-
-  // Barbell curl specific state
-  const barbellCurlStateRef = useRef<BarbellCurlState>(initializeBarbellCurlState());
+  const [debugAngles, setDebugAngles] = useState<(JointAngles & { phase: string }) | null>(null);
+  // Body parts the current feedback is about, drawn red on the skeleton
+  const [faultyParts, setFaultyParts] = useState<BodyPart[]>([]);
+  // Ideal pose for the current phase, drawn as a ghost skeleton to follow
+  const [ghostPose, setGhostPose] = useState<ReferencePose | null>(null);
+  // Phase the ghost follows and when it began (pose timestamp)
+  const ghostPhaseRef = useRef<{ phase: string; startedAt: number } | null>(null);
+
+  const overlayAnnotations = useMemo<PoseOverlayAnnotations>(() => ({
+    faultyParts,
+    showJointAngles,
+    jointAngles: debugAngles,
+    ghostPose: showGhost ? ghostPose : null,
+  }), [faultyParts, showJointAngles, debugAngles, showGhost, ghostPose]);
 
   const category = route.params?.category ?? 'Weightlifting';
-  const exerciseNameFromRoute = (route.params as any)?.exerciseName;
-  const exerciseId = (route.params as any)?.exerciseId;
-  const returnToCurrentWorkout = (route.params as any)?.returnToCurrentWorkout ?? false;
-  const cameraSessionKey = (route.params as any)?.cameraSessionKey ?? 'default';
-
+  const exerciseNameFromRoute = route.params?.exerciseName;
+  const exerciseCatalogId = route.params?.exerciseCatalogId;
+  const exerciseId = route.params?.exerciseId;
+  const returnToCurrentWorkout = route.params?.returnToCurrentWorkout ?? false;
+
+  // Count each side separately, for exercises that can also be done one arm or leg at a time
+  const [unilateral, setUnilateral] = useState(false);
+  // Exercise-specific analyzer, looked up by catalog id (falls back to auto-detection)
+  const analyzer = useMemo(() => getExerciseAnalyzer(exerciseCatalogId, unilateral), [exerciseCatalogId, unilateral]);
+  // Thresholds follow the user's body calibration (Settings → Body Calibration); reps are
+  // scored against the prescribed tempo chosen in the top bar. Created once, not on every render;
+  // each set starts from a fresh state anyway.
+  const [initialAnalyzerState] = useState(() => analyzer.createState(profile.bodyCalibration, parseTempo(profile.prescribedTempo)));
+  const analyzerStateRef = useRef(initialAnalyzerState);
+
+  // Raw keypoint stream of the current set, saved for offline replay when the set ends
+  const poseRecordingRef = useRef<PoseRecording | null>(null);
+  const [cameraFacing, setCameraFacing] = useState<CameraFacing>('front');
 
   // Unmount camera before leaving so native layer can release it; avoids "Camera initialization failed" on next open
   const [cameraMounted, setCameraMounted] = useState(false);
@@ -104,35 +113,6 @@ export const CameraScreen: React.FC = () => {
     }, [isClosing])
   );
 
-  // Use refs to track exercise state without triggering re-renders
-  const exercisePhaseRef = useRef(exercisePhase);
-  const repCountRef = useRef(repCount);
-  const currentExerciseRef = useRef(currentExercise);
-  const lastDetectionTimeRef = useRef(0);
-  const isRecordingRef = useRef(isRecording);
-  const isPausedRef = useRef(isPaused);
-  
-  // Sync refs with state
-  useEffect(() => {
-    exercisePhaseRef.current = exercisePhase;
-  }, [exercisePhase]);
-  
-  useEffect(() => {
-    repCountRef.current = repCount;
-  }, [repCount]);
-  
-  useEffect(() => {
-    currentExerciseRef.current = currentExercise;
-  }, [currentExercise]);
-
-  useEffect(() => {
-    isRecordingRef.current = isRecording;
-  }, [isRecording]);
-
-  useEffect(() => {
-    isPausedRef.current = isPaused;
-  }, [isPaused]);
-
   // Track workout duration
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -147,184 +127,88 @@ export const CameraScreen: React.FC = () => {
     };
   }, [isRecording, isPaused, workoutStartTime]);
 
-  // Convert MediaPipe landmark data to our Keypoint format.
-  // Prefer worldLandmarks (3D real-world coords in meters) for accurate joint angles - they have
-  // consistent scale across x,y,z and represent actual body pose. Fall back to landmarks (image
-  // coords) if worldLandmarks unavailable.
-  const convertLandmarksToKeypoints = useCallback((landmarkData: any): Keypoint[] | null => {
-    try {
-      let parsedData = landmarkData;
-      if (typeof landmarkData === 'string') {
-        parsedData = JSON.parse(landmarkData);
-      }
-
-      const worldLandmarksArray = parsedData?.worldLandmarks;
-      const imageLandmarksArray = parsedData?.landmarks || parsedData;
-
-      const landmarksArray =
-        Array.isArray(worldLandmarksArray) && worldLandmarksArray.length === 33
-          ? worldLandmarksArray
-          : Array.isArray(imageLandmarksArray)
-            ? imageLandmarksArray
-            : null;
-
-      if (!landmarksArray) {
-        return null;
-      }
+  // Handle poses from the selected backend; it only delivers them while recording and not paused
+  const handlePose = useCallback(({ skeleton, timestamp, cameraFacing: poseFacing }: PoseEvent) => {
+    const { keypoints, source: landmarkSource } = skeleton;
 
-      const keypoints: Keypoint[] = landmarksArray.map((landmark: any, index: number) => ({
-        name: MEDIAPIPE_LANDMARK_NAMES[index] || `landmark_${index}`,
-        x: landmark.x ?? 0,
-        y: landmark.y ?? 0,
-        z: typeof landmark.z === 'number' ? landmark.z : 0,
-        score: landmark.visibility !== undefined ? landmark.visibility : 1.0,
-      }));
-
-      return keypoints;
-    } catch {
-      return null;
+    if (poseRecordingRef.current) {
+      appendPoseFrame(poseRecordingRef.current, keypoints, timestamp, poseFacing, landmarkSource);
     }
-  }, []);
 
-  // Handle landmark data from MediaPipe with optimized throttling
-  const handleLandmark = useCallback((data: any) => {
-    if (!isRecordingRef.current) {
-      return;
-    }
-    
-    if (isPausedRef.current) {
-      return;
-    }
+    // Analyzers take all timing from the backend's timestamp
+    const newState = analyzer.update(analyzerStateRef.current, keypoints, timestamp);
+    analyzerStateRef.current = newState;
+    const output = analyzer.getOutput(newState);
 
-    // Reduced throttle to 16ms (~60fps) for ultra-low latency
-    // Most devices can handle 60fps, provides smooth real-time feedback
-    const now = Date.now();
-    if (now - lastDetectionTimeRef.current < 16) {
-      return;
+    // Update debug angles display (only analyzers with an angle readout provide them)
+    if (output.jointAngles) {
+      setDebugAngles({ ...output.jointAngles, phase: output.phase });
     }
-    lastDetectionTimeRef.current = now;
 
-    const keypoints = convertLandmarksToKeypoints(data);
-    if (!keypoints || keypoints.length === 0) {
-      return;
+    setCurrentExercise(output.exerciseName);
+    setRepCount(output.repCount);
+    setPartialRepCount(output.partialRepCount);
+    setSideReps(current => (current?.left === output.sides?.left && current?.right === output.sides?.right ? current : output.sides));
+    if (output.formScore !== null) {
+      setCurrentFormScore(output.formScore);
     }
-
-    // Check if this is a Barbell Curl exercise (exercise-specific logic)
-    if (exerciseNameFromRoute === 'Barbell Curl') {
-      // Use barbell curl-specific analysis
-      const newState = updateBarbellCurlState(keypoints, barbellCurlStateRef.current);
-      
-      barbellCurlStateRef.current = newState;
-
-      // Update debug angles display
-      setDebugAngles({
-        leftElbow: newState.leftElbowAngle,
-        rightElbow: newState.rightElbowAngle,
-        leftShoulder: newState.leftShoulderAngle,
-        rightShoulder: newState.rightShoulderAngle,
-        leftHip: newState.leftHipAngle,
-        rightHip: newState.rightHipAngle,
-        leftKnee: newState.leftKneeAngle,
-        rightKnee: newState.rightKneeAngle,
-        phase: newState.phase,
-      });
-
-      // Always update rep count (even if it hasn't changed)
-      setRepCount(newState.repCount);
-      
-      if (newState.formScore > 0) {
-        setCurrentFormScore(newState.formScore);
-      }
-      
-      // Update feedback (will auto-clear after 2 seconds in the analysis logic)
-      if (newState.feedback) {
-        setFeedback(newState.feedback);
-      } else {
-        setFeedback(null);
-      }
-
-      // Update workout data when a rep is completed
-      if (newState.repCount > repCountRef.current) {
-        setWorkoutData(prev => ({
-          ...prev,
-          totalReps: newState.repCount,
-          formScores: [...prev.formScores, newState.formScore],
-        }));
-      }
-    } else {
-      // Use generic exercise detection for other exercises
-      const detection = detectExercise(keypoints);
-      
-      if (detection.exercise && detection.angle !== null) {
-        const exerciseName = detection.exercise;
-        
-        // Update exercise name if changed
-        if (currentExerciseRef.current !== exerciseName) {
-          setCurrentExercise(exerciseName);
-          setExercisePhase('idle');
-          return;
-        }
-
-        // Count reps based on angle changes
-        const repUpdate = updateRepCount(
-          exerciseName,
-          detection.angle,
-          exercisePhaseRef.current,
-          repCountRef.current
-        );
-
-        // Only update state if something changed
-        if (repUpdate.phase !== exercisePhaseRef.current) {
-          setExercisePhase(repUpdate.phase);
-        }
-
-        // Rep completed
-        if (repUpdate.repCount > repCountRef.current) {
-          const formScore = repUpdate.formScore;
-          
-          setRepCount(repUpdate.repCount);
-          setCurrentFormScore(formScore);
-          
-          // Update workout data with functional update to avoid stale closures
-          setWorkoutData(prev => ({
-            ...prev,
-            totalReps: prev.totalReps + 1,
-            formScores: [...prev.formScores, formScore],
-          }));
-        }
-      } else if (currentExerciseRef.current !== null) {
-        // No exercise detected - reset
-        setCurrentExercise(null);
-        setExercisePhase('idle');
-      }
+    // The reps array only changes when a rep is counted
+    setVelocity(current => (current?.reps === output.velocity?.reps ? current : output.velocity));
+    setTempo(current => (current?.reps === output.tempo?.reps ? current : output.tempo));
+
+    // Feedback auto-clears after 2 seconds in the analysis logic
+    setFeedback(output.feedback);
+    setPlacementHint(output.placementHint);
+    setFaultyParts(output.faultyParts);
+
+    // Ghost: the reference motion for this phase, timed from when the phase began
+    if (ghostPhaseRef.current?.phase !== output.phase) {
+      ghostPhaseRef.current = { phase: output.phase, startedAt: timestamp };
     }
-  }, [convertLandmarksToKeypoints, exerciseNameFromRoute]);
+    const motion = getReferenceMotion(analyzer.id, output.exerciseName);
+    setGhostPose(motion ? getReferencePose(motion, output.phase, timestamp - ghostPhaseRef.current.startedAt) : null);
+  }, [analyzer]);
 
   // Memoize button handlers to prevent recreating on every render
   const handleRecordPress = useCallback(() => {
     if (isRecording) {
       // Stop recording
       setIsRecording(false);
+      setGhostPose(null);
+
+      const poseRecording = poseRecordingRef.current;
+      poseRecordingRef.current = null;
+      if (poseRecording && poseRecording.frames.length > 0) {
+        savePoseRecording(poseRecording).catch((error) => {
+          // The screen is about to close, so tell the user in an alert rather than the feedback card
+          Alert.alert('Recording not saved', `The pose recording of this set could not be saved: ${error instanceof Error ? error.message : error}`);
+        });
+      }
       
-      // Calculate workout data
-      const avgFormScore = workoutData.formScores.length > 0
-        ? Math.round(workoutData.formScores.reduce((a, b) => a + b, 0) / workoutData.formScores.length)
-        : 0;
+      // Reps and per-rep form scores come from the analyzer's set summary
+      const { reps, avgFormScore, velocity: velocitySummary, tempo: tempoSummary, repRecords, partialReps, unilateral: sideSummary } = analyzer.summarizeSet(analyzerStateRef.current);
+
+      const exerciseName = exerciseNameFromRoute || currentExercise || analyzer.name;
+      const newSet: LoggedSet = {
+        exerciseName,
+        reps,
+        weight: 0,
+        formScore: avgFormScore,
+        velocity: velocitySummary ?? undefined,
+        tempo: tempoSummary ?? undefined,
+        repRecords,
+        partialReps,
+        unilateral: sideSummary ?? undefined,
+      };
 
       // Check if this is from the Record stack (Current Workout flow)
       if (returnToCurrentWorkout && exerciseNameFromRoute && exerciseId) {
-        const newSet = {
-          exerciseName: exerciseNameFromRoute,
-          reps: workoutData.totalReps,
-          weight: 0,
-          formScore: avgFormScore,
-        };
         addSetToExercise(exerciseId, newSet);
         // Unmount camera first so native layer releases it; prevents "Camera initialization failed" on next open
         setIsClosing(true);
         setCameraMounted(false);
         setTimeout(() => {
-          (navigation as any).navigate('CurrentWorkout');
+          navigation.navigate('CurrentWorkout');
         }, 450);
       } else {
         // Original flow: navigate to SaveWorkout
@@ -335,13 +219,16 @@ export const CameraScreen: React.FC = () => {
         const workoutDataToSave = {
           category,
           duration: durationString,
-          totalReps: workoutData.totalReps,
+          totalSets: 1,
+          totalReps: reps,
           avgFormScore,
         };
 
         setTimeout(() => {
-          (navigation as any).replace('SaveWorkout', {
+          navigation.replace('SaveWorkout', {
             workoutData: workoutDataToSave,
+            // Saved on its own: the current workout, if any, is a different one
+            exercise: { id: `${Date.now()}-${Math.random()}`, catalogId: exerciseCatalogId, name: exerciseName, category, sets: [newSet] },
           });
         }, 100);
       }
@@ -352,61 +239,68 @@ export const CameraScreen: React.FC = () => {
       // If exercise name is provided from route, use it; otherwise let detection handle it
       setCurrentExercise(exerciseNameFromRoute || null);
       setRepCount(0);
+      setPartialRepCount(0);
+      setSideReps(null);
       setCurrentFormScore(null);
+      setVelocity(null);
+      setTempo(null);
       setIsPaused(false);
       setFeedback(null);
-      // Reset barbell curl state if starting a barbell curl
-      if (exerciseNameFromRoute === 'Barbell Curl') {
-        barbellCurlStateRef.current = initializeBarbellCurlState();
-      }
-      setWorkoutData({
-        totalReps: 0,
-        formScores: [],
-        duration: 0,
-      });
+      setPlacementHint(null);
+      setDebugAngles(null);
+      setFaultyParts([]);
+      setGhostPose(null);
+      ghostPhaseRef.current = null;
+      analyzerStateRef.current = analyzer.createState(profile.bodyCalibration, parseTempo(profile.prescribedTempo));
+      poseRecordingRef.current = createPoseRecording(backend.capabilities.landmarks, exerciseCatalogId ?? null, Date.now());
+      setWorkoutData({ duration: 0 });
     }
-  }, [isRecording, workoutData, category, exerciseNameFromRoute, exerciseId, returnToCurrentWorkout, navigation, addSetToExercise]);
+  }, [isRecording, workoutData, category, exerciseNameFromRoute, currentExercise, exerciseCatalogId, exerciseId, returnToCurrentWorkout, navigation, addSetToExercise, analyzer, backend, profile]);
 
   const handlePausePress = useCallback(() => {
     setIsPaused(!isPaused);
   }, [isPaused]);
 
   const handleCameraFlip = useCallback(() => {
-    switchCamera();
+    setCameraFacing(current => (current === 'front' ? 'back' : 'front'));
+  }, []);
+
+  // Cycle the prescribed tempo: off, then each preset
+  const handleTempoPress = useCallback(() => {
+    const index = profile.prescribedTempo ? TEMPO_PRESETS.indexOf(profile.prescribedTempo) : -1;
+    setPrescribedTempo(index + 1 < TEMPO_PRESETS.length ? TEMPO_PRESETS[index + 1] : null);
+  }, [profile.prescribedTempo, setPrescribedTempo]);
+
+  const handleUnilateralPress = useCallback(() => {
+    setUnilateral(current => !current);
   }, []);
 
   const handleInfoPress = useCallback(() => {
-    (navigation as any).push('WorkoutInfo');
+    navigation.push('WorkoutInfo');
   }, [navigation]);
 
-  // Memoize MediaPipe props – 3:4 portrait (taller than wide)
-  const mediapipeProps = useMemo(() => ({
-    width: cameraDisplayWidth,
-    height: cameraDisplayHeight,
-    face: true,
-    leftArm: true,
-    rightArm: true,
-    torso: true,
-    leftLeg: true,
-    rightLeg: true,
-    leftWrist: true,
-    rightWrist: true,
-    leftAnkle: true,
-    rightAnkle: true,
-  }), []);
-
   // Memoize display values to avoid recalculation
   const displayValues = useMemo(() => {
     const formDisplay = repCount > 0 && currentFormScore !== null
       ? Number(currentFormScore).toFixed(1)
       : '-';
+    // Bar speed of the last rep (mean / peak), velocity loss and reps in reserve
+    const lastRep = velocity?.reps[velocity.reps.length - 1] ?? null;
+    const repsInReserve = velocity?.estimatedRepsInReserve ?? null;
     const values = {
       reps: repCount > 0 ? repCount : '-',
       form: formDisplay,
+      speed: lastRep ? `${lastRep.meanVelocity.toFixed(2)}/${lastRep.peakVelocity.toFixed(2)}` : '-',
+      velocityLoss: velocity?.velocityLoss != null ? `${Math.round(velocity.velocityLoss)}%` : '-',
+      repsInReserve: repsInReserve === null ? '-' : `${repsInReserve}${repsInReserve >= MAX_REPS_IN_RESERVE ? '+' : ''}`,
+      // Time under tension so far and how closely the reps followed the prescribed tempo
+      timeUnderTension: tempo ? `${(tempo.timeUnderTensionMs / 1000).toFixed(1)}s` : '-',
+      tempoCompliance: tempo?.compliance != null ? `${Math.round(tempo.compliance)}%` : '-',
+      sideReps: sideReps ? `${sideReps.left}/${sideReps.right}` : '-',
       exerciseDisplayName: (exerciseNameFromRoute || currentExercise || 'NO EXERCISE DETECTED').toUpperCase(),
     };
     return values;
-  }, [repCount, currentFormScore, currentExercise, exerciseNameFromRoute]);
+  }, [repCount, currentFormScore, velocity, tempo, sideReps, currentExercise, exerciseNameFromRoute]);
 
   const showCamera = cameraMounted && !isClosing;
 
@@ -425,9 +319,13 @@ export const CameraScreen: React.FC = () => {
       ]}>
         <View style={[styles.cameraContainer, { width: cameraDisplayWidth, height: cameraDisplayHeight }]}>
           {showCamera && (
-            <RNMediapipe
-              {...mediapipeProps}
-              onLandmark={handleLandmark}
+            <backend.View
+              width={cameraDisplayWidth}
+              height={cameraDisplayHeight}
+              running={isRecording && !isPaused}
+              facing={cameraFacing}
+              onPose={handlePose}
+              annotations={overlayAnnotations}
             />
           )}
         </View>
@@ -444,6 +342,26 @@ export const CameraScreen: React.FC = () => {
             <Text style={styles.detectionExercise} numberOfLines={1}>
               {displayValues.exerciseDisplayName}
             </Text>
+            {analyzer.tracksTempo && (
+              <TouchableOpacity
+                style={[styles.topChip, isRecording && styles.topChipDisabled]}
+                onPress={handleTempoPress}
+                disabled={isRecording}
+              >
+                <Text style={styles.topChipText}>
+                  {profile.prescribedTempo ? `Tempo ${profile.prescribedTempo}` : 'Tempo off'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {hasUnilateralMode(exerciseCatalogId) && (
+              <TouchableOpacity
+                style={[styles.topChip, isRecording && styles.topChipDisabled]}
+                onPress={handleUnilateralPress}
+                disabled={isRecording}
+              >
+                <Text style={styles.topChipText}>{unilateral ? 'Each side' : 'Both sides'}</Text>
+              </TouchableOpacity>
+            )}
           </View>
           <TouchableOpacity style={styles.flipButton} onPress={handleCameraFlip}>
             <FlipHorizontal size={24} color={COLORS.text} />
@@ -451,16 +369,22 @@ export const CameraScreen: React.FC = () => {
         </View>
 
         {/* Feedback Display - Appears below exercise name */}
-        {feedback && (
+        {feedback ? (
           <View style={styles.feedbackContainer}>
             <View style={styles.feedbackCard}>
               <Text style={styles.feedbackText}>{feedback}</Text>
             </View>
           </View>
+        ) : placementHint && (
+          <View style={styles.feedbackContainer}>
+            <View style={[styles.feedbackCard, styles.placementCard]}>
+              <Text style={styles.feedbackText}>{placementHint}</Text>
+            </View>
+          </View>
         )}
 
-        {/* Debug Angles Display - Only show when recording Barbell Curl */}
-        {isRecording && exerciseNameFromRoute === 'Barbell Curl' && (
+        {/* Debug Angles Display - Only show when the analyzer reports joint angles */}
+        {isRecording && debugAngles && (
           <View style={styles.anglesDebugContainer}>
             <View style={styles.anglesDebugCard}>
               <Text style={styles.anglesDebugTitle}>Joint Angles (°)</Text>
@@ -531,6 +455,18 @@ export const CameraScreen: React.FC = () => {
                 {displayValues.reps}
               </MonoText>
             </View>
+            {sideReps && (
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>L/R</Text>
+                <MonoText style={styles.velocityValue}>{displayValues.sideReps}</MonoText>
+              </View>
+            )}
+            {partialRepCount > 0 && (
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>Partial</Text>
+                <MonoText style={styles.velocityValue}>{partialRepCount}</MonoText>
+              </View>
+            )}
             <View style={styles.metricItem}>
               <Text style={styles.metricLabel}>Form</Text>
               <MonoText style={styles.metricValue}>
@@ -538,6 +474,36 @@ export const CameraScreen: React.FC = () => {
               </MonoText>
             </View>
           </View>
+          {velocity && velocity.reps.length > 0 && (
+            <View style={styles.metricsContainer}>
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>m/s</Text>
+                <MonoText style={styles.velocityValue}>{displayValues.speed}</MonoText>
+              </View>
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>Loss</Text>
+                <MonoText style={styles.velocityValue}>{displayValues.velocityLoss}</MonoText>
+              </View>
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>RIR</Text>
+                <MonoText style={styles.velocityValue}>{displayValues.repsInReserve}</MonoText>
+              </View>
+            </View>
+          )}
+          {tempo && tempo.reps.length > 0 && (
+            <View style={styles.metricsContainer}>
+              <View style={styles.metricItem}>
+                <Text style={styles.metricLabel}>TUT</Text>
+                <MonoText style={styles.velocityValue}>{displayValues.timeUnderTension}</MonoText>
+              </View>
+              {tempo.prescription && (
+                <View style={styles.metricItem}>
+                  <Text style={styles.metricLabel}>Tempo</Text>
+                  <MonoText style={styles.velocityValue}>{displayValues.tempoCompliance}</MonoText>
+                </View>
+              )}
+            </View>
+          )}
 
           {/* Control Buttons */}
           <View style={styles.recordButtonContainer}>
@@ -616,6 +582,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: SPACING.screenHorizontal,
   },
+  topChip: {
+    marginTop: 4,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  topChipDisabled: {
+    opacity: 0.5,
+  },
+  topChipText: {
+    fontSize: 11,
+    fontFamily: FONTS.mono.bold,
+    color: COLORS.primary,
+  },
   flipButton: {
     width: 44,
     height: 44,
@@ -710,6 +691,11 @@ const styles = StyleSheet.create({
     color: COLORS.primary,
     minWidth: 30,
   },
+  velocityValue: {
+    fontSize: 14,
+    fontFamily: FONTS.mono.bold,
+    color: COLORS.text,
+  },
   recordButtonActive: {
     borderColor: COLORS.primary,
   },
@@ -737,6 +723,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  placementCard: {
+    backgroundColor: 'rgba(38, 38, 38, 0.95)',
+  },
   feedbackText: {
     fontSize: 14,
     fontFamily: FONTS.ui.bold,
@@ -14,8 +14,8 @@ import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ChevronLeft, Bookmark, HelpCircle, Search } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
-import { useCurrentWorkout } from '../contexts/CurrentWorkoutContext';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { useCurrentWorkout } from '@forma/core/contexts/CurrentWorkoutContext';
 
 // Category-based images so each card shows an image matching its exercise type
 const CATEGORY_IMAGES: Record<string, ImageSourcePropType> = {
@@ -57,6 +57,7 @@ const muscleGroups = [
 
 // Exercise data organized by muscle group
 interface Exercise {
+  id: string; // Catalog id, used to look up the exercise's analyzer
   name: string;
   muscleGroup: string;
   category: string;
@@ -65,61 +66,61 @@ interface Exercise {
 
 const allExercises: Exercise[] = [
   // Chest
-  { name: 'Barbell Bench Press', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Incline Dumbbell Press', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Dumbbell Chest Fly (flat or incline)', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Weighted Dips (chest-leaning)', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Cable Fly (mid–low or high–low)', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Push-Ups (standard / deficit / weighted)', muscleGroup: 'chest', category: 'Weightlifting' },
-  { name: 'Incline Barbell Bench Press', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'barbell-bench-press', name: 'Barbell Bench Press', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'incline-dumbbell-press', name: 'Incline Dumbbell Press', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'dumbbell-chest-fly', name: 'Dumbbell Chest Fly (flat or incline)', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'weighted-dips-chest', name: 'Weighted Dips (chest-leaning)', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'cable-fly', name: 'Cable Fly (mid–low or high–low)', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'push-ups', name: 'Push-Ups (standard / deficit / weighted)', muscleGroup: 'chest', category: 'Weightlifting' },
+  { id: 'incline-barbell-bench-press', name: 'Incline Barbell Bench Press', muscleGroup: 'chest', category: 'Weightlifting' },
   // Back
-  { name: 'Deadlift', muscleGroup: 'back', category: 'Weightlifting' },
-  { name: 'Pull-Ups / Weighted Pull-Ups', muscleGroup: 'back', category: 'Weightlifting' },
-  { name: 'Barbell Row', muscleGroup: 'back', category: 'Weightlifting' },
-  { name: 'Lat Pulldown', muscleGroup: 'back', category: 'Weightlifting' },
-  { name: 'Seated Cable Row', muscleGroup: 'back', category: 'Weightlifting' },
+  { id: 'deadlift', name: 'Deadlift', muscleGroup: 'back', category: 'Weightlifting' },
+  { id: 'pull-ups', name: 'Pull-Ups / Weighted Pull-Ups', muscleGroup: 'back', category: 'Weightlifting' },
+  { id: 'barbell-row', name: 'Barbell Row', muscleGroup: 'back', category: 'Weightlifting' },
+  { id: 'lat-pulldown', name: 'Lat Pulldown', muscleGroup: 'back', category: 'Weightlifting' },
+  { id: 'seated-cable-row', name: 'Seated Cable Row', muscleGroup: 'back', category: 'Weightlifting' },
   // Shoulders (Deltoids)
-  { name: 'Overhead Barbell Press', muscleGroup: 'shoulders', category: 'Weightlifting' },
-  { name: 'Dumbbell Shoulder Press', muscleGroup: 'shoulders', category: 'Weightlifting' },
-  { name: 'Lateral Raises', muscleGroup: 'shoulders', category: 'Weightlifting' },
-  { name: 'Rear Delt Fly (dumbbell or cable)', muscleGroup: 'shoulders', category: 'Weightlifting' },
+  { id: 'overhead-barbell-press', name: 'Overhead Barbell Press', muscleGroup: 'shoulders', category: 'Weightlifting' },
+  { id: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', muscleGroup: 'shoulders', category: 'Weightlifting' },
+  { id: 'lateral-raises', name: 'Lateral Raises', muscleGroup: 'shoulders', category: 'Weightlifting' },
+  { id: 'rear-delt-fly', name: 'Rear Delt Fly (dumbbell or cable)', muscleGroup: 'shoulders', category: 'Weightlifting' },
   // Biceps
-  { name: 'Barbell Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
-  { name: 'Incline Dumbbell Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
-  { name: 'Hammer Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
-  { name: 'Preacher Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
-  { name: 'Cable Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
+  { id: 'barbell-curl', name: 'Barbell Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
+  { id: 'incline-dumbbell-curl', name: 'Incline Dumbbell Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
+  { id: 'hammer-curl', name: 'Hammer Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
+  { id: 'preacher-curl', name: 'Preacher Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
+  { id: 'cable-curl', name: 'Cable Curl', muscleGroup: 'biceps', category: 'Weightlifting' },
   // Triceps
-  { name: 'Close-Grip Bench Press', muscleGroup: 'triceps', category: 'Weightlifting' },
-  { name: 'Skull Crushers (EZ-bar)', muscleGroup: 'triceps', category: 'Weightlifting' },
-  { name: 'Cable Pushdowns', muscleGroup: 'triceps', category: 'Weightlifting' },
-  { name: 'Overhead Triceps Extension', muscleGroup: 'triceps', category: 'Weightlifting' },
-  { name: 'Weighted Dips', muscleGroup: 'triceps', category: 'Weightlifting' },
-  { name: 'Diamond Push-Ups', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'close-grip-bench-press', name: 'Close-Grip Bench Press', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'skull-crushers', name: 'Skull Crushers (EZ-bar)', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'cable-pushdowns', name: 'Cable Pushdowns', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'overhead-triceps-extension', name: 'Overhead Triceps Extension', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'weighted-dips', name: 'Weighted Dips', muscleGroup: 'triceps', category: 'Weightlifting' },
+  { id: 'diamond-push-ups', name: 'Diamond Push-Ups', muscleGroup: 'triceps', category: 'Weightlifting' },
   // Legs (Quads, Hamstrings, Glutes)
-  { name: 'Back Squat', muscleGroup: 'legs', category: 'Weightlifting' },
-  { name: 'Romanian Deadlift', muscleGroup: 'legs', category: 'Weightlifting' },
-  { name: 'Leg Press', muscleGroup: 'legs', category: 'Weightlifting' },
-  { name: 'Walking Lunges', muscleGroup: 'legs', category: 'Weightlifting' },
-  { name: 'Leg Curl (machine)', muscleGroup: 'legs', category: 'Weightlifting' },
+  { id: 'back-squat', name: 'Back Squat', muscleGroup: 'legs', category: 'Weightlifting' },
+  { id: 'romanian-deadlift', name: 'Romanian Deadlift', muscleGroup: 'legs', category: 'Weightlifting' },
+  { id: 'leg-press', name: 'Leg Press', muscleGroup: 'legs', category: 'Weightlifting' },
+  { id: 'walking-lunges', name: 'Walking Lunges', muscleGroup: 'legs', category: 'Weightlifting' },
+  { id: 'leg-curl', name: 'Leg Curl (machine)', muscleGroup: 'legs', category: 'Weightlifting' },
   // Glutes
-  { name: 'Barbell Hip Thrust', muscleGroup: 'glutes', category: 'Weightlifting' },
-  { name: 'Bulgarian Split Squat', muscleGroup: 'glutes', category: 'Weightlifting' },
-  { name: 'Sumo Deadlift', muscleGroup: 'glutes', category: 'Weightlifting' },
-  { name: 'Cable Kickbacks', muscleGroup: 'glutes', category: 'Weightlifting' },
-  { name: 'Step-Ups', muscleGroup: 'glutes', category: 'Weightlifting' },
+  { id: 'barbell-hip-thrust', name: 'Barbell Hip Thrust', muscleGroup: 'glutes', category: 'Weightlifting' },
+  { id: 'bulgarian-split-squat', name: 'Bulgarian Split Squat', muscleGroup: 'glutes', category: 'Weightlifting' },
+  { id: 'sumo-deadlift', name: 'Sumo Deadlift', muscleGroup: 'glutes', category: 'Weightlifting' },
+  { id: 'cable-kickbacks', name: 'Cable Kickbacks', muscleGroup: 'glutes', category: 'Weightlifting' },
+  { id: 'step-ups', name: 'Step-Ups', muscleGroup: 'glutes', category: 'Weightlifting' },
   // Calves
-  { name: 'Standing Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
-  { name: 'Seated Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
-  { name: 'Donkey Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
-  { name: 'Single-Leg Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
-  { name: 'Leg Press Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
+  { id: 'standing-calf-raises', name: 'Standing Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
+  { id: 'seated-calf-raises', name: 'Seated Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
+  { id: 'donkey-calf-raises', name: 'Donkey Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
+  { id: 'single-leg-calf-raises', name: 'Single-Leg Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
+  { id: 'leg-press-calf-raises', name: 'Leg Press Calf Raises', muscleGroup: 'calves', category: 'Weightlifting' },
   // Core (Abs & Obliques)
-  { name: 'Hanging Leg Raises', muscleGroup: 'core', category: 'Weightlifting' },
-  { name: 'Cable Crunches', muscleGroup: 'core', category: 'Weightlifting' },
-  { name: 'Ab Wheel Rollouts', muscleGroup: 'core', category: 'Weightlifting' },
-  { name: 'Russian Twists (weighted)', muscleGroup: 'core', category: 'Weightlifting' },
-  { name: 'Planks (weighted)', muscleGroup: 'core', category: 'Weightlifting' },
+  { id: 'hanging-leg-raises', name: 'Hanging Leg Raises', muscleGroup: 'core', category: 'Weightlifting' },
+  { id: 'cable-crunches', name: 'Cable Crunches', muscleGroup: 'core', category: 'Weightlifting' },
+  { id: 'ab-wheel-rollouts', name: 'Ab Wheel Rollouts', muscleGroup: 'core', category: 'Weightlifting' },
+  { id: 'russian-twists', name: 'Russian Twists (weighted)', muscleGroup: 'core', category: 'Weightlifting' },
+  { id: 'planks', name: 'Planks (weighted)', muscleGroup: 'core', category: 'Weightlifting' },
 ];
 
 export const ChooseExerciseScreen: React.FC = () => {
@@ -133,7 +134,7 @@ export const ChooseExerciseScreen: React.FC = () => {
   const cardWidth = (screenWidth - SPACING.md * 2 - SPACING.md) / 2;
 
   const handleSelectExercise = (exercise: Exercise) => {
-    addExercise({ name: exercise.name, category: exercise.category });
+    addExercise({ catalogId: exercise.id, name: exercise.name, category: exercise.category });
     navigation.navigate('CurrentWorkout');
   };
 
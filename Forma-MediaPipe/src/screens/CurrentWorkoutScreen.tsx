@@ -11,9 +11,10 @@ import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navig
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Plus, ChevronLeft, Dumbbell, Pause, Play, Trash2, ChevronDown, ChevronUp } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
-import { MonoText } from '../components/typography/MonoText';
-import { useCurrentWorkout, LoggedSet } from '../contexts/CurrentWorkoutContext';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { MonoText } from '@forma/core/components/typography/MonoText';
+import { useCurrentWorkout, LoggedSet } from '@forma/core/contexts/CurrentWorkoutContext';
+import { getAverageVelocity } from '@forma/core/analysis/velocityMetrics';
 
 export type { LoggedSet };
 
@@ -21,7 +22,7 @@ type RecordStackParamList = {
   RecordLanding: undefined;
   CurrentWorkout: { newSet?: LoggedSet } | undefined;
   ChooseExercise: undefined;
-  Camera: { exerciseName: string; category: string; exerciseId?: string; returnToCurrentWorkout: true };
+  Camera: { exerciseName: string; category: string; exerciseCatalogId?: string; exerciseId?: string; returnToCurrentWorkout: true };
 };
 
 type CurrentWorkoutRouteProp = RouteProp<RecordStackParamList, 'CurrentWorkout'>;
@@ -127,9 +128,10 @@ export const CurrentWorkoutScreen: React.FC = () => {
     navigation.navigate('ChooseExercise');
   };
 
-  const handleAddSet = (exercise: { id: string; name: string; category: string }) => {
+  const handleAddSet = (exercise: { id: string; catalogId?: string; name: string; category: string }) => {
     navigation.navigate('Camera', {
       exerciseName: exercise.name,
+      exerciseCatalogId: exercise.catalogId,
       category: exercise.category,
       exerciseId: exercise.id,
       returnToCurrentWorkout: true,
@@ -278,6 +280,28 @@ export const CurrentWorkoutScreen: React.FC = () => {
                             <Text style={styles.metricLabel}>Reps</Text>
                             <MonoText style={styles.metricValue}>{set.reps}</MonoText>
                           </View>
+                          {set.unilateral && (
+                            <View style={styles.metricItem}>
+                              <Text style={styles.metricLabel}>L/R</Text>
+                              <MonoText style={styles.metricValue}>
+                                {set.unilateral.left.reps}/{set.unilateral.right.reps}
+                              </MonoText>
+                            </View>
+                          )}
+                          {set.unilateral?.weakerSide && (
+                            <View style={styles.metricItem}>
+                              <Text style={styles.metricLabel}>Weaker</Text>
+                              <MonoText style={styles.metricValue}>
+                                {set.unilateral.weakerSide === 'left' ? 'L' : 'R'}
+                              </MonoText>
+                            </View>
+                          )}
+                          {set.partialReps && set.partialReps.length > 0 && (
+                            <View style={styles.metricItem}>
+                              <Text style={styles.metricLabel}>Partial</Text>
+                              <MonoText style={styles.metricValue}>{set.partialReps.length}</MonoText>
+                            </View>
+                          )}
                           <View style={styles.metricItem}>
                             <Text style={styles.metricLabel}>Weight</Text>
                             <MonoText style={styles.metricValue}>
@@ -288,6 +312,22 @@ export const CurrentWorkoutScreen: React.FC = () => {
                             <Text style={styles.metricLabel}>Form</Text>
                             <MonoText style={styles.metricValue}>{set.formScore}</MonoText>
                           </View>
+                          {set.velocity && getAverageVelocity(set.velocity) !== null && (
+                            <View style={styles.metricItem}>
+                              <Text style={styles.metricLabel}>m/s</Text>
+                              <MonoText style={styles.metricValue}>
+                                {getAverageVelocity(set.velocity)!.toFixed(2)}
+                              </MonoText>
+                            </View>
+                          )}
+                          {set.tempo && set.tempo.reps.length > 0 && (
+                            <View style={styles.metricItem}>
+                              <Text style={styles.metricLabel}>TUT</Text>
+                              <MonoText style={styles.metricValue}>
+                                {Math.round(set.tempo.timeUnderTensionMs / 1000)}s
+                              </MonoText>
+                            </View>
+                          )}
                         </View>
                       </View>
                     ))}
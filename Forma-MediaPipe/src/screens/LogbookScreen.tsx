@@ -5,10 +5,10 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../app/RootNavigator';
 import { ChevronRight, Clock, Dumbbell, ChevronDown, Calendar, Target } from 'lucide-react-native';
-import { MonoText } from '../components/typography/MonoText';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
-import { getWorkouts, SavedWorkout } from '../services/workoutStorage';
-import { useScroll } from '../contexts/ScrollContext';
+import { MonoText } from '@forma/core/components/typography/MonoText';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { getWorkouts, SavedWorkout } from '@forma/core/services/workoutStorage';
+import { useScroll } from '@forma/core/contexts/ScrollContext';
 
 // Dropdown Pill Component
 const DropdownPill = ({ 
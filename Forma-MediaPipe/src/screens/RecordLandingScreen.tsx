@@ -4,10 +4,10 @@ import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LayoutTemplate, Plus, Timer, Trash2, Pause, Play, Flag } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
 import { AppHeader } from '../components/ui/AppHeader';
-import { useCurrentWorkout } from '../contexts/CurrentWorkoutContext';
-import { MonoText } from '../components/typography/MonoText';
+import { useCurrentWorkout } from '@forma/core/contexts/CurrentWorkoutContext';
+import { MonoText } from '@forma/core/components/typography/MonoText';
 
 const formatStopwatch = (totalSeconds: number) => {
   const h = Math.floor(totalSeconds / 3600);
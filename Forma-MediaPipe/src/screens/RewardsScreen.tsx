@@ -2,8 +2,8 @@ import React from 'react';
 import { View, StyleSheet, ScrollView, Text, TouchableOpacity } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Gift, Utensils, Dumbbell, ShoppingBag, Pill, Star, Lock } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
-import { useScroll } from '../contexts/ScrollContext';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { useScroll } from '@forma/core/contexts/ScrollContext';
 
 // Mock user stats (would come from analytics in real app)
 const userStats = {
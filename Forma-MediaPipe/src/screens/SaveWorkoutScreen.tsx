@@ -14,10 +14,10 @@ import { useNavigation, useRoute, RouteProp, CommonActions } from '@react-naviga
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { X } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
 import { RecordStackParamList } from '../app/RootNavigator';
-import { saveWorkout } from '../services/workoutStorage';
-import { useCurrentWorkout } from '../contexts/CurrentWorkoutContext';
+import { saveWorkout } from '@forma/core/services/workoutStorage';
+import { useCurrentWorkout } from '@forma/core/contexts/CurrentWorkoutContext';
 
 type SaveWorkoutRouteProp = RouteProp<RecordStackParamList, 'SaveWorkout'>;
 type SaveWorkoutNavigationProp = NativeStackNavigationProp<RecordStackParamList, 'SaveWorkout'>;
@@ -26,8 +26,15 @@ export const SaveWorkoutScreen: React.FC = () => {
   const navigation = useNavigation<SaveWorkoutNavigationProp>();
   const route = useRoute<SaveWorkoutRouteProp>();
   const insets = useSafeAreaInsets();
-  const { workoutData } = route.params;
-  const { clearSets, setWorkoutInProgress } = useCurrentWorkout();
+  const { workoutData, exercise } = route.params;
+  const { exercises, clearSets, setWorkoutInProgress } = useCurrentWorkout();
+
+  // A standalone camera set leaves the current workout, if any, untouched
+  const endCurrentWorkout = () => {
+    if (exercise) return;
+    clearSets();
+    setWorkoutInProgress(false);
+  };
 
   const [workoutName, setWorkoutName] = useState('');
   const [workoutDescription, setWorkoutDescription] = useState('');
@@ -46,10 +53,10 @@ export const SaveWorkoutScreen: React.FC = () => {
       totalSets: workoutData.totalSets,
       totalReps: workoutData.totalReps,
       formScore: workoutData.avgFormScore,
+      exercises: exercise ? [exercise] : exercises,
     });
 
-    clearSets();
-    setWorkoutInProgress(false);
+    endCurrentWorkout();
 
     // Navigate to Logbook tab to show the saved workout
     const rootNav = navigation.getParent()?.getParent();
@@ -88,8 +95,7 @@ export const SaveWorkoutScreen: React.FC = () => {
           text: 'Yes',
           style: 'destructive',
           onPress: () => {
-            clearSets();
-            setWorkoutInProgress(false);
+            endCurrentWorkout();
             navigation.reset({
               index: 0,
               routes: [{ name: 'RecordLanding' }],
@@ -1,8 +1,9 @@
 import React from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { ChevronLeft, User, Bell, Lock, HelpCircle, LogOut } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { ChevronLeft, User, Ruler, Bell, Lock, HelpCircle, LogOut } from 'lucide-react-native';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { PoseBackendPicker } from '@forma/core/components/ui/PoseBackendPicker';
 
 interface SettingsScreenProps {
   navigation: any;
@@ -37,10 +38,15 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
         <Text style={styles.sectionTitle}>Account</Text>
         <View style={styles.section}>
           <SettingItem icon={User} label="Profile" />
+          <SettingItem icon={Ruler} label="Body Calibration" onPress={() => navigation.navigate('Calibration')} />
           <SettingItem icon={Bell} label="Notifications" />
           <SettingItem icon={Lock} label="Privacy" />
         </View>
 
+        {/* Pose Detection Section */}
+        <Text style={styles.sectionTitle}>Pose Detection</Text>
+        <PoseBackendPicker />
+
         {/* Support Section */}
         <Text style={styles.sectionTitle}>Support</Text>
         <View style={styles.section}>
@@ -12,8 +12,8 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Send, Bot, TrendingUp, Target, AlertCircle, CheckCircle2 } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
-import { useScroll } from '../contexts/ScrollContext';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { useScroll } from '@forma/core/contexts/ScrollContext';
 
 // Mock workout data (same as LogbookScreen)
 interface WorkoutSession {
@@ -10,7 +10,7 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { CheckCircle2, Video, Lightbulb, Dumbbell, Activity, Move, Award, ChevronLeft } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
 import { RootStackParamList } from '../app/RootNavigator';
 
 type WorkoutExercisesRouteProp = RouteProp<RootStackParamList, 'WorkoutExercises'>;
@@ -9,7 +9,7 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { CheckCircle2, Video, Lightbulb, ChevronDown } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS, CARD_STYLE } from '../constants/theme';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
 import { RootStackParamList } from '../app/RootNavigator';
 
 type WorkoutInfoRouteProp = RouteProp<RootStackParamList, 'WorkoutInfo'>;
@@ -14,8 +14,11 @@ import {
   JetBrainsMono_400Regular,
   JetBrainsMono_700Bold,
 } from '@expo-google-fonts/jetbrains-mono';
-import { COLORS } from './src/constants/theme';
+import { COLORS } from '@forma/core/theme';
+import { PoseBackendProvider } from '@forma/core/contexts/PoseBackendContext';
 import { RootNavigator } from './src/app/RootNavigator';
+import { MoveNetModelProvider } from './src/contexts/MoveNetModelContext';
+import { POSE_BACKENDS } from './src/pose/poseBackends';
 
 export default function App() {
   const [fontsLoaded] = useFonts({
@@ -41,10 +44,14 @@ export default function App() {
   return (
     <SafeAreaProvider>
       <GestureHandlerRootView style={{ flex: 1 }}>
-        <NavigationContainer>
-          <RootNavigator />
-          <StatusBar style="light" />
-        </NavigationContainer>
+        <PoseBackendProvider backends={POSE_BACKENDS}>
+          <MoveNetModelProvider>
+            <NavigationContainer>
+              <RootNavigator />
+              <StatusBar style="light" />
+            </NavigationContainer>
+          </MoveNetModelProvider>
+        </PoseBackendProvider>
       </GestureHandlerRootView>
     </SafeAreaProvider>
   );
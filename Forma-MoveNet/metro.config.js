@@ -1,7 +1,17 @@
+const path = require('path');
 const { getDefaultConfig } = require('expo/metro-config');
 
+const coreRoot = path.resolve(__dirname, '../packages/core');
+
 const config = getDefaultConfig(__dirname);
 
+// Shared code lives in packages/core (@forma/core). Watch it, and resolve its
+// imports (react, react-native, expo-*) from this app's node_modules so both
+// apps bundle it against their own dependency versions.
+config.watchFolders = [coreRoot];
+config.resolver.nodeModulesPaths = [path.resolve(__dirname, 'node_modules')];
+config.resolver.extraNodeModules = { '@forma/core': coreRoot };
+
 // Ensure .tflite is treated as a bundled asset
 config.resolver.assetExts = Array.from(new Set([...(config.resolver.assetExts || []), 'tflite']));
 
@@ -17,8 +17,9 @@ import { WorkoutDetailsScreen } from '../screens/WorkoutDetailsScreen';
 import { WorkoutExercisesScreen } from '../screens/WorkoutExercisesScreen';
 import { SaveWorkoutScreen } from '../screens/SaveWorkoutScreen';
 import { WorkoutInfoScreen } from '../screens/WorkoutInfoScreen';
+import { ModelBenchmarkScreen } from '../screens/ModelBenchmarkScreen';
 import { AppHeader } from '../components/ui/AppHeader';
-import { COLORS, FONTS } from '../constants/theme';
+import { COLORS, FONTS } from '@forma/core/theme';
 
 export type CameraParams = { category?: string } | undefined;
 
@@ -33,6 +34,7 @@ export type RootStackParamList = {
   WorkoutExercises: { category: string; color: string; iconName: string };
   SaveWorkout: { workoutData: any };
   WorkoutInfo: undefined;
+  ModelBenchmark: undefined;
 };
 
 export type RootTabParamList = {
@@ -247,6 +249,14 @@ export const RootNavigator: React.FC = () => {
           animation: 'slide_from_bottom',
         }}
       />
+      <Stack.Screen 
+        name="ModelBenchmark" 
+        component={ModelBenchmarkScreen}
+        options={{
+          presentation: 'card',
+          animation: 'slide_from_right',
+        }}
+      />
     </Stack.Navigator>
   );
 };
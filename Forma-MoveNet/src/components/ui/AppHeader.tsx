@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
 import { Search, Bell, Settings } from 'lucide-react-native';
 import { useNavigation } from '@react-navigation/native';
-import { COLORS, SPACING, FONTS } from '../../constants/theme';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
 
 export const AppHeader: React.FC = () => {
   const navigation = useNavigation<any>();
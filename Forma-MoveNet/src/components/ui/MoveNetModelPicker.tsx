@@ -0,0 +1,74 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Check } from 'lucide-react-native';
+import { COLORS, FONTS, SPACING, CARD_STYLE } from '@forma/core/theme';
+import { useMoveNetModel } from '../../contexts/MoveNetModelContext';
+import { MOVENET_MODELS } from '../../pose/moveNetModels';
+import { recommendMoveNetModel } from '../../pose/moveNetBenchmark';
+
+/**
+ * Settings section for choosing the MoveNet model. Marks the model the last
+ * benchmark recommended for this device.
+ */
+export const MoveNetModelPicker: React.FC = () => {
+  const { model, selectModel, benchmarkResults } = useMoveNetModel();
+  const recommendedId = benchmarkResults ? recommendMoveNetModel(benchmarkResults) : null;
+
+  return (
+    <View style={styles.section}>
+      {MOVENET_MODELS.map((option) => (
+        <TouchableOpacity
+          key={option.id}
+          style={styles.option}
+          onPress={() => selectModel(option.id)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.optionText}>
+            <Text style={styles.optionLabel}>
+              {option.name}
+              {option.id === recommendedId ? <Text style={styles.recommended}>  Recommended</Text> : null}
+            </Text>
+            <Text style={styles.optionDetail} numberOfLines={1}>{option.description}</Text>
+          </View>
+          {option.id === model.id && <Check size={20} color={COLORS.primary} />}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    ...CARD_STYLE,
+    overflow: 'hidden',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.screenHorizontal,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.text,
+  },
+  recommended: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.primary,
+  },
+  optionDetail: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
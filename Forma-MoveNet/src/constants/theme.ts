@@ -1,57 +0,0 @@
-/**
- * Forma Mobile - Design System Tokens
- * Clean minimal fitness tracker with turquoise accents
- * Based on reference design
- */
-
-export const COLORS = {
-  // Backgrounds
-  background: '#030910', // App Background - Very Dark Blue-Black
-  cardBackground: '#252B33', // Card Background - Faded Gray
-  cardBackgroundLight: '#252B33', // Lighter card background
-
-  // Primary Actions
-  primary: '#10B981', // Green - Primary accent
-  primaryDark: '#059669', // Darker green for gradients
-  
-  // Secondary Colors
-  orange: '#E07856', // Orange for secondary workout cards
-  orangeDark: '#D86648',
-  yellow: '#F5A623', // Yellow/Gold for progress indicators
-
-  // Text
-  text: '#FFFFFF', // Pure White
-  textSecondary: '#8B92A0', // Muted Blue-Gray
-  textTertiary: '#5A6270', // Darker Gray
-  
-  // UI Elements
-  border: '#2A3340', // Subtle dark borders
-  inactive: '#4A5568', // Inactive elements
-  
-  // Chart colors
-  chartPrimary: '#10B981',
-  chartSecondary: '#3A4550',
-} as const;
-
-export const SPACING = {
-  xs: 4,
-  sm: 8,
-  md: 16,
-  lg: 20,
-  xl: 24,
-  xxl: 32,
-  xxxl: 48,
-} as const;
-
-export const FONTS = {
-  // UI Font - Inter (Sen alternative)
-  ui: {
-    regular: 'Inter_400Regular',
-    bold: 'Inter_700Bold',
-  },
-  // Numbers/HUD Font - JetBrains Mono
-  mono: {
-    regular: 'JetBrainsMono_400Regular',
-    bold: 'JetBrainsMono_700Bold',
-  },
-} as const;
@@ -0,0 +1,41 @@
+import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import { DEFAULT_MOVENET_MODEL_ID, MoveNetModel, MoveNetModelId, getMoveNetModel } from '../pose/moveNetModels';
+import { MoveNetBenchmarkResult } from '../pose/moveNetBenchmark';
+
+interface MoveNetModelContextValue {
+  model: MoveNetModel; // Model the MoveNet backend runs
+  selectModel: (id: MoveNetModelId) => void;
+  benchmarkResults: MoveNetBenchmarkResult[] | null; // Last benchmark run on this device (null = never run)
+  setBenchmarkResults: (results: MoveNetBenchmarkResult[]) => void;
+}
+
+const MoveNetModelContext = createContext<MoveNetModelContextValue | undefined>(undefined);
+
+/**
+ * Holds the MoveNet model picked in Settings, and the latest benchmark results.
+ */
+export const MoveNetModelProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [selectedId, setSelectedId] = useState<MoveNetModelId>(DEFAULT_MOVENET_MODEL_ID);
+  const [benchmarkResults, setBenchmarkResults] = useState<MoveNetBenchmarkResult[] | null>(null);
+
+  const value = useMemo(() => ({
+    model: getMoveNetModel(selectedId),
+    selectModel: setSelectedId,
+    benchmarkResults,
+    setBenchmarkResults,
+  }), [selectedId, benchmarkResults]);
+
+  return (
+    <MoveNetModelContext.Provider value={value}>
+      {children}
+    </MoveNetModelContext.Provider>
+  );
+};
+
+export const useMoveNetModel = (): MoveNetModelContextValue => {
+  const context = useContext(MoveNetModelContext);
+  if (!context) {
+    throw new Error('useMoveNetModel must be used within a MoveNetModelProvider');
+  }
+  return context;
+};
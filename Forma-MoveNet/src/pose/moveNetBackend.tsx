@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Linking, AppState } from 'react-native';
+import { Camera, CameraPermissionStatus, useCameraDevice, useFrameProcessor } from 'react-native-vision-camera';
+import { useIsFocused } from '@react-navigation/native';
+import { Worklets, useSharedValue } from 'react-native-worklets-core';
+import { useTensorflowModel } from 'react-native-fast-tflite';
+import { useResizePlugin } from 'vision-camera-resize-plugin';
+import { COLORS, FONTS, SPACING } from '@forma/core/theme';
+import { MOVENET_CAPABILITIES, MOVENET_LANDMARK_NAMES } from '@forma/core/analysis/skeleton';
+import { PoseBackend, PoseBackendViewProps } from '@forma/core/pose/poseBackend';
+import { PoseOverlay, PoseKeypoint as Keypoint } from '@forma/core/components/ui/PoseOverlay';
+import { useMoveNetModel } from '../contexts/MoveNetModelContext';
+import { MoveNetInput, readMoveNetInput, runMoveNet } from './moveNetInference';
+import { CropRegion, cropToSensorRect, determineCropRegion, toUprightCoordinates } from './moveNetCrop';
+
+const MoveNetView: React.FC<PoseBackendViewProps> = ({ width, height, running, facing, onPose, annotations }) => {
+  const { model: moveNetModel } = useMoveNetModel();
+  const device = useCameraDevice(facing);
+  const [cameraPermission, setCameraPermission] = useState<CameraPermissionStatus>('not-determined');
+  // Skeleton drawn over the preview, in preview pixels
+  const [overlayKeypoints, setOverlayKeypoints] = useState<Keypoint[] | null>(null);
+  
+  // Use refs to minimize re-renders and track frame timing
+  const prevKeypointsRef = useRef<Keypoint[] | null>(null);
+  const onPoseRef = useRef(onPose);
+
+  const isFocused = useIsFocused();
+  const isMountedRef = useRef(true);
+  const lastInferenceTime = useSharedValue(0);
+  const isCameraActiveSV = useSharedValue(false);
+  const isFrontCameraSV = useSharedValue(facing === 'front');
+  // Input contract of the loaded model; null until detected, frames are skipped meanwhile
+  const modelInputSV = useSharedValue<MoveNetInput | null>(null);
+  const inferenceIntervalSV = useSharedValue(moveNetModel.inferenceIntervalMs);
+  // Crop for the next frame, from the last frame's keypoints (null = whole frame)
+  const cropRegionSV = useSharedValue<CropRegion | null>(null);
+
+  const modelState = useTensorflowModel(moveNetModel.asset);
+  const model = modelState.state === 'loaded' ? modelState.model : undefined;
+  const { resize } = useResizePlugin();
+
+  useEffect(() => {
+    onPoseRef.current = onPose;
+  }, [onPose]);
+
+  // Detect actual model contract and adapt
+  useEffect(() => {
+    modelInputSV.value = model ? readMoveNetInput(model, moveNetModel.inputSize) : null;
+    inferenceIntervalSV.value = moveNetModel.inferenceIntervalMs;
+    cropRegionSV.value = null;
+    // Keypoints from the previous model would be smoothed into the new model's output
+    prevKeypointsRef.current = null;
+  }, [model, moveNetModel, modelInputSV, inferenceIntervalSV, cropRegionSV]);
+
+  const syncCameraPermission = useCallback(async () => {
+    const status = await Camera.getCameraPermissionStatus();
+    if (!isMountedRef.current) return;
+
+    if (status === 'not-determined') {
+      const newStatus = await Camera.requestCameraPermission();
+      if (!isMountedRef.current) return;
+      setCameraPermission(newStatus);
+      return;
+    }
+
+    setCameraPermission(status);
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    syncCameraPermission();
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [syncCameraPermission]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        syncCameraPermission(); // Re-check when returning to foreground.
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [syncCameraPermission]);
+
+  useEffect(() => {
+    if (isFocused) {
+      syncCameraPermission();
+    }
+  }, [isFocused, syncCameraPermission]);
+
+  const hasPermission = ['granted', 'authorized'].includes(
+    cameraPermission as string
+  );
+  const shouldCameraBeActive = isFocused && hasPermission && running;
+
+  // Start from the whole frame whenever the camera (re)starts or flips
+  useEffect(() => {
+    isCameraActiveSV.value = shouldCameraBeActive;
+    cropRegionSV.value = null;
+  }, [shouldCameraBeActive, isCameraActiveSV, cropRegionSV]);
+
+  useEffect(() => {
+    isFrontCameraSV.value = facing === 'front';
+    cropRegionSV.value = null;
+  }, [facing, isFrontCameraSV, cropRegionSV]);
+
+  // flatOutput is normalized to the upright camera frame (see moveNetCrop.ts)
+  const onPoseOutputFromWorklet = useCallback((flatOutput: number[], isFrontCamera: boolean) => {
+    if (width === 0 || height === 0) return;
+
+    // Extract keypoints in preview pixels
+    const keypoints: Keypoint[] = new Array(MOVENET_LANDMARK_NAMES.length);
+    let totalScore = 0;
+    
+    for (let i = 0; i < MOVENET_LANDMARK_NAMES.length; i++) {
+      const score = flatOutput[i * 3 + 2];
+      totalScore += score;
+      
+      keypoints[i] = {
+        name: MOVENET_LANDMARK_NAMES[i],
+        x: flatOutput[i * 3 + 1] * width,
+        y: flatOutput[i * 3] * height,
+        score,
+      };
+    }
+
+    // STABILITY: Higher confidence threshold reduces flickering
+    const confidenceThreshold = isFrontCamera ? 0.18 : 0.22;
+    if (totalScore / MOVENET_LANDMARK_NAMES.length < confidenceThreshold) {
+      prevKeypointsRef.current = null;
+      // LATENCY: Update state immediately (no delays)
+      setOverlayKeypoints(null);
+      return;
+    }
+
+    // STABILITY: Enhanced smoothing for rock-solid skeleton
+    // Aggressive smoothing reduces jitter dramatically
+    const prev = prevKeypointsRef.current;
+    if (prev && prev.length === keypoints.length) {
+      for (let i = 0; i < keypoints.length; i++) {
+        const current = keypoints[i];
+        const previous = prev[i];
+        const dx = current.x - previous.x;
+        const dy = current.y - previous.y;
+        const distSq = dx * dx + dy * dy;
+        
+        // STABILITY: Confidence-based smoothing - more aggressive
+        const confidence = current.score;
+        
+        if (distSq < 9) {
+          // Small movements (< 3px) - heavy smoothing to eliminate jitter
+          // High confidence (>0.7): moderate smoothing
+          // Medium confidence (0.4-0.7): heavy smoothing
+          // Low confidence (<0.4): very heavy smoothing
+          let smoothFactor;
+          if (confidence > 0.7) {
+            smoothFactor = 0.30; // 70% current - more stable than before
+          } else if (confidence > 0.4) {
+            smoothFactor = 0.50; // 50% current - balanced
+          } else {
+            smoothFactor = 0.65; // 35% current - very stable
+          }
+          
+          current.x = previous.x * smoothFactor + current.x * (1 - smoothFactor);
+          current.y = previous.y * smoothFactor + current.y * (1 - smoothFactor);
+        }
+        else if (distSq < 36) {
+          // Medium movements (3-6px) - light smoothing for stability
+          current.x = previous.x * 0.25 + current.x * 0.75;
+          current.y = previous.y * 0.25 + current.y * 0.75;
+        }
+        else if (distSq < 100) {
+          // Larger movements (6-10px) - minimal smoothing
+          current.x = previous.x * 0.10 + current.x * 0.90;
+          current.y = previous.y * 0.10 + current.y * 0.90;
+        }
+        // Very large movements (>10px) - zero smoothing for instant tracking
+      }
+    }
+
+    prevKeypointsRef.current = keypoints;
+    
+    // LATENCY: Update state IMMEDIATELY - no throttle, no rAF
+    // Direct state update for fastest response
+    setOverlayKeypoints(keypoints);
+
+    // Analyzers get normalized image coordinates, like MediaPipe image landmarks. The model sees
+    // the unmirrored sensor image, so sides already follow the convention in skeleton.ts; only the
+    // overlay is mirrored for the front camera.
+    const normalized = keypoints.map(kp => ({ ...kp, x: kp.x / width, y: kp.y / height }));
+    onPoseRef.current({
+      skeleton: { keypoints: normalized, source: 'image', capabilities: MOVENET_CAPABILITIES },
+      timestamp: Date.now(),
+      cameraFacing: isFrontCamera ? 'front' : 'back',
+    });
+  }, [width, height]);
+
+  const sendPoseOutputToJS = useMemo(
+    () => Worklets.createRunOnJS(onPoseOutputFromWorklet),
+    [onPoseOutputFromWorklet]
+  );
+
+  const frameProcessor = useFrameProcessor(
+    (frame) => {
+      'worklet';
+      if (!isCameraActiveSV.value) return;
+
+      const timestamp = frame.timestamp;
+      const timestampMs =
+        timestamp > 1e12 ? timestamp / 1e6 : timestamp > 1e9 ? timestamp / 1e3 : timestamp * 1000;
+      // Throttle to the model's rate (Thunder ~24 FPS, Lightning ~30 FPS) so frames don't back up
+      if (timestampMs - lastInferenceTime.value < inferenceIntervalSV.value) return;
+      lastInferenceTime.value = timestampMs;
+
+      if (model == null) return;
+
+      // Wait for model metadata to be detected before processing frames
+      const input = modelInputSV.value;
+      if (input == null) return;
+
+      const isFrontCamera = isFrontCameraSV.value;
+      const crop = cropRegionSV.value;
+      const sensorCrop = crop ? cropToSensorRect(crop, frame.width, frame.height, isFrontCamera) : undefined;
+      const flat = runMoveNet(frame, model, resize, input, isFrontCamera, sensorCrop);
+      if (flat == null) {
+        cropRegionSV.value = null;
+        return;
+      }
+
+      // After the 90deg/270deg rotation the frame's width and height are swapped
+      const uprightWidth = frame.height;
+      const uprightHeight = frame.width;
+      toUprightCoordinates(flat, crop, uprightWidth, uprightHeight);
+      cropRegionSV.value = determineCropRegion(flat, uprightWidth, uprightHeight);
+
+      sendPoseOutputToJS(flat, isFrontCamera);
+    },
+    [model, resize, sendPoseOutputToJS, isFrontCameraSV, cropRegionSV]
+  );
+
+  if (cameraPermission === 'not-determined') {
+    return (
+      <View style={[styles.container, { width, height }]}>
+        <Text style={styles.statusText}>Requesting camera permission...</Text>
+      </View>
+    );
+  }
+
+  if (!hasPermission) {
+    return (
+      <View style={[styles.container, { width, height }]}>
+        <Text style={styles.statusTitle}>Camera Access Required</Text>
+        <Text style={styles.statusText}>
+          Camera permission is disabled. Enable it in Android system settings to record workouts.
+        </Text>
+        <TouchableOpacity
+          style={styles.permissionButton}
+          onPress={async () => {
+            await Camera.requestCameraPermission();
+            await syncCameraPermission();
+          }}
+        >
+          <Text style={styles.permissionButtonText}>Try Again</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingsButton}
+          onPress={() => Linking.openSettings()}
+        >
+          <Text style={styles.settingsButtonText}>Open Settings</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  // Show loading indicator while model is loading
+  if (modelState.state === 'loading') {
+    return (
+      <View style={[styles.container, { width, height }]}>
+        <Text style={styles.statusText}>Loading pose detection model...</Text>
+      </View>
+    );
+  }
+
+  // Show error if model failed to load
+  if (modelState.state === 'error') {
+    return (
+      <View style={[styles.container, { width, height }]}>
+        <Text style={styles.statusTitle}>Model Loading Failed</Text>
+        <Text style={styles.statusText}>
+          Failed to load pose detection model. Please restart the app.
+        </Text>
+      </View>
+    );
+  }
+
+  if (!device) {
+    return (
+      <View style={[styles.container, { width, height }]}>
+        <Text style={styles.statusText}>Loading camera...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ width, height }}>
+      <Camera
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive={shouldCameraBeActive}
+        frameProcessor={shouldCameraBeActive && model ? frameProcessor : undefined}
+        // @ts-ignore - frameProcessorFps available at runtime
+        frameProcessorFps={30}
+        pixelFormat="yuv"
+        photo={false}
+        video={false}
+        androidPreviewViewType="texture-view"
+        // Lower resolution for faster processing
+        // @ts-ignore
+        videoStabilizationMode="off"
+        // @ts-ignore - exposure optimization
+        exposure={0}
+      />
+      <PoseOverlay
+        keypoints={overlayKeypoints}
+        width={width}
+        height={height}
+        mirror={facing === 'front'}
+        minScore={facing === 'front' ? 0.12 : 0.18}
+        {...annotations}
+      />
+    </View>
+  );
+};
+
+export const moveNetBackend: PoseBackend = {
+  id: 'movenet',
+  name: 'MoveNet',
+  description: '17 landmarks, 2D only',
+  capabilities: MOVENET_CAPABILITIES,
+  View: MoveNetView,
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.xl,
+  },
+  statusTitle: {
+    fontSize: 24,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.text,
+    marginBottom: SPACING.md,
+    textAlign: 'center',
+  },
+  statusText: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.xl,
+  },
+  permissionButton: {
+    backgroundColor: COLORS.primary,
+    paddingHorizontal: SPACING.xl,
+    paddingVertical: SPACING.md,
+    borderRadius: 16,
+    marginBottom: SPACING.md,
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.background,
+  },
+  settingsButton: {
+    paddingHorizontal: SPACING.xl,
+    paddingVertical: SPACING.md,
+  },
+  settingsButtonText: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+  },
+});
@@ -0,0 +1,78 @@
+/**
+ * Benchmark statistics for MoveNet models. ModelBenchmarkScreen runs each
+ * model on the live camera and collects one sample per inferred frame.
+ */
+
+import { MoveNetModelId } from './moveNetModels';
+
+export type MoveNetBenchmarkSample = {
+  inferenceMs: number; // Resize + runSync time for one frame
+  meanScore: number; // Mean keypoint confidence over the 17 keypoints
+};
+
+export type MoveNetBenchmarkResult = {
+  modelId: MoveNetModelId;
+  frames: number; // Frames inferred during the measurement window
+  meanInferenceMs: number;
+  p95InferenceMs: number;
+  fps: number; // Achieved inference rate
+  meanConfidence: number;
+  error: string | null; // Why the model produced no frames, when it couldn't be run
+};
+
+// Below this rate rep detection starts missing the bottom of fast reps
+export const MIN_RECOMMENDED_FPS = 20;
+
+export function summarizeBenchmark(
+  modelId: MoveNetModelId,
+  samples: MoveNetBenchmarkSample[],
+  durationMs: number
+): MoveNetBenchmarkResult {
+  if (samples.length === 0 || durationMs <= 0) {
+    return failedBenchmark(modelId, 'No frames were inferred');
+  }
+
+  const latencies = samples.map(sample => sample.inferenceMs).sort((a, b) => a - b);
+  const p95Index = Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95));
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    modelId,
+    frames: samples.length,
+    meanInferenceMs: sum(latencies) / latencies.length,
+    p95InferenceMs: latencies[p95Index],
+    fps: (samples.length * 1000) / durationMs,
+    meanConfidence: sum(samples.map(sample => sample.meanScore)) / samples.length,
+    error: null,
+  };
+}
+
+/** Result for a model that couldn't be benchmarked, shown with the reason in its result row */
+export function failedBenchmark(modelId: MoveNetModelId, error: string): MoveNetBenchmarkResult {
+  return { modelId, frames: 0, meanInferenceMs: 0, p95InferenceMs: 0, fps: 0, meanConfidence: 0, error };
+}
+
+/**
+ * Most confident model that keeps up with MIN_RECOMMENDED_FPS; if none does,
+ * the fastest one. Returns null when no model produced any frames.
+ */
+export function recommendMoveNetModel(
+  results: MoveNetBenchmarkResult[],
+  minFps = MIN_RECOMMENDED_FPS
+): MoveNetModelId | null {
+  const measured = results.filter(result => result.frames > 0);
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const fastEnough = measured.filter(result => result.fps >= minFps);
+  if (fastEnough.length > 0) {
+    const best = fastEnough.reduce((a, b) =>
+      b.meanConfidence > a.meanConfidence ||
+      (b.meanConfidence === a.meanConfidence && b.meanInferenceMs < a.meanInferenceMs) ? b : a
+    );
+    return best.modelId;
+  }
+
+  return measured.reduce((a, b) => (b.fps > a.fps ? b : a)).modelId;
+}
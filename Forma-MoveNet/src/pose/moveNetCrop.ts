@@ -0,0 +1,150 @@
+/**
+ * MoveNet crop-region tracking, after the cropping algorithm in the MoveNet
+ * tutorial: the previous frame's keypoints pick a square around the body for
+ * the next frame, so a distant athlete fills more of the model input.
+ *
+ * Coordinates are in the upright frame (after the 90°/270° rotation the model
+ * sees), which is frame.height wide and frame.width tall. All functions are
+ * worklets and run in the frame processor.
+ */
+
+/** Square crop of the upright frame, in pixels. null means the whole frame. */
+export type CropRegion = {
+  x: number;
+  y: number;
+  size: number;
+};
+
+/** Crop rectangle in the sensor-oriented frame, as the resize plugin expects */
+export type SensorRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Keypoints below this score don't steer the crop (MoveNet tutorial value)
+const MIN_CROP_KEYPOINT_SCORE = 0.2;
+// Margins around the torso and the whole body (MoveNet tutorial values)
+const TORSO_EXPANSION = 1.9;
+const BODY_EXPANSION = 1.2;
+// Smaller crops come from bad detections, not from distant athletes
+const MIN_CROP_FRACTION = 0.2;
+
+// Indices into MOVENET_LANDMARK_NAMES
+const LEFT_SHOULDER = 5;
+const RIGHT_SHOULDER = 6;
+const LEFT_HIP = 11;
+const RIGHT_HIP = 12;
+const TORSO = [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP];
+
+/**
+ * Map a crop of the upright frame back to the sensor-oriented frame. The resize
+ * plugin crops before it rotates: 90deg (back camera) and 270deg (front camera).
+ */
+export function cropToSensorRect(
+  crop: CropRegion,
+  frameWidth: number,
+  frameHeight: number,
+  isFrontCamera: boolean
+): SensorRect {
+  'worklet';
+  const size = Math.round(crop.size);
+  if (isFrontCamera) {
+    return { x: Math.round(frameWidth - crop.y - crop.size), y: Math.round(crop.x), width: size, height: size };
+  }
+  return { x: Math.round(crop.y), y: Math.round(frameHeight - crop.x - crop.size), width: size, height: size };
+}
+
+/**
+ * Convert the flat MoveNet output ([y, x, score] * 17, relative to the model
+ * input) to coordinates normalized to the upright frame, in place.
+ */
+export function toUprightCoordinates(
+  flat: number[],
+  crop: CropRegion | null,
+  uprightWidth: number,
+  uprightHeight: number
+): void {
+  'worklet';
+  if (crop) {
+    for (let i = 0; i < flat.length; i += 3) {
+      flat[i] = (crop.y + flat[i] * crop.size) / uprightHeight;
+      flat[i + 1] = (crop.x + flat[i + 1] * crop.size) / uprightWidth;
+    }
+    return;
+  }
+
+  // Whole frame: undo the letterbox of the non-square frame in the square input
+  const frameAspectRatio = uprightWidth / uprightHeight;
+  let contentScaleX = 1.0;
+  let contentScaleY = 1.0;
+  let contentOffsetX = 0.0;
+  let contentOffsetY = 0.0;
+
+  if (frameAspectRatio > 1.0) {
+    contentScaleY = frameAspectRatio;
+    contentOffsetY = (contentScaleY - 1.0) / 2.0;
+  } else if (frameAspectRatio < 1.0) {
+    contentScaleX = 1.0 / frameAspectRatio;
+    contentOffsetX = (contentScaleX - 1.0) / 2.0;
+  }
+
+  for (let i = 0; i < flat.length; i += 3) {
+    flat[i] = flat[i] * contentScaleY - contentOffsetY;
+    flat[i + 1] = flat[i + 1] * contentScaleX - contentOffsetX;
+  }
+}
+
+/**
+ * Crop for the next frame from this frame's keypoints (normalized to the
+ * upright frame). Returns null, i.e. the whole frame, when the torso isn't
+ * visible or the body already needs most of the frame.
+ */
+export function determineCropRegion(
+  flat: number[],
+  uprightWidth: number,
+  uprightHeight: number
+): CropRegion | null {
+  'worklet';
+  const score = (index: number) => flat[index * 3 + 2];
+  const px = (index: number) => flat[index * 3 + 1] * uprightWidth;
+  const py = (index: number) => flat[index * 3] * uprightHeight;
+
+  const shoulderVisible =
+    score(LEFT_SHOULDER) > MIN_CROP_KEYPOINT_SCORE || score(RIGHT_SHOULDER) > MIN_CROP_KEYPOINT_SCORE;
+  const hipVisible = score(LEFT_HIP) > MIN_CROP_KEYPOINT_SCORE || score(RIGHT_HIP) > MIN_CROP_KEYPOINT_SCORE;
+  if (!shoulderVisible || !hipVisible) {
+    return null; // Tracking lost
+  }
+
+  // Centre on the mid-hip, like the tutorial
+  const centerX = (px(LEFT_HIP) + px(RIGHT_HIP)) / 2;
+  const centerY = (py(LEFT_HIP) + py(RIGHT_HIP)) / 2;
+
+  let maxTorsoRange = 0;
+  for (let t = 0; t < TORSO.length; t++) {
+    maxTorsoRange = Math.max(maxTorsoRange, Math.abs(centerX - px(TORSO[t])), Math.abs(centerY - py(TORSO[t])));
+  }
+
+  let maxBodyRange = 0;
+  const keypointCount = flat.length / 3;
+  for (let i = 0; i < keypointCount; i++) {
+    if (score(i) < MIN_CROP_KEYPOINT_SCORE) continue;
+    maxBodyRange = Math.max(maxBodyRange, Math.abs(centerX - px(i)), Math.abs(centerY - py(i)));
+  }
+
+  const size = 2 * Math.max(maxTorsoRange * TORSO_EXPANSION, maxBodyRange * BODY_EXPANSION);
+  const shortSide = Math.min(uprightWidth, uprightHeight);
+
+  // The plugin can't pad past the frame edge, so a crop must fit inside it
+  if (size >= shortSide) {
+    return null;
+  }
+  const cropSize = Math.max(size, shortSide * MIN_CROP_FRACTION);
+
+  // Shift (rather than shrink) the square to keep it inside the frame
+  const x = Math.min(Math.max(centerX - cropSize / 2, 0), uprightWidth - cropSize);
+  const y = Math.min(Math.max(centerY - cropSize / 2, 0), uprightHeight - cropSize);
+  return { x, y, size: cropSize };
+}
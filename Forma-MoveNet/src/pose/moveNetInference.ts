@@ -0,0 +1,124 @@
+/**
+ * MoveNet inference helpers shared by the camera backend and the model
+ * benchmark. runMoveNet is a worklet and runs inside the frame processor.
+ */
+
+import type { Frame } from 'react-native-vision-camera';
+import type { TensorflowModel } from 'react-native-fast-tflite';
+import type { useResizePlugin } from 'vision-camera-resize-plugin';
+import type { SensorRect } from './moveNetCrop';
+
+export type MoveNetInputType = 'uint8' | 'float32';
+
+/** Input contract of a loaded model */
+export type MoveNetInput = {
+  size: number; // Square input size in pixels
+  type: MoveNetInputType;
+};
+
+type ResizeFunction = ReturnType<typeof useResizePlugin>['resize'];
+
+const OUTPUT_LENGTH = 51; // 17 keypoints * [y, x, score]
+
+/**
+ * Detect actual model contract from its input tensor ([1, H, W, 3], uint8 or float).
+ * Returns null when the input type can't be determined.
+ */
+export function readMoveNetInput(model: TensorflowModel, fallbackSize: number): MoveNetInput | null {
+  const input = model.inputs?.[0] as any;
+  const shape = input?.shape ? JSON.stringify(input.shape) : 'unknown';
+  const dtypeRaw = input?.dataType ?? input?.dtype ?? input?.type ?? 'unknown';
+  const dtype = (typeof dtypeRaw === 'string' ? dtypeRaw : String(dtypeRaw)).toLowerCase();
+
+  // Extract model size from shape [1, H, W, 3]
+  let size = fallbackSize;
+  const shapeMatch = shape.match(/\[1,(\d+),(\d+),3\]/);
+  if (shapeMatch) {
+    const h = parseInt(shapeMatch[1], 10);
+    const w = parseInt(shapeMatch[2], 10);
+    if (h === w && (h === 192 || h === 256)) {
+      size = h;
+    }
+  }
+
+  if (dtype.includes('uint8')) {
+    return { size, type: 'uint8' };
+  }
+  if (dtype.includes('float')) {
+    return { size, type: 'float32' };
+  }
+  return null;
+}
+
+/**
+ * Run one frame through MoveNet, optionally cropped first (see moveNetCrop.ts).
+ * Returns the flat [y, x, score] * 17 output (coordinates normalized to the
+ * model input), or null if the frame was skipped.
+ */
+export function runMoveNet(
+  frame: Frame,
+  model: TensorflowModel,
+  resize: ResizeFunction,
+  input: MoveNetInput,
+  isFrontCamera: boolean,
+  crop?: SensorRect
+): number[] | null {
+  'worklet';
+  // Use resize plugin to convert YUV to RGB, resize, AND rotate in one optimized step
+  // This properly handles the YUV->RGB conversion that Android cameras require
+  // AND rotates 90° CW for portrait mode (much faster than manual rotation)
+  // Quantized models expect uint8 RGB, float models float32 RGB normalized to [0,1]
+  let inputTensor: Uint8Array | Float32Array;
+  try {
+    inputTensor = resize(frame, {
+      crop,
+      scale: {
+        width: input.size,
+        height: input.size,
+      },
+      pixelFormat: 'rgb',
+      dataType: input.type,
+      // Front camera needs 270deg rotation (or -90deg), back camera needs 90deg
+      // This ensures the model receives properly oriented frames for accurate detection
+      rotation: isFrontCamera ? '270deg' : '90deg',
+    });
+  } catch (e) {
+    // Silently fail and skip this frame
+    return null;
+  }
+
+  // Run inference with typed array input
+  let rawOut: any;
+  try {
+    rawOut = model.runSync([inputTensor])[0];
+  } catch (e) {
+    // Model inference failed - skip this frame
+    console.warn('Model inference error:', e);
+    return null;
+  }
+
+  // Most common case: flat output with correct length
+  if (rawOut && rawOut.length === OUTPUT_LENGTH) {
+    const flat: number[] = new Array(OUTPUT_LENGTH);
+    for (let i = 0; i < OUTPUT_LENGTH; i++) {
+      flat[i] = rawOut[i];
+    }
+    return flat;
+  }
+
+  // Handle nested array (rare case)
+  if (Array.isArray(rawOut)) {
+    const flat: number[] = [];
+    const flatten = (arr: any) => {
+      for (let i = 0; i < arr.length; i++) {
+        if (Array.isArray(arr[i])) flatten(arr[i]);
+        else if (typeof arr[i] === 'number') flat.push(arr[i]);
+      }
+    };
+    flatten(rawOut);
+    if (flat.length === OUTPUT_LENGTH) {
+      return flat;
+    }
+  }
+  return null;
+}
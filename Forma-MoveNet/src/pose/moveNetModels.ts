@@ -0,0 +1,61 @@
+/**
+ * MoveNet model variants the app can run. The .tflite files live in
+ * assets/models (see MODEL_SELECTION_GUIDE.md for where to get them).
+ */
+
+export type MoveNetModelId =
+  | 'lightning-quantized'
+  | 'lightning-float32'
+  | 'thunder-quantized'
+  | 'thunder-float16';
+
+export type MoveNetModel = {
+  id: MoveNetModelId;
+  name: string;
+  description: string;
+  inputSize: 192 | 256; // Square input, in pixels
+  asset: number; // require()d .tflite file
+  inferenceIntervalMs: number; // Minimum gap between inferences, so frames don't back up
+};
+
+export const MOVENET_MODELS: MoveNetModel[] = [
+  {
+    id: 'lightning-quantized',
+    name: 'Lightning Quantized',
+    description: '192×192 uint8 (~10-15ms, lowest latency, good accuracy)',
+    inputSize: 192,
+    asset: require('../../assets/models/movenet_lightning_quantized.tflite'),
+    inferenceIntervalMs: 33, // ~30 FPS
+  },
+  {
+    id: 'lightning-float32',
+    name: 'Lightning Float32',
+    description: '192×192 float32 (~25-30ms, balanced)',
+    inputSize: 192,
+    asset: require('../../assets/models/movenet_lightning_float32.tflite'),
+    inferenceIntervalMs: 33,
+  },
+  {
+    id: 'thunder-quantized',
+    name: 'Thunder Quantized',
+    description: '256×256 uint8 (~15-20ms, high accuracy, fast)',
+    inputSize: 256,
+    asset: require('../../assets/models/movenet_thunder_quantized.tflite'),
+    inferenceIntervalMs: 42, // ~24 FPS
+  },
+  {
+    id: 'thunder-float16',
+    name: 'Thunder Float16',
+    description: '256×256 FP16 (~20-30ms, highest accuracy)',
+    inputSize: 256,
+    asset: require('../../assets/models/movenet_thunder_float16.tflite'),
+    inferenceIntervalMs: 42,
+  },
+];
+
+// Thunder Float16: highest accuracy with balanced performance, ideal for precise form analysis
+export const DEFAULT_MOVENET_MODEL_ID: MoveNetModelId = 'thunder-float16';
+
+export function getMoveNetModel(id: MoveNetModelId): MoveNetModel {
+  return MOVENET_MODELS.find(model => model.id === id) ?? MOVENET_MODELS[0];
+}
@@ -0,0 +1,7 @@
+import { PoseBackend } from '@forma/core/pose/poseBackend';
+import { replayPoseBackend } from '@forma/core/pose/replayPoseBackend';
+import { moveNetBackend } from './moveNetBackend';
+
+// Pose backends selectable in Settings; the first is the default.
+// MediaPipe runs in the Forma-MediaPipe app.
+export const POSE_BACKENDS: PoseBackend[] = [moveNetBackend, replayPoseBackend];
@@ -2,8 +2,8 @@ import React from 'react';
 import { View, StyleSheet, ScrollView, Text, TouchableOpacity, Dimensions, Modal } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Activity, Flame, Droplet, Dumbbell, Target, Zap, TrendingUp, ChevronRight, ArrowUp, ArrowDown, ChevronDown } from 'lucide-react-native';
-import { MonoText } from '../components/typography/MonoText';
-import { COLORS, SPACING, FONTS } from '../constants/theme';
+import { MonoText } from '@forma/core/components/typography/MonoText';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
 import Svg, { Circle, Path, Defs, LinearGradient, Stop } from 'react-native-svg';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -5,9 +5,9 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../app/RootNavigator';
 import { ChevronRight, Clock, Dumbbell, Zap, ChevronDown, Calendar, Target } from 'lucide-react-native';
-import { MonoText } from '../components/typography/MonoText';
-import { COLORS, SPACING, FONTS } from '../constants/theme';
-import { getWorkouts, SavedWorkout } from '../services/workoutStorage';
+import { MonoText } from '@forma/core/components/typography/MonoText';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
+import { getWorkouts, SavedWorkout } from '@forma/core/services/workoutStorage';
 
 // Dropdown Pill Component
 const DropdownPill = ({ 
@@ -398,7 +398,7 @@ export const LogbookScreen: React.FC = () => {
       totalSets: workout.totalSets,
       totalReps: workout.totalReps,
       formScore: workout.formScore,
-      effortScore: workout.effortScore,
+      effortScore: workout.effortScore ?? 0,
       category: workout.category,
     }));
     
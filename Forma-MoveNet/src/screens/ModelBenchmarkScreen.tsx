@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Camera, useCameraDevice, useCameraPermission, useFrameProcessor } from 'react-native-vision-camera';
+import { useIsFocused } from '@react-navigation/native';
+import { Worklets } from 'react-native-worklets-core';
+import { TensorflowModel, loadTensorflowModel } from 'react-native-fast-tflite';
+import { useResizePlugin } from 'vision-camera-resize-plugin';
+import { ChevronLeft, Check } from 'lucide-react-native';
+import { COLORS, SPACING, FONTS, CARD_STYLE } from '@forma/core/theme';
+import { NeonButton } from '@forma/core/components/ui/NeonButton';
+import { useMoveNetModel } from '../contexts/MoveNetModelContext';
+import { MOVENET_MODELS, MoveNetModelId, getMoveNetModel } from '../pose/moveNetModels';
+import { MoveNetInput, readMoveNetInput, runMoveNet } from '../pose/moveNetInference';
+import {
+  MIN_RECOMMENDED_FPS,
+  MoveNetBenchmarkResult,
+  MoveNetBenchmarkSample,
+  failedBenchmark,
+  recommendMoveNetModel,
+  summarizeBenchmark,
+} from '../pose/moveNetBenchmark';
+
+// Per model: warm-up frames are discarded (delegate setup, first-run allocations)
+const WARMUP_MS = 1500;
+const MEASURE_MS = 5000;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+interface ModelBenchmarkScreenProps {
+  navigation: any;
+}
+
+/**
+ * Runs every MoveNet model on the front camera for a few seconds each,
+ * unthrottled, and recommends the one that suits this device.
+ */
+export const ModelBenchmarkScreen: React.FC<ModelBenchmarkScreenProps> = ({ navigation }) => {
+  const insets = useSafeAreaInsets();
+  const isFocused = useIsFocused();
+  const device = useCameraDevice('front');
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const { model: selectedModel, selectModel, benchmarkResults, setBenchmarkResults } = useMoveNetModel();
+  const { resize } = useResizePlugin();
+
+  const [running, setRunning] = useState(false);
+  const [activeModelId, setActiveModelId] = useState<MoveNetModelId | null>(null);
+  const [activeModel, setActiveModel] = useState<{ model: TensorflowModel; input: MoveNetInput } | null>(null);
+  const samplesRef = useRef<MoveNetBenchmarkSample[]>([]);
+  const measuringRef = useRef(false);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    if (!hasPermission) {
+      requestPermission();
+    }
+  }, [hasPermission, requestPermission]);
+
+  useEffect(() => {
+    cancelledRef.current = false;
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, []);
+
+  const onSampleFromWorklet = useCallback((inferenceMs: number, meanScore: number) => {
+    if (measuringRef.current) {
+      samplesRef.current.push({ inferenceMs, meanScore });
+    }
+  }, []);
+
+  const sendSampleToJS = useMemo(
+    () => Worklets.createRunOnJS(onSampleFromWorklet),
+    [onSampleFromWorklet]
+  );
+
+  // No inference throttle here: the achieved rate is what is being measured
+  const frameProcessor = useFrameProcessor(
+    (frame) => {
+      'worklet';
+      if (activeModel == null) return;
+
+      const start = Date.now();
+      const flat = runMoveNet(frame, activeModel.model, resize, activeModel.input, true);
+      const inferenceMs = Date.now() - start;
+      if (flat == null) return;
+
+      let totalScore = 0;
+      for (let i = 2; i < flat.length; i += 3) {
+        totalScore += flat[i];
+      }
+      sendSampleToJS(inferenceMs, totalScore / (flat.length / 3));
+    },
+    [activeModel, resize, sendSampleToJS]
+  );
+
+  const runBenchmark = useCallback(async () => {
+    setRunning(true);
+    const results: MoveNetBenchmarkResult[] = [];
+
+    for (const moveNetModel of MOVENET_MODELS) {
+      if (cancelledRef.current) return;
+      setActiveModelId(moveNetModel.id);
+
+      let loaded: TensorflowModel;
+      try {
+        loaded = await loadTensorflowModel(moveNetModel.asset);
+      } catch (error) {
+        results.push(failedBenchmark(moveNetModel.id, `Failed to load: ${error instanceof Error ? error.message : error}`));
+        continue;
+      }
+
+      const input = readMoveNetInput(loaded, moveNetModel.inputSize);
+      if (!input) {
+        results.push(failedBenchmark(moveNetModel.id, 'Unsupported model input type'));
+        continue;
+      }
+
+      setActiveModel({ model: loaded, input });
+      await wait(WARMUP_MS);
+
+      samplesRef.current = [];
+      measuringRef.current = true;
+      const measureStart = Date.now();
+      await wait(MEASURE_MS);
+      measuringRef.current = false;
+
+      results.push(summarizeBenchmark(moveNetModel.id, samplesRef.current, Date.now() - measureStart));
+      setActiveModel(null);
+    }
+
+    if (cancelledRef.current) return;
+    setActiveModelId(null);
+    setBenchmarkResults(results);
+    setRunning(false);
+  }, [setBenchmarkResults]);
+
+  const recommendedId = benchmarkResults ? recommendMoveNetModel(benchmarkResults) : null;
+  const cameraActive = isFocused && hasPermission && running;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ChevronLeft size={24} color={COLORS.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Model Benchmark</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.intro}>
+          Prop the phone up and stand fully in view of the front camera. Each model runs for
+          {` ${(WARMUP_MS + MEASURE_MS) / 1000}`} seconds.
+        </Text>
+
+        {device && hasPermission ? (
+          <View style={styles.preview}>
+            <Camera
+              style={StyleSheet.absoluteFill}
+              device={device}
+              isActive={cameraActive}
+              frameProcessor={cameraActive && activeModel ? frameProcessor : undefined}
+              pixelFormat="yuv"
+              photo={false}
+              video={false}
+              androidPreviewViewType="texture-view"
+            />
+            {activeModelId && (
+              <View style={styles.previewBadge}>
+                <Text style={styles.previewBadgeText}>{getMoveNetModel(activeModelId).name}</Text>
+              </View>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.intro}>Camera access is required to benchmark models.</Text>
+        )}
+
+        <NeonButton
+          title={running ? 'Benchmarking...' : benchmarkResults ? 'Run Again' : 'Start Benchmark'}
+          onPress={runBenchmark}
+          disabled={running || !hasPermission || !device}
+          style={styles.button}
+        />
+
+        {benchmarkResults && !running && (
+          <>
+            <Text style={styles.sectionTitle}>Results</Text>
+            <View style={styles.section}>
+              {benchmarkResults.map((result) => (
+                <View key={result.modelId} style={styles.resultRow}>
+                  <View style={styles.resultText}>
+                    <Text style={styles.resultName}>
+                      {getMoveNetModel(result.modelId).name}
+                      {result.modelId === recommendedId ? '  · Recommended' : ''}
+                    </Text>
+                    <Text style={styles.resultDetail}>
+                      {result.frames === 0
+                        ? result.error ?? 'Failed to run'
+                        : `${result.meanInferenceMs.toFixed(1)} ms (p95 ${result.p95InferenceMs.toFixed(0)}) · ` +
+                          `${result.fps.toFixed(1)} FPS · ${Math.round(result.meanConfidence * 100)}% confidence`}
+                    </Text>
+                  </View>
+                  {result.modelId === selectedModel.id && <Check size={20} color={COLORS.primary} />}
+                </View>
+              ))}
+            </View>
+            <Text style={styles.footnote}>
+              Recommended: the most confident model that sustains {MIN_RECOMMENDED_FPS} FPS, or the fastest
+              if none does.
+            </Text>
+
+            {recommendedId && recommendedId !== selectedModel.id && (
+              <NeonButton
+                title={`Use ${getMoveNetModel(recommendedId).name}`}
+                onPress={() => {
+                  selectModel(recommendedId);
+                  navigation.goBack();
+                }}
+                style={styles.button}
+              />
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.cardBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.text,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: SPACING.lg,
+  },
+  intro: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  preview: {
+    height: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: COLORS.cardBackground,
+  },
+  previewBadge: {
+    position: 'absolute',
+    top: SPACING.sm,
+    left: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  previewBadgeText: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.text,
+  },
+  button: {
+    marginTop: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xl,
+    marginBottom: SPACING.sm,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  section: {
+    ...CARD_STYLE,
+    overflow: 'hidden',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  resultText: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+  resultName: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.text,
+  },
+  resultDetail: {
+    fontSize: 12,
+    fontFamily: FONTS.mono.regular,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  footnote: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+});
@@ -14,9 +14,9 @@ import { useNavigation, useRoute, RouteProp, CommonActions } from '@react-naviga
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { X } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS } from '../constants/theme';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
 import { RootStackParamList } from '../app/RootNavigator';
-import { saveWorkout } from '../services/workoutStorage';
+import { saveWorkout } from '@forma/core/services/workoutStorage';
 
 type SaveWorkoutRouteProp = RouteProp<RootStackParamList, 'SaveWorkout'>;
 type SaveWorkoutNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SaveWorkout'>;
@@ -1,8 +1,11 @@
 import React from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { ChevronLeft, User, Bell, Lock, HelpCircle, LogOut } from 'lucide-react-native';
-import { COLORS, SPACING, FONTS } from '../constants/theme';
+import { ChevronLeft, User, Bell, Lock, HelpCircle, LogOut, Gauge } from 'lucide-react-native';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
+import { PoseBackendPicker } from '@forma/core/components/ui/PoseBackendPicker';
+import { usePoseBackend } from '@forma/core/contexts/PoseBackendContext';
+import { MoveNetModelPicker } from '../components/ui/MoveNetModelPicker';
 
 interface SettingsScreenProps {
   navigation: any;
@@ -10,6 +13,7 @@ interface SettingsScreenProps {
 
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const insets = useSafeAreaInsets();
+  const { backend } = usePoseBackend();
 
   const SettingItem = ({ icon: Icon, label, onPress }: { icon: any; label: string; onPress?: () => void }) => (
     <TouchableOpacity style={styles.settingItem} onPress={onPress} activeOpacity={0.7}>
@@ -41,6 +45,25 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
           <SettingItem icon={Lock} label="Privacy" />
         </View>
 
+        {/* Pose Detection Section */}
+        <Text style={styles.sectionTitle}>Pose Detection</Text>
+        <PoseBackendPicker />
+
+        {/* MoveNet Model Section */}
+        {backend.id === 'movenet' && (
+          <>
+            <Text style={styles.sectionTitle}>MoveNet Model</Text>
+            <MoveNetModelPicker />
+            <View style={[styles.section, styles.sectionSpacing]}>
+              <SettingItem
+                icon={Gauge}
+                label="Benchmark Models"
+                onPress={() => navigation.navigate('ModelBenchmark')}
+              />
+            </View>
+          </>
+        )}
+
         {/* Support Section */}
         <Text style={styles.sectionTitle}>Support</Text>
         <View style={styles.section}>
@@ -103,6 +126,9 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     overflow: 'hidden',
   },
+  sectionSpacing: {
+    marginTop: SPACING.md,
+  },
   settingItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -5,8 +5,8 @@ import { ChevronLeft, Target, Zap } from 'lucide-react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../app/RootNavigator';
-import { COLORS, SPACING, FONTS } from '../constants/theme';
-import { MonoText } from '../components/typography/MonoText';
+import { COLORS, SPACING, FONTS } from '@forma/core/theme';
+import { MonoText } from '@forma/core/components/typography/MonoText';
 
 type WorkoutDetailsScreenRouteProp = RouteProp<RootStackParamList, 'WorkoutDetails'>;
 type WorkoutDetailsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'WorkoutDetails'>;
@@ -0,0 +1,990 @@
+/**
+ * Barbell Curl Analysis - Forma Canonical Heuristics Implementation
+ *
+ * Detects and evaluates standing barbell curls using 8 reliable joint angles
+ * with real-time, deterministic feedback on form, safety, and rep quality.
+ * Aligned with Forma Barbell Curl Heuristics Specification.
+ */
+
+import { Keypoint, calculateAngle, getKeypoint, isVisible } from './poseAnalysis';
+import { FilterConfig, FilterState, SMOOTHING_PRESETS, filterValue } from './signalFilters';
+import { BodyPart } from './skeleton';
+import { ViewMetric, ViewTracker, createViewTracker, isMetricTrusted, updateViewTracker } from './viewingAngle';
+import {
+  BodyCalibration,
+  REFERENCE_ROM,
+  getCalibratedRange,
+  personalizeExtensionThreshold,
+  personalizeFlexionThreshold,
+} from './bodyCalibration';
+import { RepTempo, TempoPrescription, getTempoCue, scoreTempoCompliance } from './tempoAnalysis';
+import { PartialRep, describeShortRep } from './repRecords';
+
+type JointAngleName =
+  | 'leftElbow' | 'rightElbow'
+  | 'leftShoulder' | 'rightShoulder'
+  | 'leftHip' | 'rightHip'
+  | 'leftKnee' | 'rightKnee';
+
+type ElbowSample = { time: number; elbow: number }; // Mean elbow angle at a frame
+
+/** What the form score components are measured from, over the rep so far */
+type RepFormMeasures = {
+  startAngles: Record<JointAngleName, number> | null; // Angles where the curl started; drift is measured from here
+  maxShoulderDrift: number; // Degrees, only frames where the view can measure shoulder flexion
+  maxBodyDrift: number; // Degrees of hip or knee change, only frames where the view can measure trunk swing
+  elbowDiffSum: number; // Left/right elbow difference summed over frames where the view can compare the arms
+  elbowDiffFrames: number;
+};
+
+export interface BarbellCurlState {
+  phase: 'start' | 'concentric' | 'top' | 'eccentric' | 'idle';
+  repCount: number;
+  formScore: number;
+  feedback: string | null;
+  feedbackParts: BodyPart[]; // Body parts the current feedback is about
+  phaseStartTime: number;
+  lastFeedbackTime: number;
+
+  // Angle tracking
+  leftElbowAngle: number | null;
+  rightElbowAngle: number | null;
+  leftShoulderAngle: number | null;
+  rightShoulderAngle: number | null;
+  leftHipAngle: number | null;
+  rightHipAngle: number | null;
+  leftKneeAngle: number | null;
+  rightKneeAngle: number | null;
+
+  // Angle smoothing (see signalFilters.ts); a joint's filter restarts when it drops out of view
+  angleSmoothing: FilterConfig;
+  angleFilters: Partial<Record<JointAngleName, FilterState>>;
+
+  // Camera view: decides which checks the angles can support (see viewingAngle.ts)
+  view: ViewTracker;
+
+  // Elbow thresholds, personalized by body calibration
+  thresholds: BarbellCurlThresholds;
+
+  // Tempo (see tempoAnalysis.ts): the elbow since the last rep ended, timed into phases when a rep counts
+  tempoPrescription: TempoPrescription | null;
+  elbowTrace: ElbowSample[];
+  traceFollowsRep: boolean; // The trace starts at the end of a rep, so its bottom pause is a pause between reps
+  lastRepTempo: RepTempo | null; // Tempo of the last counted rep
+  tempoCue: string | null; // Cue for the last rep's tempo, until shown
+
+  // Phase tracking - upper body
+  phaseStartAngles: {
+    leftElbow: number;
+    rightElbow: number;
+    leftShoulder: number;
+    rightShoulder: number;
+    leftHip: number;
+    rightHip: number;
+    leftKnee: number;
+    rightKnee: number;
+  } | null;
+
+  // Rep-level tracking for validity
+  repStartElbow: number;
+  repTopElbow: number;
+  repMaxShoulder: number;
+  partialReps: PartialRep[]; // Reps that were started but didn't count, with why
+
+  // Anti-drop (eccentric): the lowering was cued as a drop, so its tempo isn't cued again
+  eccentricDropped: boolean;
+
+  // Body stability at setup
+  setupStableStartTime: number | null;
+
+  // Quality metrics: measured over each rep, scored when it counts (see scoreRepForm)
+  formMeasures: RepFormMeasures;
+  rangeOfMotion: number;
+  upperArmStability: number;
+  symmetry: number;
+  tempoControl: number;
+  bodyStability: number;
+}
+
+/** Elbow angles (degrees) the phases and rep checks switch on */
+export interface BarbellCurlThresholds {
+  extendedElbow: number; // Arms straight: start position and rep end
+  concentricElbow: number; // Below this the curl has started
+  topElbow: number; // At or below this the bar is at the top
+  topExitElbow: number; // Above this the bar is on the way down (and too low at the top)
+  validTopElbow: number; // A rep must peak at or below this to count
+  fullRange: number; // Degrees of elbow travel scored as 100% range of motion
+}
+
+export const DEFAULT_BARBELL_CURL_THRESHOLDS: BarbellCurlThresholds = {
+  extendedElbow: 165,
+  concentricElbow: 160,
+  topElbow: 80,
+  topExitElbow: 75,
+  validTopElbow: 70,
+  fullRange: 110,
+};
+
+/**
+ * Move the elbow thresholds onto the user's calibrated range, never making
+ * them stricter than the defaults (see bodyCalibration.ts).
+ */
+export function personalizeBarbellCurlThresholds(calibration: BodyCalibration | null | undefined): BarbellCurlThresholds {
+  const range = getCalibratedRange(calibration, 'elbow');
+  if (!range) return DEFAULT_BARBELL_CURL_THRESHOLDS;
+
+  const reference = REFERENCE_ROM.elbow;
+  const defaults = DEFAULT_BARBELL_CURL_THRESHOLDS;
+  const rangeScale = (range.extension - range.flexion) / (reference.extension - reference.flexion);
+  return {
+    extendedElbow: personalizeExtensionThreshold(defaults.extendedElbow, reference, range),
+    concentricElbow: personalizeExtensionThreshold(defaults.concentricElbow, reference, range),
+    topElbow: personalizeFlexionThreshold(defaults.topElbow, reference, range),
+    topExitElbow: personalizeFlexionThreshold(defaults.topExitElbow, reference, range),
+    validTopElbow: personalizeFlexionThreshold(defaults.validTopElbow, reference, range),
+    fullRange: Math.min(defaults.fullRange, defaults.fullRange * rangeScale),
+  };
+}
+
+export interface BarbellCurlFeedback {
+  message: string;
+  priority: number; // 1 = safety, 2 = form, 3 = performance
+  parts: BodyPart[]; // Where the fault is; empty for tempo cues
+}
+
+/** A rep's form score components (0-100 each), see calculateFormScore */
+export interface BarbellCurlFormComponents {
+  rangeOfMotion: number;
+  upperArmStability: number;
+  symmetry: number;
+  tempoControl: number;
+  bodyStability: number;
+}
+
+const UPPER_ARMS: BodyPart[] = ['leftUpperArm', 'rightUpperArm'];
+const FOREARMS: BodyPart[] = ['leftForearm', 'rightForearm'];
+const ARMS: BodyPart[] = [...UPPER_ARMS, ...FOREARMS];
+const TORSO_AND_LEGS: BodyPart[] = ['leftTorso', 'rightTorso', 'hips', 'leftThigh', 'rightThigh', 'leftShin', 'rightShin'];
+
+const FEEDBACK_DURATION_MS = 2000;
+const MIN_FEEDBACK_INTERVAL_MS = 1000;
+const MIN_PHASE_DURATION_MS = 250; // 0.25 seconds per spec
+const SETUP_STABILITY_DURATION_MS = 300; // 0.3 seconds
+const SETUP_STABILITY_TOLERANCE = 5; // ±5°
+const ANTI_DROP_MAX_DEG_PER_100MS = 18;
+const ANTI_DROP_WINDOW_MS = 100; // Elbow change is measured over this much of the trace, not frame to frame
+const ANTI_DROP_CUE = "Don't drop the bar—control the descent.";
+
+// Phase durations that are well controlled without a prescribed tempo: cued outside them, and scored in tempoControl
+const CONCENTRIC_TARGET_MS = { min: 500, max: 2000 };
+const ECCENTRIC_TARGET_MS = { min: 800, max: 3000 };
+
+// Tempo phases end where the elbow is within this much of the rep's end angles
+const TEMPO_END_BAND_FRACTION = 0.03; // Of the rep's range
+const TEMPO_END_BAND_MIN_DEG = 3;
+const MAX_TEMPO_TRACE_MS = 20000; // Older samples are dropped while standing between reps
+
+/** Lower threshold to accept MediaPipe's estimated landmarks when limb is occluded (e.g. side-on view) */
+const VISIBILITY_THRESHOLD = 0.1;
+
+/**
+ * Calculate all joint angles for barbell curl analysis
+ */
+function calculateJointAngles(keypoints: Keypoint[]): Record<JointAngleName, number | null> {
+  const leftShoulder = getKeypoint(keypoints, 'left_shoulder');
+  const rightShoulder = getKeypoint(keypoints, 'right_shoulder');
+  const leftElbow = getKeypoint(keypoints, 'left_elbow');
+  const rightElbow = getKeypoint(keypoints, 'right_elbow');
+  const leftWrist = getKeypoint(keypoints, 'left_wrist');
+  const rightWrist = getKeypoint(keypoints, 'right_wrist');
+  const leftHip = getKeypoint(keypoints, 'left_hip');
+  const rightHip = getKeypoint(keypoints, 'right_hip');
+  const leftKnee = getKeypoint(keypoints, 'left_knee');
+  const rightKnee = getKeypoint(keypoints, 'right_knee');
+  const leftAnkle = getKeypoint(keypoints, 'left_ankle');
+  const rightAnkle = getKeypoint(keypoints, 'right_ankle');
+
+  const leftShoulderAngle = (leftElbow && leftShoulder && leftHip && isVisible(leftElbow, VISIBILITY_THRESHOLD) && isVisible(leftShoulder, VISIBILITY_THRESHOLD) && isVisible(leftHip, VISIBILITY_THRESHOLD))
+    ? calculateAngle(leftElbow, leftShoulder, leftHip)
+    : null;
+
+  const rightShoulderAngle = (rightElbow && rightShoulder && rightHip && isVisible(rightElbow, VISIBILITY_THRESHOLD) && isVisible(rightShoulder, VISIBILITY_THRESHOLD) && isVisible(rightHip, VISIBILITY_THRESHOLD))
+    ? calculateAngle(rightElbow, rightShoulder, rightHip)
+    : null;
+
+  const leftElbowAngle = (leftShoulder && leftElbow && leftWrist && isVisible(leftShoulder, VISIBILITY_THRESHOLD) && isVisible(leftElbow, VISIBILITY_THRESHOLD) && isVisible(leftWrist, VISIBILITY_THRESHOLD))
+    ? calculateAngle(leftShoulder, leftElbow, leftWrist)
+    : null;
+
+  const rightElbowAngle = (rightShoulder && rightElbow && rightWrist && isVisible(rightShoulder, VISIBILITY_THRESHOLD) && isVisible(rightElbow, VISIBILITY_THRESHOLD) && isVisible(rightWrist, VISIBILITY_THRESHOLD))
+    ? calculateAngle(rightShoulder, rightElbow, rightWrist)
+    : null;
+
+  const leftHipAngle = (leftShoulder && leftHip && leftKnee && isVisible(leftShoulder, VISIBILITY_THRESHOLD) && isVisible(leftHip, VISIBILITY_THRESHOLD) && isVisible(leftKnee, VISIBILITY_THRESHOLD))
+    ? calculateAngle(leftShoulder, leftHip, leftKnee)
+    : null;
+
+  const rightHipAngle = (rightShoulder && rightHip && rightKnee && isVisible(rightShoulder, VISIBILITY_THRESHOLD) && isVisible(rightHip, VISIBILITY_THRESHOLD) && isVisible(rightKnee, VISIBILITY_THRESHOLD))
+    ? calculateAngle(rightShoulder, rightHip, rightKnee)
+    : null;
+
+  const leftKneeAngle = (leftHip && leftKnee && leftAnkle && isVisible(leftHip, VISIBILITY_THRESHOLD) && isVisible(leftKnee, VISIBILITY_THRESHOLD) && isVisible(leftAnkle, VISIBILITY_THRESHOLD))
+    ? calculateAngle(leftHip, leftKnee, leftAnkle)
+    : null;
+
+  const rightKneeAngle = (rightHip && rightKnee && rightAnkle && isVisible(rightHip, VISIBILITY_THRESHOLD) && isVisible(rightKnee, VISIBILITY_THRESHOLD) && isVisible(rightAnkle, VISIBILITY_THRESHOLD))
+    ? calculateAngle(rightHip, rightKnee, rightAnkle)
+    : null;
+
+  return {
+    leftElbow: leftElbowAngle,
+    rightElbow: rightElbowAngle,
+    leftShoulder: leftShoulderAngle,
+    rightShoulder: rightShoulderAngle,
+    leftHip: leftHipAngle,
+    rightHip: rightHipAngle,
+    leftKnee: leftKneeAngle,
+    rightKnee: rightKneeAngle,
+  };
+}
+
+/**
+ * Smooth the raw joint angles with the state's filter
+ */
+function smoothJointAngles(
+  raw: ReturnType<typeof calculateJointAngles>,
+  state: BarbellCurlState,
+  currentTime: number
+): { angles: ReturnType<typeof calculateJointAngles>; filters: BarbellCurlState['angleFilters'] } {
+  const angles = { ...raw };
+  const filters: BarbellCurlState['angleFilters'] = {};
+  for (const joint of Object.keys(raw) as JointAngleName[]) {
+    const rawAngle = raw[joint];
+    if (rawAngle === null) continue;
+    const filtered = filterValue(state.angleSmoothing, state.angleFilters[joint] ?? null, rawAngle, currentTime);
+    filters[joint] = filtered;
+    angles[joint] = filtered.value;
+  }
+  return { angles, filters };
+}
+
+/** Max degrees difference between left/right before we average (symmetric exercises) */
+const SYMMETRIC_ANGLE_TOLERANCE_DEG = 25;
+
+/**
+ * For symmetric joints (elbow, shoulder, hip, knee) during barbell curl: when both sides
+ * are available but differ significantly, use their average. This corrects for single-side
+ * detection errors and enforces the physical reality that both arms/legs move together.
+ */
+function symmetrizeAngle(left: number, right: number): { left: number; right: number } {
+  const diff = Math.abs(left - right);
+  if (diff <= SYMMETRIC_ANGLE_TOLERANCE_DEG) {
+    return { left, right };
+  }
+  const avg = (left + right) / 2;
+  return { left: avg, right: avg };
+}
+
+const JOINTS = ['Elbow', 'Shoulder', 'Hip', 'Knee'] as const;
+
+/**
+ * Side-on, the far limbs are the model's guesses: drop each far-side angle
+ * whose near-side counterpart was measured, so the near side is mirrored.
+ */
+function keepNearSide(
+  raw: ReturnType<typeof calculateJointAngles>,
+  nearSide: 'left' | 'right'
+): ReturnType<typeof calculateJointAngles> {
+  const angles = { ...raw };
+  const farSide = nearSide === 'left' ? 'right' : 'left';
+  for (const joint of JOINTS) {
+    if (angles[`${nearSide}${joint}`] !== null) {
+      angles[`${farSide}${joint}`] = null;
+    }
+  }
+  return angles;
+}
+
+/**
+ * When one side is occluded (e.g. side-on view), use the visible limb's angle
+ * as an estimate for the occluded side. Barbell curls are symmetric, so both
+ * arms move together. Returns effective angles for analysis (nulls filled from mirror).
+ */
+function getEffectiveAngles(
+  measured: ReturnType<typeof calculateJointAngles>,
+  view: ViewTracker
+): {
+  leftElbow: number;
+  rightElbow: number;
+  leftShoulder: number;
+  rightShoulder: number;
+  leftHip: number;
+  rightHip: number;
+  leftKnee: number;
+  rightKnee: number;
+  canAnalyze: boolean;
+} {
+  const raw = view.view === 'side' && view.nearSide ? keepNearSide(measured, view.nearSide) : measured;
+  let elbow = raw.leftElbow !== null || raw.rightElbow !== null
+    ? { left: raw.leftElbow ?? raw.rightElbow!, right: raw.rightElbow ?? raw.leftElbow! }
+    : null;
+  let shoulder = raw.leftShoulder !== null || raw.rightShoulder !== null
+    ? { left: raw.leftShoulder ?? raw.rightShoulder!, right: raw.rightShoulder ?? raw.leftShoulder! }
+    : null;
+  let hip = raw.leftHip !== null || raw.rightHip !== null
+    ? { left: raw.leftHip ?? raw.rightHip!, right: raw.rightHip ?? raw.leftHip! }
+    : null;
+  let knee = raw.leftKnee !== null || raw.rightKnee !== null
+    ? { left: raw.leftKnee ?? raw.rightKnee!, right: raw.rightKnee ?? raw.leftKnee! }
+    : null;
+
+  // Symmetrize when both sides available but differ too much (detection noise)
+  if (elbow && raw.leftElbow != null && raw.rightElbow != null) {
+    elbow = symmetrizeAngle(raw.leftElbow, raw.rightElbow);
+  }
+  if (shoulder && raw.leftShoulder != null && raw.rightShoulder != null) {
+    shoulder = symmetrizeAngle(raw.leftShoulder, raw.rightShoulder);
+  }
+  if (hip && raw.leftHip != null && raw.rightHip != null) {
+    hip = symmetrizeAngle(raw.leftHip, raw.rightHip);
+  }
+  if (knee && raw.leftKnee != null && raw.rightKnee != null) {
+    knee = symmetrizeAngle(raw.leftKnee, raw.rightKnee);
+  }
+
+  const canAnalyze = elbow !== null && shoulder !== null;
+
+  return {
+    leftElbow: elbow?.left ?? 0,
+    rightElbow: elbow?.right ?? 0,
+    leftShoulder: shoulder?.left ?? 0,
+    rightShoulder: shoulder?.right ?? 0,
+    leftHip: hip?.left ?? 170,
+    rightHip: hip?.right ?? 170,
+    leftKnee: knee?.left ?? 170,
+    rightKnee: knee?.right ?? 170,
+    canAnalyze,
+  };
+}
+
+/**
+ * Check if the pose matches barbell curl classification criteria (Spec §1)
+ * Body position: hip 140-185°, knee 140-185°, leaving room for a body swing
+ * past the 25° that generateFeedback cues, so a swinging curl is still analyzed
+ * Shoulder: stable, below 30° for start position
+ * Uses effective angles (with mirror estimation for occluded limbs).
+ */
+function classifyExercise(effective: ReturnType<typeof getEffectiveAngles>): boolean {
+  if (!effective.canAnalyze) return false;
+
+  const { leftHip, rightHip, leftKnee, rightKnee, leftShoulder, rightShoulder } = effective;
+  const meanHipAngle = (leftHip + rightHip) / 2;
+  const meanKneeAngle = (leftKnee + rightKnee) / 2;
+  const meanShoulder = (leftShoulder + rightShoulder) / 2;
+
+  if (meanHipAngle < 140 || meanHipAngle > 185) return false;
+  if (meanKneeAngle < 140 || meanKneeAngle > 185) return false;
+  if (meanShoulder > 30) return false;
+
+  return true;
+}
+
+/**
+ * Generate feedback based on current state and angles (Spec §3-7, §11)
+ * Uses effective angles (with mirror estimation for occluded limbs).
+ */
+function generateFeedback(
+  state: BarbellCurlState,
+  effective: ReturnType<typeof getEffectiveAngles>,
+  currentTime: number
+): BarbellCurlFeedback | null {
+  if (currentTime - state.lastFeedbackTime < MIN_FEEDBACK_INTERVAL_MS) return null;
+  if (!effective.canAnalyze) return null;
+
+  const { leftElbow, rightElbow, leftShoulder, rightShoulder, leftHip, rightHip, leftKnee, rightKnee } = effective;
+
+  const meanElbow = (leftElbow + rightElbow) / 2;
+  const meanShoulder = (leftShoulder + rightShoulder) / 2;
+  const meanHip = (leftHip + rightHip) / 2;
+  const meanKnee = (leftKnee + rightKnee) / 2;
+
+  // Only check what the camera view can measure
+  const trusted = (metric: ViewMetric) => isMetricTrusted(state.view, metric);
+
+  // Priority 1: Safety and form breakdown. Swing is measured from where the curl started, as
+  // each phase starting over would split a swing across the concentric and the top.
+  const repStartAngles = state.formMeasures.startAngles;
+  if (repStartAngles && trusted('trunkSwing')) {
+    const hipChange = Math.abs(meanHip - (repStartAngles.leftHip + repStartAngles.rightHip) / 2);
+    const kneeChange = Math.abs(meanKnee - (repStartAngles.leftKnee + repStartAngles.rightKnee) / 2);
+
+    if (hipChange > 25 || kneeChange > 25) {
+      return { message: "No swinging—curl strictly.", priority: 1, parts: TORSO_AND_LEGS };
+    }
+    if (hipChange > 15 || kneeChange > 15) {
+      return { message: "Keep your body still.", priority: 1, parts: TORSO_AND_LEGS };
+    }
+  }
+
+  if (state.phaseStartAngles && state.phase === 'concentric') {
+    if (trusted('shoulderFlexion')) {
+      const shoulderChange = Math.abs(meanShoulder - (state.phaseStartAngles.leftShoulder + state.phaseStartAngles.rightShoulder) / 2);
+      if (shoulderChange > 10) {
+        return { message: "Keep your upper arms still—don't swing the bar.", priority: 1, parts: UPPER_ARMS };
+      }
+    }
+    if (trusted('trunkSwing')) {
+      const concentricHipChange = Math.abs(meanHip - (state.phaseStartAngles.leftHip + state.phaseStartAngles.rightHip) / 2);
+      const concentricKneeChange = Math.abs(meanKnee - (state.phaseStartAngles.leftKnee + state.phaseStartAngles.rightKnee) / 2);
+      if (concentricHipChange > 8 || concentricKneeChange > 10) {
+        return { message: "No body swing—curl strictly.", priority: 1, parts: TORSO_AND_LEGS };
+      }
+    }
+  }
+
+  // Priority 2: Major form errors
+  if (state.phase === 'start') {
+    // Bending out of extension is the curl starting, so only an elbow that has settled short of it is cued
+    const bentAtStart = meanElbow < state.thresholds.extendedElbow && isElbowSettled(state.elbowTrace, currentTime);
+    if (trusted('elbowFlexion') && (bentAtStart || meanElbow > 180)) {
+      return { message: "Start with your arms fully extended at your sides.", priority: 2, parts: ARMS };
+    }
+    if (trusted('shoulderFlexion') && meanShoulder >= 20) {
+      return { message: "Start with your arms fully extended at your sides.", priority: 2, parts: ARMS };
+    }
+    const elbowDiff = Math.abs(leftElbow - rightElbow);
+    const shoulderDiff = Math.abs(leftShoulder - rightShoulder);
+    if (trusted('symmetry') && (elbowDiff > 6 || shoulderDiff > 6)) {
+      return { message: "Set both arms evenly before curling.", priority: 2, parts: ARMS };
+    }
+  }
+
+  if (state.phase === 'top') {
+    // As at the start, only an elbow that has settled short of the top is cued
+    if (trusted('elbowFlexion') && meanElbow > state.thresholds.topExitElbow && isElbowSettled(state.elbowTrace, currentTime)) {
+      return { message: "Curl the bar higher and squeeze at the top.", priority: 2, parts: FOREARMS };
+    }
+    if (trusted('shoulderFlexion') && meanShoulder >= 30) {
+      return { message: "Keep your upper arms still—don't swing the bar.", priority: 2, parts: UPPER_ARMS };
+    }
+    const elbowDiff = Math.abs(leftElbow - rightElbow);
+    const shoulderDiff = Math.abs(leftShoulder - rightShoulder);
+    if (trusted('symmetry') && (elbowDiff > 7 || shoulderDiff > 7)) {
+      return { message: "Curl evenly with both arms.", priority: 2, parts: ARMS };
+    }
+  }
+
+  if (state.phase === 'start' && state.setupStableStartTime === null && trusted('trunkSwing')) {
+    if (state.phaseStartAngles) {
+      const hipStable = Math.abs(meanHip - (state.phaseStartAngles.leftHip + state.phaseStartAngles.rightHip) / 2) <= SETUP_STABILITY_TOLERANCE;
+      const kneeStable = Math.abs(meanKnee - (state.phaseStartAngles.leftKnee + state.phaseStartAngles.rightKnee) / 2) <= SETUP_STABILITY_TOLERANCE;
+      if (!hipStable || !kneeStable) {
+        return { message: "Stand tall and steady before curling.", priority: 2, parts: TORSO_AND_LEGS };
+      }
+    }
+  }
+
+  // Priority 3: Performance cues (tempo), judged once the rep is timed: against the prescribed
+  // tempo when there is one (see tempoAnalysis.ts), otherwise by getRepTempoCue
+  if (state.tempoCue) {
+    return { message: state.tempoCue, priority: 3, parts: [] };
+  }
+
+  return null;
+}
+
+/**
+ * Whether the elbow has held within SETUP_STABILITY_TOLERANCE over the last
+ * SETUP_STABILITY_DURATION_MS, rather than passing through on its way into or out of a phase
+ */
+function isElbowSettled(trace: ElbowSample[], currentTime: number): boolean {
+  if (trace.length === 0 || currentTime - trace[0].time < SETUP_STABILITY_DURATION_MS) return false;
+  const recent = trace.filter(sample => currentTime - sample.time <= SETUP_STABILITY_DURATION_MS).map(sample => sample.elbow);
+  return Math.max(...recent) - Math.min(...recent) <= SETUP_STABILITY_TOLERANCE;
+}
+
+/**
+ * Cue for a counted rep's tempo without a prescribed one: its concentric and
+ * eccentric against the usual windows. A phase is only judged once it's over,
+ * as every phase starts out short. A lowering already cued as a drop isn't cued again.
+ */
+function getRepTempoCue(tempo: RepTempo, eccentricDropped: boolean): string | null {
+  const { concentric, eccentric } = tempo;
+  if (concentric !== null && concentric < CONCENTRIC_TARGET_MS.min) return "Curl the bar more slowly.";
+  if (concentric !== null && concentric > CONCENTRIC_TARGET_MS.max) return "Curl the bar more quickly.";
+  if (eccentric === null || eccentricDropped) return null;
+  if (eccentric < ECCENTRIC_TARGET_MS.min || eccentric > ECCENTRIC_TARGET_MS.max) {
+    return "Lower the bar under control.";
+  }
+  return null;
+}
+
+/**
+ * Check for anti-drop: the elbow must not open more than 18° per 100ms while
+ * lowering (Spec §6). Measured against the trace sample at least
+ * ANTI_DROP_WINDOW_MS back, as frames come too close together to time.
+ */
+function checkAntiDrop(
+  state: BarbellCurlState,
+  meanElbow: number,
+  currentTime: number
+): BarbellCurlFeedback | null {
+  if (currentTime - state.lastFeedbackTime < MIN_FEEDBACK_INTERVAL_MS) return null;
+  if (state.phase !== 'eccentric' || state.eccentricDropped) return null;
+
+  const reference = [...state.elbowTrace].reverse().find(sample => currentTime - sample.time >= ANTI_DROP_WINDOW_MS);
+  if (!reference) return null;
+
+  const dtMs = currentTime - reference.time;
+  const elbowChange = meanElbow - reference.elbow;
+  const maxAllowed = (dtMs / 100) * ANTI_DROP_MAX_DEG_PER_100MS;
+  if (elbowChange > maxAllowed) {
+    return { message: ANTI_DROP_CUE, priority: 1, parts: FOREARMS };
+  }
+  return null;
+}
+
+// Form score components: full marks up to the tolerance, nothing at the limit
+const UPPER_ARM_DRIFT_TOLERANCE_DEG = 4;
+const UPPER_ARM_DRIFT_LIMIT_DEG = 20;
+const ELBOW_DIFF_TOLERANCE_DEG = 4;
+const ELBOW_DIFF_LIMIT_DEG = 15;
+const BODY_DRIFT_TOLERANCE_DEG = SETUP_STABILITY_TOLERANCE;
+const BODY_DRIFT_LIMIT_DEG = 25;
+
+function createFormMeasures(startAngles: RepFormMeasures['startAngles'] = null): RepFormMeasures {
+  return { startAngles, maxShoulderDrift: 0, maxBodyDrift: 0, elbowDiffSum: 0, elbowDiffFrames: 0 };
+}
+
+/** Add a frame of the rep to its form measures. Each is only measured while the camera view supports it. */
+function measureRepForm(
+  measures: RepFormMeasures,
+  angles: Record<JointAngleName, number>,
+  view: ViewTracker
+): RepFormMeasures {
+  const start = measures.startAngles;
+  if (!start) return measures;
+  const mean = (a: Record<JointAngleName, number>, joint: 'Shoulder' | 'Hip' | 'Knee') => (a[`left${joint}`] + a[`right${joint}`]) / 2;
+  const next = { ...measures };
+
+  if (isMetricTrusted(view, 'shoulderFlexion')) {
+    next.maxShoulderDrift = Math.max(measures.maxShoulderDrift, Math.abs(mean(angles, 'Shoulder') - mean(start, 'Shoulder')));
+  }
+  if (isMetricTrusted(view, 'trunkSwing')) {
+    const hipDrift = Math.abs(mean(angles, 'Hip') - mean(start, 'Hip'));
+    const kneeDrift = Math.abs(mean(angles, 'Knee') - mean(start, 'Knee'));
+    next.maxBodyDrift = Math.max(measures.maxBodyDrift, hipDrift, kneeDrift);
+  }
+  if (isMetricTrusted(view, 'symmetry')) {
+    next.elbowDiffSum = measures.elbowDiffSum + Math.abs(angles.leftElbow - angles.rightElbow);
+    next.elbowDiffFrames = measures.elbowDiffFrames + 1;
+  }
+  return next;
+}
+
+/** 100 up to the tolerance, falling linearly to 0 at the limit */
+function scoreDeviation(deviation: number, tolerance: number, limit: number): number {
+  if (deviation <= tolerance) return 100;
+  return Math.max(0, 100 * (1 - (deviation - tolerance) / (limit - tolerance)));
+}
+
+/** 100 within the target window, falling to 0 at no time at all or at twice the window's end */
+function scorePhaseDuration(durationMs: number | null, target: { min: number; max: number }): number | null {
+  if (durationMs === null) return null;
+  if (durationMs < target.min) return Math.max(0, 100 * (durationMs / target.min));
+  if (durationMs > target.max) return Math.max(0, 100 * (1 - (durationMs - target.max) / target.max));
+  return 100;
+}
+
+/**
+ * Tempo control of a rep: compliance with the prescribed tempo when there is
+ * one, otherwise how well its concentric and eccentric fall in the usual
+ * windows. 100 when the rep couldn't be timed.
+ */
+function scoreTempoControl(tempo: RepTempo | null, prescription: TempoPrescription | null): number {
+  if (!tempo) return 100;
+  if (prescription) return scoreTempoCompliance(tempo, prescription) ?? 100;
+  const scores = [
+    scorePhaseDuration(tempo.concentric, CONCENTRIC_TARGET_MS),
+    scorePhaseDuration(tempo.eccentric, ECCENTRIC_TARGET_MS),
+  ].filter((score): score is number => score !== null);
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 100;
+}
+
+/**
+ * Score the counted rep's form components from what was measured over it.
+ * A component the camera view couldn't measure at all scores 100 rather
+ * than counting against the rep.
+ */
+function scoreRepForm(state: BarbellCurlState): void {
+  const measures = state.formMeasures;
+  state.upperArmStability = scoreDeviation(measures.maxShoulderDrift, UPPER_ARM_DRIFT_TOLERANCE_DEG, UPPER_ARM_DRIFT_LIMIT_DEG);
+  state.bodyStability = scoreDeviation(measures.maxBodyDrift, BODY_DRIFT_TOLERANCE_DEG, BODY_DRIFT_LIMIT_DEG);
+  state.symmetry = measures.elbowDiffFrames > 0
+    ? scoreDeviation(measures.elbowDiffSum / measures.elbowDiffFrames, ELBOW_DIFF_TOLERANCE_DEG, ELBOW_DIFF_LIMIT_DEG)
+    : 100;
+  state.tempoControl = scoreTempoControl(state.lastRepTempo, state.tempoPrescription);
+}
+
+/**
+ * Calculate form score (Spec §9): ROM 30%, upper-arm 25%, symmetry 20%, tempo 15%, body 10%
+ */
+function calculateFormScore(state: BarbellCurlState): number {
+  const romScore = state.rangeOfMotion * 0.3;
+  const stabilityScore = state.upperArmStability * 0.25;
+  const symmetryScore = state.symmetry * 0.2;
+  const tempoScore = state.tempoControl * 0.15;
+  const bodyScore = state.bodyStability * 0.1;
+  return Math.min(100, Math.max(0, romScore + stabilityScore + symmetryScore + tempoScore + bodyScore));
+}
+
+/**
+ * The form score components of the latest rep (0-100 each), as weighted by
+ * calculateFormScore. Read them on the frame the rep counts: they hold until
+ * the next curl starts.
+ */
+export function getFormScoreComponents(state: BarbellCurlState): BarbellCurlFormComponents {
+  return {
+    rangeOfMotion: state.rangeOfMotion,
+    upperArmStability: state.upperArmStability,
+    symmetry: state.symmetry,
+    tempoControl: state.tempoControl,
+    bodyStability: state.bodyStability,
+  };
+}
+
+type RepRejection = {
+  message: string;
+  partial: boolean; // Fell short of the range, rather than cheated
+  parts: BodyPart[];
+};
+
+/** Elbow travel of the rep so far, as a percent of a full rep */
+function getRepRangeOfMotion(state: BarbellCurlState): number {
+  return Math.min(100, Math.max(0, ((state.repStartElbow - state.repTopElbow) / state.thresholds.fullRange) * 100));
+}
+
+/**
+ * Validate rep per Spec §8 before counting: returns why the rep doesn't count,
+ * as shown to the user, or null when it does. Reps that fall short of the
+ * range are partial reps. Upper-arm swing only counts against the rep when
+ * the camera view can measure it.
+ */
+function getRepRejection(state: BarbellCurlState): RepRejection | null {
+  if (state.repStartElbow < state.thresholds.extendedElbow) {
+    return { message: 'Partial rep—straighten your arms fully before each curl.', partial: true, parts: ARMS };
+  }
+  if (state.repTopElbow > state.thresholds.validTopElbow) {
+    return { message: describeShortRep(getRepRangeOfMotion(state)), partial: true, parts: FOREARMS };
+  }
+  if (state.repMaxShoulder >= 30 && isMetricTrusted(state.view, 'shoulderFlexion')) {
+    return { message: "Rep not counted—keep your upper arms still.", partial: false, parts: UPPER_ARMS };
+  }
+  return null;
+}
+
+/**
+ * Time a rep's phases from its elbow trace. The phase thresholds above are
+ * set for reliable counting, well short of the end positions, so tempo
+ * instead splits the trace where the elbow comes within a few degrees of the
+ * rep's straightest and most bent angles. The eccentric is timed to the
+ * frame the rep counts (arms back past extendedElbow).
+ */
+function measureRepTempo(trace: ElbowSample[], timeBottomPause: boolean): RepTempo | null {
+  if (trace.length < 2) return null;
+  const angles = trace.map(sample => sample.elbow);
+  const straightest = Math.max(...angles);
+  const mostBent = Math.min(...angles);
+  const band = Math.max(TEMPO_END_BAND_MIN_DEG, (straightest - mostBent) * TEMPO_END_BAND_FRACTION);
+
+  const topStart = angles.findIndex(angle => angle <= mostBent + band);
+  const topEnd = angles.length - 1 - [...angles].reverse().findIndex(angle => angle <= mostBent + band);
+  const bottomStart = angles.findIndex(angle => angle >= straightest - band);
+  if (bottomStart > topStart) return null;
+  let concentricStart = bottomStart;
+  for (let i = bottomStart; i < topStart; i++) {
+    if (angles[i] >= straightest - band) concentricStart = i;
+  }
+
+  const time = (index: number) => trace[index].time;
+  return {
+    eccentric: time(trace.length - 1) - time(topEnd),
+    bottomPause: timeBottomPause ? time(concentricStart) - time(bottomStart) : null,
+    concentric: time(topStart) - time(concentricStart),
+    topPause: time(topEnd) - time(topStart),
+  };
+}
+
+export function initializeBarbellCurlState(
+  angleSmoothing: FilterConfig = SMOOTHING_PRESETS['barbell-curl'].angles,
+  thresholds: BarbellCurlThresholds = DEFAULT_BARBELL_CURL_THRESHOLDS,
+  tempoPrescription: TempoPrescription | null = null
+): BarbellCurlState {
+  return {
+    phase: 'idle',
+    repCount: 0,
+    formScore: 0,
+    feedback: null,
+    feedbackParts: [],
+    phaseStartTime: 0, // Set from the frame timestamp when the first phase starts
+    lastFeedbackTime: -Infinity,
+
+    leftElbowAngle: null,
+    rightElbowAngle: null,
+    leftShoulderAngle: null,
+    rightShoulderAngle: null,
+    leftHipAngle: null,
+    rightHipAngle: null,
+    leftKneeAngle: null,
+    rightKneeAngle: null,
+
+    angleSmoothing,
+    angleFilters: {},
+
+    view: createViewTracker(),
+
+    thresholds,
+
+    tempoPrescription,
+    elbowTrace: [],
+    traceFollowsRep: false,
+    lastRepTempo: null,
+    tempoCue: null,
+
+    phaseStartAngles: null,
+
+    repStartElbow: 180,
+    repTopElbow: 180,
+    repMaxShoulder: 0,
+    partialReps: [],
+
+    eccentricDropped: false,
+
+    setupStableStartTime: null,
+
+    formMeasures: createFormMeasures(),
+    rangeOfMotion: 100,
+    upperArmStability: 100,
+    symmetry: 100,
+    tempoControl: 100,
+    bodyStability: 100,
+  };
+}
+
+/** Back in the start position after a rep, counted or not: reset the rep-level tracking */
+function startNextRep(
+  state: BarbellCurlState,
+  angles: NonNullable<BarbellCurlState['phaseStartAngles']>,
+  currentTime: number
+): void {
+  state.phase = 'start';
+  state.phaseStartTime = currentTime;
+  state.repStartElbow = 180;
+  state.repTopElbow = 180;
+  state.repMaxShoulder = 0;
+  state.phaseStartAngles = angles;
+  state.setupStableStartTime = null;
+  state.eccentricDropped = false;
+  state.formMeasures = createFormMeasures();
+}
+
+/**
+ * Advance the barbell curl state machine by one frame.
+ *
+ * @param currentTime Frame timestamp in ms (from the camera or a replay source).
+ * All phase durations, tempo and anti-drop checks are measured against it.
+ */
+export function updateBarbellCurlState(
+  keypoints: Keypoint[],
+  currentState: BarbellCurlState,
+  currentTime: number
+): BarbellCurlState {
+  const smoothed = smoothJointAngles(calculateJointAngles(keypoints), currentState, currentTime);
+  const view = updateViewTracker(currentState.view, keypoints, currentTime);
+  const effective = getEffectiveAngles(smoothed.angles, view);
+
+  const newState: BarbellCurlState = {
+    ...currentState,
+    angleFilters: smoothed.filters,
+    view,
+    leftElbowAngle: effective.canAnalyze ? effective.leftElbow : null,
+    rightElbowAngle: effective.canAnalyze ? effective.rightElbow : null,
+    leftShoulderAngle: effective.canAnalyze ? effective.leftShoulder : null,
+    rightShoulderAngle: effective.canAnalyze ? effective.rightShoulder : null,
+    leftHipAngle: effective.canAnalyze ? effective.leftHip : null,
+    rightHipAngle: effective.canAnalyze ? effective.rightHip : null,
+    leftKneeAngle: effective.canAnalyze ? effective.leftKnee : null,
+    rightKneeAngle: effective.canAnalyze ? effective.rightKnee : null,
+  };
+
+  if (!effective.canAnalyze || !classifyExercise(effective)) {
+    return { ...newState, feedback: null, feedbackParts: [] };
+  }
+
+  const { leftElbow, rightElbow, leftShoulder, rightShoulder, leftHip, rightHip, leftKnee, rightKnee } = effective;
+
+  const meanElbow = (leftElbow + rightElbow) / 2;
+  const meanShoulder = (leftShoulder + rightShoulder) / 2;
+
+  if (currentState.phase !== 'idle') {
+    newState.elbowTrace = [...currentState.elbowTrace, { time: currentTime, elbow: meanElbow }]
+      .filter(sample => currentTime - sample.time <= MAX_TEMPO_TRACE_MS);
+  }
+
+  const phaseDurationMs = currentTime - currentState.phaseStartTime;
+  const { thresholds } = currentState;
+  const currentAngles = { leftElbow, rightElbow, leftShoulder, rightShoulder, leftHip, rightHip, leftKnee, rightKnee };
+  // Set when a rep ends without counting, so the user hears why
+  let rejection: RepRejection | null = null;
+
+  if (currentState.phase === 'concentric' || currentState.phase === 'top' || currentState.phase === 'eccentric') {
+    newState.formMeasures = measureRepForm(currentState.formMeasures, currentAngles, view);
+  }
+
+  // Phase transitions (Spec §2)
+  if (currentState.phase === 'idle') {
+    if (meanElbow >= thresholds.extendedElbow && meanElbow <= 180 && meanShoulder < 20) {
+      newState.phase = 'start';
+      newState.phaseStartTime = currentTime;
+      newState.phaseStartAngles = {
+        leftElbow,
+        rightElbow,
+        leftShoulder,
+        rightShoulder,
+        leftHip,
+        rightHip,
+        leftKnee,
+        rightKnee,
+      };
+      newState.setupStableStartTime = null;
+      newState.elbowTrace = [{ time: currentTime, elbow: meanElbow }];
+      newState.traceFollowsRep = false;
+    }
+  } else if (currentState.phase === 'start') {
+    newState.repMaxShoulder = Math.max(currentState.repMaxShoulder, meanShoulder);
+    if (phaseDurationMs >= SETUP_STABILITY_DURATION_MS && newState.phaseStartAngles) {
+      const meanHip = (leftHip + rightHip) / 2;
+      const meanKnee = (leftKnee + rightKnee) / 2;
+      const startMeanHip = (newState.phaseStartAngles.leftHip + newState.phaseStartAngles.rightHip) / 2;
+      const startMeanKnee = (newState.phaseStartAngles.leftKnee + newState.phaseStartAngles.rightKnee) / 2;
+      if (Math.abs(meanHip - startMeanHip) <= SETUP_STABILITY_TOLERANCE && Math.abs(meanKnee - startMeanKnee) <= SETUP_STABILITY_TOLERANCE) {
+        if (newState.setupStableStartTime === null) {
+          newState.setupStableStartTime = currentTime;
+        }
+      }
+    }
+    if (meanElbow < thresholds.concentricElbow && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      newState.phase = 'concentric';
+      newState.phaseStartTime = currentTime;
+      newState.repStartElbow = currentState.phaseStartAngles ? (currentState.phaseStartAngles.leftElbow + currentState.phaseStartAngles.rightElbow) / 2 : meanElbow;
+      newState.formMeasures = createFormMeasures(currentAngles);
+      newState.rangeOfMotion = 100;
+      newState.upperArmStability = 100;
+      newState.symmetry = 100;
+      newState.tempoControl = 100;
+      newState.bodyStability = 100;
+      newState.phaseStartAngles = {
+        leftElbow,
+        rightElbow,
+        leftShoulder,
+        rightShoulder,
+        leftHip,
+        rightHip,
+        leftKnee,
+        rightKnee,
+      };
+    }
+  } else if (currentState.phase === 'concentric') {
+    newState.repMaxShoulder = Math.max(currentState.repMaxShoulder, meanShoulder);
+    newState.repTopElbow = Math.min(currentState.repTopElbow, meanElbow);
+    // Lowered again without reaching the top: a partial rep
+    if (meanElbow >= thresholds.extendedElbow && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      const rangeOfMotion = getRepRangeOfMotion(newState);
+      rejection = { message: describeShortRep(rangeOfMotion), partial: true, parts: FOREARMS };
+      newState.partialReps = [...currentState.partialReps, { time: currentTime, rangeOfMotion, message: rejection.message }];
+      newState.elbowTrace = [{ time: currentTime, elbow: meanElbow }];
+      newState.traceFollowsRep = false;
+      startNextRep(newState, currentAngles, currentTime);
+    } else if (meanElbow <= thresholds.topElbow && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      newState.phase = 'top';
+      newState.phaseStartTime = currentTime;
+      newState.repTopElbow = meanElbow;
+      const startElbow = currentState.phaseStartAngles ? (currentState.phaseStartAngles.leftElbow + currentState.phaseStartAngles.rightElbow) / 2 : 180;
+      const rom = startElbow - meanElbow;
+      newState.rangeOfMotion = Math.min(100, Math.max(0, (rom / thresholds.fullRange) * 100));
+      newState.phaseStartAngles = {
+        leftElbow,
+        rightElbow,
+        leftShoulder,
+        rightShoulder,
+        leftHip,
+        rightHip,
+        leftKnee,
+        rightKnee,
+      };
+    }
+  } else if (currentState.phase === 'top') {
+    newState.repMaxShoulder = Math.max(currentState.repMaxShoulder, meanShoulder);
+    // The bar keeps rising after entering 'top' (topElbow), so validate the rep against its peak
+    newState.repTopElbow = Math.min(currentState.repTopElbow, meanElbow);
+    if (phaseDurationMs >= MIN_PHASE_DURATION_MS && meanElbow > thresholds.topExitElbow) {
+      newState.phase = 'eccentric';
+      newState.phaseStartTime = currentTime;
+      newState.phaseStartAngles = {
+        leftElbow,
+        rightElbow,
+        leftShoulder,
+        rightShoulder,
+        leftHip,
+        rightHip,
+        leftKnee,
+        rightKnee,
+      };
+    }
+  } else if (currentState.phase === 'eccentric') {
+    newState.repMaxShoulder = Math.max(currentState.repMaxShoulder, meanShoulder);
+    if (meanElbow >= thresholds.extendedElbow && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      rejection = getRepRejection(currentState);
+      if (!rejection) {
+        newState.repCount = currentState.repCount + 1;
+        newState.lastRepTempo = measureRepTempo(newState.elbowTrace, currentState.traceFollowsRep);
+        scoreRepForm(newState);
+        newState.formScore = calculateFormScore(newState);
+        if (newState.lastRepTempo) {
+          newState.tempoCue = newState.tempoPrescription
+            ? getTempoCue(newState.lastRepTempo, newState.tempoPrescription)
+            : getRepTempoCue(newState.lastRepTempo, currentState.eccentricDropped);
+        }
+      } else if (rejection.partial) {
+        newState.partialReps = [
+          ...currentState.partialReps,
+          { time: currentTime, rangeOfMotion: getRepRangeOfMotion(currentState), message: rejection.message },
+        ];
+      }
+      newState.elbowTrace = [{ time: currentTime, elbow: meanElbow }];
+      newState.traceFollowsRep = true;
+      startNextRep(newState, currentAngles, currentTime);
+    }
+  }
+
+  // A drop is a safety cue, so it goes ahead of the form checks
+  const feedbackResult: BarbellCurlFeedback | null = rejection
+    ? { message: rejection.message, priority: 2, parts: rejection.parts }
+    : checkAntiDrop(newState, meanElbow, currentTime) ?? generateFeedback(newState, effective, currentTime);
+  if (feedbackResult) {
+    newState.feedback = feedbackResult.message;
+    newState.feedbackParts = feedbackResult.parts;
+    newState.lastFeedbackTime = currentTime;
+    if (feedbackResult.message === ANTI_DROP_CUE) {
+      newState.eccentricDropped = true;
+    }
+    if (feedbackResult.message === newState.tempoCue) {
+      newState.tempoCue = null;
+    }
+  } else if (currentTime - newState.lastFeedbackTime > FEEDBACK_DURATION_MS) {
+    newState.feedback = null;
+    newState.feedbackParts = [];
+  }
+
+  return newState;
+}
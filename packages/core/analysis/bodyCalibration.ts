@@ -0,0 +1,266 @@
+/**
+ * Body Calibration
+ *
+ * A short guided routine (neutral stance, full elbow flexion, deep squat) that
+ * measures the user's limb lengths and comfortable range of motion. Analyzers
+ * use it to move their absolute angle thresholds onto the user's own range, so
+ * someone who can't fully straighten or bend a joint still gets reps counted.
+ *
+ * Like the analyzers, calibration is pure and timed from frame timestamps:
+ * feed every frame to updateCalibrationSession and read the result with
+ * summarizeCalibration once isCalibrationComplete returns true.
+ */
+
+import { Keypoint, calculateAngle, getKeypoint, isVisible } from './poseAnalysis';
+import { LandmarkSource } from './poseRecording';
+import { LandmarkName } from './skeleton';
+
+export const BODY_CALIBRATION_VERSION = 1;
+
+export type CalibrationStepId = 'neutral' | 'elbow-flexion' | 'squat';
+
+export type CalibrationStep = {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+};
+
+/** Steps in order. Each is held for CALIBRATION_SETTLE_MS + CALIBRATION_HOLD_MS. */
+export const CALIBRATION_STEPS: readonly CalibrationStep[] = [
+  { id: 'neutral', title: 'Neutral stance', instruction: 'Stand tall, side-on to the camera, arms straight at your sides.' },
+  { id: 'elbow-flexion', title: 'Full curl', instruction: 'Bend both elbows as far as is comfortable and hold.' },
+  { id: 'squat', title: 'Deep squat', instruction: 'Squat as deep as is comfortable and hold.' },
+];
+
+// Time to get into position before a step starts measuring, then how long it measures
+export const CALIBRATION_SETTLE_MS = 1500;
+export const CALIBRATION_HOLD_MS = 2000;
+
+const VISIBILITY_THRESHOLD = 0.5;
+
+export type LimbLengths = {
+  upperArm: number | null;
+  forearm: number | null;
+  torso: number | null;
+  thigh: number | null;
+  shin: number | null;
+};
+
+/** Comfortable end-of-range joint angles (degrees, both sides averaged) */
+export type RangeOfMotion = {
+  elbowExtension: number | null;
+  elbowFlexion: number | null;
+  hipFlexion: number | null;
+  kneeExtension: number | null;
+  kneeFlexion: number | null;
+};
+
+export type BodyCalibration = {
+  version: number;
+  calibratedAt: number; // Epoch ms
+  source: LandmarkSource; // 'world' lengths are metres; 'image' lengths are normalized
+  limbLengths: LimbLengths;
+  rom: RangeOfMotion;
+};
+
+type CalibrationSample = {
+  elbow: number | null;
+  hip: number | null;
+  knee: number | null;
+  lengths: LimbLengths;
+};
+
+export type CalibrationSession = {
+  stepIndex: number; // CALIBRATION_STEPS.length once complete
+  stepStartedAt: number | null; // Timestamp of the first usable frame of the step
+  samples: Record<CalibrationStepId, CalibrationSample[]>;
+};
+
+export function createCalibrationSession(): CalibrationSession {
+  return { stepIndex: 0, stepStartedAt: null, samples: { 'neutral': [], 'elbow-flexion': [], 'squat': [] } };
+}
+
+export function getCurrentCalibrationStep(session: CalibrationSession): CalibrationStep | null {
+  return CALIBRATION_STEPS[session.stepIndex] ?? null;
+}
+
+export function isCalibrationComplete(session: CalibrationSession): boolean {
+  return session.stepIndex >= CALIBRATION_STEPS.length;
+}
+
+/** Fraction of the current step done (0-1), for a progress bar */
+export function getCalibrationStepProgress(session: CalibrationSession, timestamp: number): number {
+  if (session.stepStartedAt === null) return 0;
+  return Math.min(1, Math.max(0, (timestamp - session.stepStartedAt) / (CALIBRATION_SETTLE_MS + CALIBRATION_HOLD_MS)));
+}
+
+const visible = (keypoints: Keypoint[], name: LandmarkName) => {
+  const keypoint = getKeypoint(keypoints, name);
+  return keypoint && isVisible(keypoint, VISIBILITY_THRESHOLD) ? keypoint : null;
+};
+
+const distance = (a: Keypoint, b: Keypoint) => Math.hypot(a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Mean of the left and right measurement, or whichever side is visible */
+function bothSides(measure: (side: 'left' | 'right') => number | null): number | null {
+  const values = [measure('left'), measure('right')].filter((value): value is number => value !== null);
+  return values.length > 0 ? mean(values) : null;
+}
+
+function sampleFrame(keypoints: Keypoint[]): CalibrationSample {
+  const angle = (a: string, b: string, c: string) => bothSides((side) => {
+    const pa = visible(keypoints, `${side}_${a}` as LandmarkName);
+    const pb = visible(keypoints, `${side}_${b}` as LandmarkName);
+    const pc = visible(keypoints, `${side}_${c}` as LandmarkName);
+    return pa && pb && pc ? calculateAngle(pa, pb, pc) : null;
+  });
+  const length = (a: string, b: string) => bothSides((side) => {
+    const pa = visible(keypoints, `${side}_${a}` as LandmarkName);
+    const pb = visible(keypoints, `${side}_${b}` as LandmarkName);
+    return pa && pb ? distance(pa, pb) : null;
+  });
+
+  return {
+    elbow: angle('shoulder', 'elbow', 'wrist'),
+    hip: angle('shoulder', 'hip', 'knee'),
+    knee: angle('hip', 'knee', 'ankle'),
+    lengths: {
+      upperArm: length('shoulder', 'elbow'),
+      forearm: length('elbow', 'wrist'),
+      torso: length('shoulder', 'hip'),
+      thigh: length('hip', 'knee'),
+      shin: length('knee', 'ankle'),
+    },
+  };
+}
+
+/** Whether a frame shows the joints the step measures */
+function isUsable(step: CalibrationStepId, sample: CalibrationSample): boolean {
+  switch (step) {
+    case 'neutral':
+      return sample.elbow !== null && sample.knee !== null;
+    case 'elbow-flexion':
+      return sample.elbow !== null;
+    case 'squat':
+      return sample.knee !== null && sample.hip !== null;
+  }
+}
+
+/**
+ * Feed one frame. The step's clock starts on its first usable frame; frames
+ * after the settle time are kept, and the session moves to the next step once
+ * the hold time has passed.
+ */
+export function updateCalibrationSession(
+  session: CalibrationSession,
+  keypoints: Keypoint[],
+  timestamp: number
+): CalibrationSession {
+  const step = getCurrentCalibrationStep(session);
+  if (!step) return session;
+
+  const sample = sampleFrame(keypoints);
+  if (!isUsable(step.id, sample)) return session;
+
+  if (session.stepStartedAt === null) {
+    return { ...session, stepStartedAt: timestamp };
+  }
+
+  const elapsed = timestamp - session.stepStartedAt;
+  if (elapsed >= CALIBRATION_SETTLE_MS + CALIBRATION_HOLD_MS) {
+    return { ...session, stepIndex: session.stepIndex + 1, stepStartedAt: null };
+  }
+  if (elapsed < CALIBRATION_SETTLE_MS) return session;
+
+  return {
+    ...session,
+    samples: { ...session.samples, [step.id]: [...session.samples[step.id], sample] },
+  };
+}
+
+/** Median of the non-null values, or null if there are none */
+function median(values: Array<number | null>): number | null {
+  const sorted = values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Build the calibration from a completed session. Medians over each hold keep
+ * a single bad frame from skewing the result.
+ */
+export function summarizeCalibration(
+  session: CalibrationSession,
+  source: LandmarkSource,
+  calibratedAt: number
+): BodyCalibration {
+  const { neutral, squat } = session.samples;
+  const flexion = session.samples['elbow-flexion'];
+  const lengthOf = (limb: keyof LimbLengths) => median(neutral.map(sample => sample.lengths[limb]));
+
+  return {
+    version: BODY_CALIBRATION_VERSION,
+    calibratedAt,
+    source,
+    limbLengths: {
+      upperArm: lengthOf('upperArm'),
+      forearm: lengthOf('forearm'),
+      torso: lengthOf('torso'),
+      thigh: lengthOf('thigh'),
+      shin: lengthOf('shin'),
+    },
+    rom: {
+      elbowExtension: median(neutral.map(sample => sample.elbow)),
+      elbowFlexion: median(flexion.map(sample => sample.elbow)),
+      hipFlexion: median(squat.map(sample => sample.hip)),
+      kneeExtension: median(neutral.map(sample => sample.knee)),
+      kneeFlexion: median(squat.map(sample => sample.knee)),
+    },
+  };
+}
+
+/** Range a joint's default thresholds were written for */
+export type JointRange = { extension: number; flexion: number };
+
+// End-of-range angles the analyzers' default thresholds assume
+export const REFERENCE_ROM: Record<'elbow' | 'knee', JointRange> = {
+  elbow: { extension: 178, flexion: 40 },
+  knee: { extension: 178, flexion: 70 },
+};
+
+// A calibrated range narrower than this is a bad measurement, not a joint
+const MIN_CALIBRATED_RANGE = 40;
+
+/** The user's comfortable range for a joint, or null when it wasn't measured */
+export function getCalibratedRange(calibration: BodyCalibration | null | undefined, joint: 'elbow' | 'knee'): JointRange | null {
+  if (!calibration) return null;
+  const extension = joint === 'elbow' ? calibration.rom.elbowExtension : calibration.rom.kneeExtension;
+  const flexion = joint === 'elbow' ? calibration.rom.elbowFlexion : calibration.rom.kneeFlexion;
+  if (extension === null || flexion === null || extension - flexion < MIN_CALIBRATED_RANGE) return null;
+  return { extension, flexion };
+}
+
+/**
+ * Move an angle threshold from the reference range onto the user's range,
+ * keeping its relative position between flexion and extension.
+ */
+export function scaleAngleToRange(angle: number, reference: JointRange, personal: JointRange): number {
+  const position = (angle - reference.flexion) / (reference.extension - reference.flexion);
+  return personal.flexion + position * (personal.extension - personal.flexion);
+}
+
+/**
+ * Personalize a threshold the user must extend past: never stricter than the
+ * default, so a calibration can only make a position easier to reach.
+ */
+export function personalizeExtensionThreshold(angle: number, reference: JointRange, personal: JointRange | null): number {
+  return personal ? Math.min(angle, scaleAngleToRange(angle, reference, personal)) : angle;
+}
+
+/** Personalize a threshold the user must flex below (see personalizeExtensionThreshold) */
+export function personalizeFlexionThreshold(angle: number, reference: JointRange, personal: JointRange | null): number {
+  return personal ? Math.max(angle, scaleAngleToRange(angle, reference, personal)) : angle;
+}
@@ -0,0 +1,787 @@
+/**
+ * Exercise Analyzer Registry
+ *
+ * Common interface for per-exercise pose analyzers and a registry keyed by
+ * exercise catalog id (see ChooseExerciseScreen). The camera screen looks up
+ * the analyzer for the selected exercise, so new exercises can be supported by
+ * registering an analyzer here without touching the screen.
+ */
+
+import {
+  Keypoint,
+  PoseAnalysisSession,
+  createPoseAnalysisSession,
+  detectBicepCurl,
+  detectExercise,
+  detectLunge,
+  detectPushup,
+  DEFAULT_REP_THRESHOLDS,
+  RepDip,
+  RepThresholds,
+  trackPartialRep,
+  updateRepCount,
+} from './poseAnalysis';
+import {
+  BarbellCurlState,
+  getFormScoreComponents,
+  initializeBarbellCurlState,
+  personalizeBarbellCurlThresholds,
+  updateBarbellCurlState,
+} from './barbellCurlAnalysis';
+import {
+  SquatState,
+  getSquatFormScoreComponents,
+  initializeSquatState,
+  personalizeSquatThresholds,
+  updateSquatState,
+} from './squatAnalysis';
+import {
+  BodyCalibration,
+  JointRange,
+  REFERENCE_ROM,
+  getCalibratedRange,
+  personalizeExtensionThreshold,
+  personalizeFlexionThreshold,
+} from './bodyCalibration';
+import { LandmarkFilterState, filterKeypoints, getSmoothingPreset } from './signalFilters';
+import { BodyPart, BodySide, LandmarkName } from './skeleton';
+import { CameraView, ViewTracker, createViewTracker, getPlacementHint, updateViewTracker } from './viewingAngle';
+import {
+  SetVelocity,
+  VelocityTracker,
+  completeVelocityRep,
+  createVelocityTracker,
+  summarizeVelocity,
+  updateVelocityTracker,
+} from './velocityMetrics';
+import { RepTempo, SetTempo, TempoPrescription, summarizeTempo } from './tempoAnalysis';
+import {
+  PartialRep,
+  RepRecord,
+  RepRecorder,
+  completeRepRecord,
+  createRepRecorder,
+  describeShortRep,
+  getTrackingConfidence,
+  updateRepRecorder,
+} from './repRecords';
+import {
+  BODY_SIDES,
+  SideCounter,
+  UnilateralRep,
+  UnilateralSummary,
+  countRepsBySide,
+  createSideCounter,
+  deepenLastRep,
+  summarizeSides,
+  updateSideCounter,
+} from './unilateralAnalysis';
+
+export type JointAngles = {
+  leftElbow: number | null;
+  rightElbow: number | null;
+  leftShoulder: number | null;
+  rightShoulder: number | null;
+  leftHip: number | null;
+  rightHip: number | null;
+  leftKnee: number | null;
+  rightKnee: number | null;
+};
+
+/** Live values the camera HUD needs after each frame */
+export interface ExerciseAnalyzerOutput {
+  repCount: number;
+  phase: string;
+  formScore: number | null; // Score of the last completed rep
+  feedback: string | null;
+  faultyParts: BodyPart[]; // Body parts the feedback is about, highlighted by PoseOverlay
+  exerciseName: string | null; // Exercise currently being tracked (auto-detect may change it)
+  jointAngles: JointAngles | null; // Only provided by analyzers with a debug angle readout
+  cameraView: CameraView; // Which way the athlete is turned to the camera (see viewingAngle.ts)
+  placementHint: string | null; // Set when the camera has been in the wrong place for this exercise
+  velocity: SetVelocity | null; // Bar speed of the counted reps (see velocityMetrics.ts), from analyzers that track it
+  tempo: SetTempo | null; // Phase timing of the counted reps, from analyzers that track rep phases
+  partialRepCount: number; // Reps started but not counted (see ExerciseSetSummary.partialReps)
+  sides: Record<BodySide, number> | null; // Reps counted on each side, from unilateral analyzers
+}
+
+/** End-of-set summary used when logging the set */
+export interface ExerciseSetSummary {
+  reps: number;
+  formScores: number[];
+  avgFormScore: number;
+  velocity: SetVelocity | null;
+  tempo: SetTempo | null;
+  repRecords: RepRecord[]; // Rep-by-rep breakdown (see repRecords.ts)
+  partialReps: PartialRep[]; // Reps started but not counted, with why
+  unilateral: UnilateralSummary | null; // Per-side reps and imbalance, from unilateral analyzers (see unilateralAnalysis.ts)
+}
+
+/**
+ * A pose analyzer for one exercise. State is owned by the caller and passed
+ * back into update() on every frame. Analyzers never read the wall clock: all
+ * timing comes from the frame timestamp (ms), so replays at any speed give the
+ * same results as the live session. Passing the user's body calibration to
+ * createState() personalizes the analyzer's angle thresholds; passing a
+ * prescribed tempo scores and cues each rep against it (when tracksTempo is
+ * set; other analyzers ignore it).
+ *
+ * Analyzers only use landmarks listed in requiredLandmarks, so any pose model
+ * whose skeleton provides them can drive the analyzer (see skeleton.ts).
+ */
+export interface ExerciseAnalyzer<TState = unknown> {
+  id: string;
+  name: string;
+  requiredLandmarks: readonly LandmarkName[];
+  tracksTempo: boolean; // Whether a prescribed tempo is scored and cued
+  createState(calibration?: BodyCalibration | null, tempo?: TempoPrescription | null): TState;
+  update(state: TState, keypoints: Keypoint[], timestamp: number): TState;
+  getOutput(state: TState): ExerciseAnalyzerOutput;
+  summarizeSet(state: TState): ExerciseSetSummary;
+}
+
+/**
+ * Build a set summary from per-rep form scores, the set's bar velocity, its tempo, rep records, partial reps
+ * and, for unilateral analyzers, the per-side summary
+ */
+export function summarizeRepScores(
+  formScores: number[],
+  velocity: VelocityTracker | null,
+  tempo: SetTempo | null,
+  records: RepRecorder,
+  partialReps: PartialRep[],
+  unilateral: UnilateralSummary | null = null
+): ExerciseSetSummary {
+  const avgFormScore = formScores.length > 0
+    ? Math.round(formScores.reduce((a, b) => a + b, 0) / formScores.length)
+    : 0;
+  return {
+    reps: formScores.length,
+    formScores,
+    avgFormScore,
+    velocity: velocity ? summarizeVelocity(velocity) : null,
+    tempo,
+    repRecords: records.reps,
+    partialReps,
+    unilateral,
+  };
+}
+
+const ARM_LANDMARKS: LandmarkName[] = [
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+];
+const LEG_LANDMARKS: LandmarkName[] = [
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+];
+const FULL_BODY_LANDMARKS: LandmarkName[] = [...ARM_LANDMARKS, ...LEG_LANDMARKS];
+
+type GenericExercise = 'Bicep Curl' | 'Push-up' | 'Squat';
+
+type GenericDetection = {
+  exercise: GenericExercise | null;
+  angle: number | null;
+};
+
+type GenericAnalyzerState = {
+  session: PoseAnalysisSession; // Detector smoothing and history, owned by this set
+  landmarkFilters: LandmarkFilterState;
+  view: ViewTracker;
+  velocity: VelocityTracker;
+  records: RepRecorder;
+  repThresholds: Record<GenericExercise, RepThresholds>;
+  exercise: GenericExercise | null;
+  phase: 'up' | 'down' | 'idle';
+  repCount: number;
+  formScore: number | null;
+  repScores: number[];
+  repDip: RepDip | null; // Joint dip while waiting for a rep, for partial rep detection
+  // A partial rep is measured against the deepest counted rep, or the joint's full range before one
+  deepestRep: number | null;
+  jointRanges: Record<'elbow' | 'knee', JointRange>;
+  partialReps: PartialRep[];
+  feedback: string | null; // Partial rep explanation, shown for PARTIAL_REP_FEEDBACK_MS
+  feedbackTime: number;
+};
+
+// How long a partial rep's explanation stays on screen
+const PARTIAL_REP_FEEDBACK_MS = 2000;
+
+// Joint whose range each generic exercise's thresholds are on
+const GENERIC_EXERCISE_JOINTS: Record<GenericExercise, 'elbow' | 'knee'> = {
+  'Bicep Curl': 'elbow',
+  'Push-up': 'elbow',
+  'Squat': 'knee',
+};
+
+/** An exercise's updateRepCount thresholds moved onto the user's calibrated range of the joint (defaults without one) */
+function personalizeThresholds(
+  calibration: BodyCalibration | null | undefined,
+  exercise: keyof typeof DEFAULT_REP_THRESHOLDS,
+  joint: 'elbow' | 'knee'
+): RepThresholds {
+  const range = getCalibratedRange(calibration, joint);
+  const { extended, flexed } = DEFAULT_REP_THRESHOLDS[exercise];
+  return {
+    extended: personalizeExtensionThreshold(extended, REFERENCE_ROM[joint], range),
+    flexed: personalizeFlexionThreshold(flexed, REFERENCE_ROM[joint], range),
+  };
+}
+
+function personalizeRepThresholds(calibration: BodyCalibration | null | undefined): Record<GenericExercise, RepThresholds> {
+  const personalize = (exercise: GenericExercise) => personalizeThresholds(calibration, exercise, GENERIC_EXERCISE_JOINTS[exercise]);
+  return { 'Bicep Curl': personalize('Bicep Curl'), 'Push-up': personalize('Push-up'), 'Squat': personalize('Squat') };
+}
+
+/**
+ * Wrap an angle-based detector from poseAnalysis.ts with the updateRepCount state machine.
+ * Landmark and angle smoothing come from the analyzer's preset in signalFilters.ts.
+ */
+function createGenericAnalyzer(
+  id: string,
+  name: string,
+  requiredLandmarks: readonly LandmarkName[],
+  detect: (keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number) => GenericDetection
+): ExerciseAnalyzer<GenericAnalyzerState> {
+  const smoothing = getSmoothingPreset(id);
+  return {
+    id,
+    name,
+    requiredLandmarks,
+    tracksTempo: false,
+    createState: (calibration) => ({
+      session: createPoseAnalysisSession(smoothing.angles),
+      landmarkFilters: {},
+      view: createViewTracker(),
+      velocity: createVelocityTracker(calibration),
+      records: createRepRecorder(),
+      repThresholds: personalizeRepThresholds(calibration),
+      exercise: null,
+      phase: 'idle',
+      repCount: 0,
+      formScore: null,
+      repScores: [],
+      repDip: null,
+      deepestRep: null,
+      jointRanges: {
+        elbow: getCalibratedRange(calibration, 'elbow') ?? REFERENCE_ROM.elbow,
+        knee: getCalibratedRange(calibration, 'knee') ?? REFERENCE_ROM.knee,
+      },
+      partialReps: [],
+      feedback: null,
+      feedbackTime: 0,
+    }),
+    update: (state, rawKeypoints, timestamp) => {
+      if (state.feedback && timestamp - state.feedbackTime > PARTIAL_REP_FEEDBACK_MS) {
+        state = { ...state, feedback: null };
+      }
+      const smoothed = filterKeypoints(smoothing.landmarks, state.landmarkFilters, rawKeypoints, timestamp);
+      state = { ...state, view: updateViewTracker(state.view, smoothed.keypoints, timestamp) };
+      if (smoothed.state !== state.landmarkFilters) {
+        state = { ...state, landmarkFilters: smoothed.state };
+      }
+      const detection = detect(smoothed.keypoints, state.session, timestamp);
+      state = { ...state, velocity: updateVelocityTracker(state.velocity, smoothed.keypoints, detection.exercise, timestamp) };
+
+      if (!detection.exercise || detection.angle === null) {
+        // No exercise detected - reset
+        return state.exercise === null ? state : { ...state, exercise: null, phase: 'idle' };
+      }
+
+      // Exercise changed: restart the rep state machine on the next frame
+      if (detection.exercise !== state.exercise) {
+        return { ...state, exercise: detection.exercise, phase: 'idle' };
+      }
+
+      const thresholds = state.repThresholds[detection.exercise];
+      const repUpdate = updateRepCount(detection.exercise, detection.angle, state.phase, state.repCount, thresholds);
+
+      const partial = trackPartialRep(state.repDip, detection.angle, repUpdate.phase, thresholds);
+      state = { ...state, repDip: partial.dip };
+      if (repUpdate.phase === 'down' && (state.deepestRep === null || detection.angle < state.deepestRep)) {
+        state = { ...state, deepestRep: detection.angle };
+      }
+      if (partial.partialRep) {
+        const { from, lowest } = partial.partialRep;
+        const fullFlexion = state.deepestRep ?? state.jointRanges[GENERIC_EXERCISE_JOINTS[detection.exercise]].flexion;
+        const rangeOfMotion = Math.min(100, Math.max(0, ((from - lowest) / (from - fullFlexion)) * 100));
+        const message = describeShortRep(rangeOfMotion);
+        state = {
+          ...state,
+          partialReps: [...state.partialReps, { time: timestamp, rangeOfMotion, message }],
+          feedback: message,
+          feedbackTime: timestamp,
+        };
+      }
+
+      const records = updateRepRecorder(state.records, {
+        timestamp,
+        angles: { [GENERIC_EXERCISE_JOINTS[detection.exercise]]: detection.angle },
+        feedback: state.feedback,
+        faultyParts: [],
+        confidence: getTrackingConfidence(rawKeypoints, requiredLandmarks),
+      });
+      state = { ...state, records };
+      if (repUpdate.repCount > state.repCount) {
+        return {
+          ...state,
+          phase: repUpdate.phase,
+          repCount: repUpdate.repCount,
+          formScore: repUpdate.formScore,
+          repScores: [...state.repScores, repUpdate.formScore],
+          records: completeRepRecord(records, timestamp, repUpdate.formScore, null),
+        };
+      }
+      // Reps count at the flexed position; the concentric phase is over once the joint is extended again
+      if (state.phase === 'down' && repUpdate.phase === 'up') {
+        return { ...state, phase: repUpdate.phase, velocity: completeVelocityRep(state.velocity) };
+      }
+      return repUpdate.phase === state.phase ? state : { ...state, phase: repUpdate.phase };
+    },
+    getOutput: (state) => ({
+      repCount: state.repCount,
+      phase: state.phase,
+      formScore: state.formScore,
+      feedback: state.feedback,
+      faultyParts: [],
+      exerciseName: state.exercise,
+      jointAngles: null,
+      cameraView: state.view.view,
+      placementHint: getPlacementHint(id, state.view),
+      velocity: summarizeVelocity(state.velocity),
+      tempo: null,
+      partialRepCount: state.partialReps.length,
+      sides: null,
+    }),
+    summarizeSet: (state) => summarizeRepScores(state.repScores, state.velocity, null, state.records, state.partialReps),
+  };
+}
+
+/** Detects bicep curls, push-ups and squats and counts reps for whichever is seen */
+export const autoDetectAnalyzer = createGenericAnalyzer('auto-detect', 'Auto Detect', FULL_BODY_LANDMARKS, (keypoints, session, timestamp) => {
+  const detection = detectExercise(keypoints, session, timestamp);
+  return { exercise: detection.exercise, angle: detection.angle };
+});
+
+export const bicepCurlAnalyzer = createGenericAnalyzer('bicep-curl', 'Bicep Curl', ARM_LANDMARKS, (keypoints, session, timestamp) => {
+  const detection = detectBicepCurl(keypoints, session, timestamp);
+  return { exercise: detection.detected ? 'Bicep Curl' : null, angle: detection.angle };
+});
+
+export const pushupAnalyzer = createGenericAnalyzer('push-up', 'Push-up', [...ARM_LANDMARKS, 'left_hip', 'right_hip'], (keypoints, session, timestamp) => {
+  const detection = detectPushup(keypoints, session, timestamp);
+  return { exercise: detection.detected ? 'Push-up' : null, angle: detection.angle };
+});
+
+type UnilateralExercise = 'Bicep Curl' | 'Lunge';
+
+type UnilateralDetection = {
+  angles: Record<BodySide, number | null>; // Null for a side that isn't doing the exercise
+  lead: BodySide | null; // Working side, for exercises whose sides share a rep
+};
+
+type UnilateralConfig = {
+  exercise: UnilateralExercise;
+  joint: 'elbow' | 'knee';
+  limb: string; // Named in partial rep messages, e.g. 'left arm'
+  sharedRep: boolean; // Both sides feed one rep, credited to the lead side
+};
+
+type UnilateralAnalyzerState = {
+  session: PoseAnalysisSession;
+  landmarkFilters: LandmarkFilterState;
+  view: ViewTracker;
+  records: RepRecorder;
+  thresholds: RepThresholds;
+  jointRange: JointRange; // Full range for partial reps before a rep has counted
+  counters: Record<BodySide, SideCounter>; // One per side, unless sharedRep
+  sharedCounter: SideCounter; // Only with sharedRep
+  reps: UnilateralRep[];
+  formScore: number | null;
+  partialReps: PartialRep[];
+  feedback: string | null; // Partial rep explanation, shown for PARTIAL_REP_FEEDBACK_MS
+  feedbackTime: number;
+};
+
+/**
+ * Count reps for each side separately (see unilateralAnalysis.ts). Each side
+ * runs the updateRepCount state machine on its own joint angle, or with
+ * sharedRep both sides run one on the more flexed joint and each rep is
+ * credited to the lead side.
+ */
+function createUnilateralAnalyzer(
+  id: string,
+  name: string,
+  requiredLandmarks: readonly LandmarkName[],
+  config: UnilateralConfig,
+  detect: (keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number) => UnilateralDetection
+): ExerciseAnalyzer<UnilateralAnalyzerState> {
+  const smoothing = getSmoothingPreset(id);
+  const jointName = (side: BodySide) => `${side}${config.joint === 'elbow' ? 'Elbow' : 'Knee'}`;
+
+  return {
+    id,
+    name,
+    requiredLandmarks,
+    tracksTempo: false,
+    createState: (calibration) => ({
+      session: createPoseAnalysisSession(smoothing.angles),
+      landmarkFilters: {},
+      view: createViewTracker(),
+      records: createRepRecorder(),
+      thresholds: personalizeThresholds(calibration, config.exercise, config.joint),
+      jointRange: getCalibratedRange(calibration, config.joint) ?? REFERENCE_ROM[config.joint],
+      counters: { left: createSideCounter(), right: createSideCounter() },
+      sharedCounter: createSideCounter(),
+      reps: [],
+      formScore: null,
+      partialReps: [],
+      feedback: null,
+      feedbackTime: 0,
+    }),
+    update: (state, rawKeypoints, timestamp) => {
+      if (state.feedback && timestamp - state.feedbackTime > PARTIAL_REP_FEEDBACK_MS) {
+        state = { ...state, feedback: null };
+      }
+      const smoothed = filterKeypoints(smoothing.landmarks, state.landmarkFilters, rawKeypoints, timestamp);
+      state = { ...state, view: updateViewTracker(state.view, smoothed.keypoints, timestamp) };
+      if (smoothed.state !== state.landmarkFilters) {
+        state = { ...state, landmarkFilters: smoothed.state };
+      }
+      const { angles, lead } = detect(smoothed.keypoints, state.session, timestamp);
+
+      let { reps, formScore, partialReps, feedback, feedbackTime } = state;
+      const counted: UnilateralRep[] = [];
+
+      // Advance one rep state machine and credit what it finds to a side
+      const step = (counter: SideCounter, side: BodySide, angle: number): SideCounter => {
+        const result = updateSideCounter(counter, config.exercise, angle, state.thresholds);
+        if (result.formScore !== null) {
+          const rep = { side, formScore: result.formScore, depth: angle };
+          counted.push(rep);
+          reps = [...reps, rep];
+          formScore = result.formScore;
+        } else if (result.counter.phase === 'down') {
+          reps = deepenLastRep(reps, side, angle);
+        }
+        if (result.partialRep) {
+          const { from, lowest } = result.partialRep;
+          const fullFlexion = counter.deepestRep ?? state.jointRange.flexion;
+          const rangeOfMotion = Math.min(100, Math.max(0, ((from - lowest) / (from - fullFlexion)) * 100));
+          const message = describeShortRep(rangeOfMotion, `${side} ${config.limb}`);
+          partialReps = [...partialReps, { time: timestamp, rangeOfMotion, message, side }];
+          feedback = message;
+          feedbackTime = timestamp;
+        }
+        return result.counter;
+      };
+
+      let { counters, sharedCounter } = state;
+      if (config.sharedRep) {
+        const working = BODY_SIDES.filter(side => angles[side] !== null);
+        if (working.length === 0 || lead === null) {
+          // Not detected - reset
+          sharedCounter = sharedCounter.phase === 'idle' ? sharedCounter : { ...sharedCounter, phase: 'idle' };
+        } else {
+          const angle = Math.min(...working.map(side => angles[side]!));
+          // Past the count, depth belongs to the side that counted the rep even if the lead flips
+          const side = sharedCounter.phase === 'down' && reps.length > 0 ? reps[reps.length - 1].side : lead;
+          sharedCounter = step(sharedCounter, side, angle);
+        }
+      } else {
+        counters = { ...counters };
+        for (const side of BODY_SIDES) {
+          const angle = angles[side];
+          if (angle === null) {
+            counters[side] = counters[side].phase === 'idle' ? counters[side] : { ...counters[side], phase: 'idle' };
+          } else {
+            counters[side] = step(counters[side], side, angle);
+          }
+        }
+      }
+
+      let records = state.records;
+      if (BODY_SIDES.some(side => angles[side] !== null)) {
+        records = updateRepRecorder(records, {
+          timestamp,
+          angles: { [jointName('left')]: angles.left, [jointName('right')]: angles.right },
+          feedback,
+          faultyParts: [],
+          confidence: getTrackingConfidence(rawKeypoints, requiredLandmarks),
+        });
+      }
+      for (const rep of counted) {
+        records = completeRepRecord(records, timestamp, rep.formScore, null, rep.side);
+      }
+
+      return { ...state, counters, sharedCounter, reps, formScore, partialReps, feedback, feedbackTime, records };
+    },
+    getOutput: (state) => {
+      const phases = config.sharedRep
+        ? [state.sharedCounter.phase]
+        : BODY_SIDES.map(side => state.counters[side].phase);
+      return {
+        repCount: state.reps.length,
+        // A side mid-rep is the phase to show; either side ready means ready
+        phase: phases.includes('down') ? 'down' : phases.includes('up') ? 'up' : 'idle',
+        formScore: state.formScore,
+        feedback: state.feedback,
+        faultyParts: [],
+        exerciseName: name,
+        jointAngles: null,
+        cameraView: state.view.view,
+        placementHint: getPlacementHint(id, state.view),
+        velocity: null, // Bar velocity isn't tracked per side
+        tempo: null,
+        partialRepCount: state.partialReps.length,
+        sides: countRepsBySide(state.reps),
+      };
+    },
+    summarizeSet: (state) => summarizeRepScores(
+      state.reps.map(rep => rep.formScore),
+      null,
+      null,
+      state.records,
+      state.partialReps,
+      summarizeSides(state.reps)
+    ),
+  };
+}
+
+/** Counts each arm's curls separately, for single-arm and alternating curls */
+export const unilateralCurlAnalyzer = createUnilateralAnalyzer(
+  'unilateral-curl',
+  'Single-Arm Curl',
+  ARM_LANDMARKS,
+  { exercise: 'Bicep Curl', joint: 'elbow', limb: 'arm', sharedRep: false },
+  (keypoints, session, timestamp) => {
+    const detection = detectBicepCurl(keypoints, session, timestamp);
+    return { angles: { left: detection.leftAngle, right: detection.rightAngle }, lead: null };
+  }
+);
+
+/** Counts lunges, split squats and step-ups, crediting each rep to the lead leg */
+export const lungeAnalyzer = createUnilateralAnalyzer(
+  'lunge',
+  'Lunge',
+  [...LEG_LANDMARKS, 'left_shoulder', 'right_shoulder'],
+  { exercise: 'Lunge', joint: 'knee', limb: 'leg', sharedRep: true },
+  (keypoints, session, timestamp) => {
+    const detection = detectLunge(keypoints, session, timestamp);
+    return { angles: { left: detection.leftAngle, right: detection.rightAngle }, lead: detection.lead };
+  }
+);
+
+type BarbellCurlAnalyzerState = {
+  curl: BarbellCurlState;
+  landmarkFilters: LandmarkFilterState;
+  velocity: VelocityTracker;
+  repScores: number[];
+  repTempos: RepTempo[];
+  records: RepRecorder;
+};
+
+const barbellCurlSmoothing = getSmoothingPreset('barbell-curl');
+
+const getCurlJointAngles = (curl: BarbellCurlState): JointAngles => ({
+  leftElbow: curl.leftElbowAngle,
+  rightElbow: curl.rightElbowAngle,
+  leftShoulder: curl.leftShoulderAngle,
+  rightShoulder: curl.rightShoulderAngle,
+  leftHip: curl.leftHipAngle,
+  rightHip: curl.rightHipAngle,
+  leftKnee: curl.leftKneeAngle,
+  rightKnee: curl.rightKneeAngle,
+});
+
+export const barbellCurlAnalyzer: ExerciseAnalyzer<BarbellCurlAnalyzerState> = {
+  id: 'barbell-curl',
+  name: 'Barbell Curl',
+  requiredLandmarks: FULL_BODY_LANDMARKS,
+  tracksTempo: true,
+  createState: (calibration, tempo) => ({
+    curl: initializeBarbellCurlState(barbellCurlSmoothing.angles, personalizeBarbellCurlThresholds(calibration), tempo ?? null),
+    landmarkFilters: {},
+    velocity: createVelocityTracker(calibration),
+    repScores: [],
+    repTempos: [],
+    records: createRepRecorder(),
+  }),
+  update: (state, rawKeypoints, timestamp) => {
+    const smoothed = filterKeypoints(barbellCurlSmoothing.landmarks, state.landmarkFilters, rawKeypoints, timestamp);
+    const curl = updateBarbellCurlState(smoothed.keypoints, state.curl, timestamp);
+    const repCounted = curl.repCount > state.curl.repCount;
+    const velocity = updateVelocityTracker(state.velocity, smoothed.keypoints, 'Barbell Curl', timestamp);
+    // Reps are recorded from the setup position on
+    const records = curl.phase === 'idle' ? state.records : updateRepRecorder(state.records, {
+      timestamp,
+      angles: getCurlJointAngles(curl),
+      feedback: curl.feedback,
+      faultyParts: curl.feedbackParts,
+      confidence: getTrackingConfidence(rawKeypoints, FULL_BODY_LANDMARKS),
+    });
+    return {
+      curl,
+      landmarkFilters: smoothed.state,
+      velocity: repCounted ? completeVelocityRep(velocity) : velocity,
+      repScores: repCounted ? [...state.repScores, curl.formScore] : state.repScores,
+      repTempos: repCounted && curl.lastRepTempo ? [...state.repTempos, curl.lastRepTempo] : state.repTempos,
+      records: repCounted ? completeRepRecord(records, timestamp, curl.formScore, getFormScoreComponents(curl)) : records,
+    };
+  },
+  getOutput: ({ curl, velocity, repTempos }) => ({
+    repCount: curl.repCount,
+    phase: curl.phase,
+    formScore: curl.formScore > 0 ? curl.formScore : null,
+    feedback: curl.feedback,
+    faultyParts: curl.feedbackParts,
+    exerciseName: 'Barbell Curl',
+    jointAngles: getCurlJointAngles(curl),
+    cameraView: curl.view.view,
+    placementHint: getPlacementHint('barbell-curl', curl.view),
+    velocity: summarizeVelocity(velocity),
+    tempo: summarizeTempo(repTempos, curl.tempoPrescription),
+    partialRepCount: curl.partialReps.length,
+    sides: null,
+  }),
+  summarizeSet: (state) => summarizeRepScores(
+    state.repScores,
+    state.velocity,
+    summarizeTempo(state.repTempos, state.curl.tempoPrescription),
+    state.records,
+    state.curl.partialReps
+  ),
+};
+
+type SquatAnalyzerState = {
+  squat: SquatState;
+  landmarkFilters: LandmarkFilterState;
+  velocity: VelocityTracker;
+  repScores: number[];
+  records: RepRecorder;
+};
+
+const squatSmoothing = getSmoothingPreset('squat');
+
+const SQUAT_BODY_LANDMARKS: LandmarkName[] = ['left_shoulder', 'right_shoulder', ...LEG_LANDMARKS];
+// Heels and toes are optional: without them (MoveNet) heel lift and knee travel go unchecked
+const SQUAT_LANDMARKS: LandmarkName[] = [
+  ...SQUAT_BODY_LANDMARKS, 'left_heel', 'right_heel', 'left_foot_index', 'right_foot_index',
+];
+
+const getSquatJointAngles = ({ signals }: SquatState): JointAngles => ({
+  leftElbow: null,
+  rightElbow: null,
+  leftShoulder: null,
+  rightShoulder: null,
+  leftHip: signals.leftHip,
+  rightHip: signals.rightHip,
+  leftKnee: signals.leftKnee,
+  rightKnee: signals.rightKnee,
+});
+
+export const squatAnalyzer: ExerciseAnalyzer<SquatAnalyzerState> = {
+  id: 'squat',
+  name: 'Squat',
+  requiredLandmarks: SQUAT_LANDMARKS,
+  tracksTempo: false,
+  createState: (calibration) => ({
+    squat: initializeSquatState(squatSmoothing.angles, personalizeSquatThresholds(calibration)),
+    landmarkFilters: {},
+    velocity: createVelocityTracker(calibration),
+    repScores: [],
+    records: createRepRecorder(),
+  }),
+  update: (state, rawKeypoints, timestamp) => {
+    const smoothed = filterKeypoints(squatSmoothing.landmarks, state.landmarkFilters, rawKeypoints, timestamp);
+    const squat = updateSquatState(smoothed.keypoints, state.squat, timestamp);
+    const repCounted = squat.repCount > state.squat.repCount;
+    const velocity = updateVelocityTracker(state.velocity, smoothed.keypoints, 'Squat', timestamp);
+    // Reps are recorded from standing on
+    const records = squat.phase === 'idle' ? state.records : updateRepRecorder(state.records, {
+      timestamp,
+      angles: getSquatJointAngles(squat),
+      feedback: squat.feedback,
+      faultyParts: squat.feedbackParts,
+      confidence: getTrackingConfidence(rawKeypoints, SQUAT_BODY_LANDMARKS),
+    });
+    return {
+      squat,
+      landmarkFilters: smoothed.state,
+      // Reps count once standing again, which ends the concentric
+      velocity: repCounted ? completeVelocityRep(velocity) : velocity,
+      repScores: repCounted ? [...state.repScores, squat.formScore] : state.repScores,
+      records: repCounted ? completeRepRecord(records, timestamp, squat.formScore, getSquatFormScoreComponents(squat)) : records,
+    };
+  },
+  getOutput: ({ squat, velocity }) => ({
+    repCount: squat.repCount,
+    phase: squat.phase,
+    formScore: squat.formScore > 0 ? squat.formScore : null,
+    feedback: squat.feedback,
+    faultyParts: squat.feedbackParts,
+    exerciseName: 'Squat',
+    jointAngles: getSquatJointAngles(squat),
+    cameraView: squat.view.view,
+    placementHint: getPlacementHint('squat', squat.view),
+    velocity: summarizeVelocity(velocity),
+    tempo: null,
+    partialRepCount: squat.partialReps.length,
+    sides: null,
+  }),
+  summarizeSet: (state) => summarizeRepScores(state.repScores, state.velocity, null, state.records, state.squat.partialReps),
+};
+
+// Analyzers by exercise catalog id
+const analyzerRegistry: Record<string, ExerciseAnalyzer> = {};
+// Per-side analyzers for exercises that can also be done one side at a time
+const unilateralRegistry: Record<string, ExerciseAnalyzer> = {};
+
+/**
+ * Register an analyzer for one or more exercise catalog ids
+ */
+export function registerExerciseAnalyzer(catalogIds: string | string[], analyzer: ExerciseAnalyzer): void {
+  const ids = Array.isArray(catalogIds) ? catalogIds : [catalogIds];
+  for (const id of ids) {
+    analyzerRegistry[id] = analyzer;
+  }
+}
+
+export function hasExerciseAnalyzer(catalogId: string): boolean {
+  return catalogId in analyzerRegistry;
+}
+
+/**
+ * Register the analyzer that counts each side separately for exercises
+ * usually done with both sides at once (see hasUnilateralMode)
+ */
+export function registerUnilateralAnalyzer(catalogIds: string | string[], analyzer: ExerciseAnalyzer): void {
+  const ids = Array.isArray(catalogIds) ? catalogIds : [catalogIds];
+  for (const id of ids) {
+    unilateralRegistry[id] = analyzer;
+  }
+}
+
+/** Whether the exercise can switch to counting each side separately */
+export function hasUnilateralMode(catalogId: string | null | undefined): boolean {
+  return !!catalogId && catalogId in unilateralRegistry;
+}
+
+/**
+ * Get the analyzer for an exercise catalog id, or its per-side analyzer when
+ * unilateral is set and it has one.
+ * Falls back to auto-detection when the exercise has no dedicated analyzer.
+ */
+export function getExerciseAnalyzer(catalogId: string | null | undefined, unilateral = false): ExerciseAnalyzer {
+  if (unilateral && catalogId && unilateralRegistry[catalogId]) {
+    return unilateralRegistry[catalogId];
+  }
+  return (catalogId && analyzerRegistry[catalogId]) || autoDetectAnalyzer;
+}
+
+registerExerciseAnalyzer('auto-detect', autoDetectAnalyzer);
+registerExerciseAnalyzer('barbell-curl', barbellCurlAnalyzer);
+registerExerciseAnalyzer(['incline-dumbbell-curl', 'hammer-curl', 'preacher-curl', 'cable-curl'], bicepCurlAnalyzer);
+registerExerciseAnalyzer(['push-ups', 'diamond-push-ups'], pushupAnalyzer);
+registerExerciseAnalyzer('back-squat', squatAnalyzer);
+registerExerciseAnalyzer(['walking-lunges', 'bulgarian-split-squat', 'step-ups'], lungeAnalyzer);
+registerUnilateralAnalyzer(['incline-dumbbell-curl', 'hammer-curl', 'preacher-curl', 'cable-curl'], unilateralCurlAnalyzer);
@@ -5,6 +5,9 @@
  * Updated for MediaPipe Pose Full model (33 landmarks)
  */
 
+import { DEFAULT_SMOOTHING, FilterConfig, FilterState, filterValue } from './signalFilters';
+import { BodySide, LandmarkName } from './skeleton';
+
 export type Keypoint = {
   name: string;
   x: number;
@@ -74,7 +77,7 @@ export function calculateAngle(
  * Get keypoint by name from array
  * Works with both MoveNet (17) and MediaPipe (33) keypoint arrays
  */
-export function getKeypoint(keypoints: Keypoint[], name: string): Keypoint | null {
+export function getKeypoint(keypoints: Keypoint[], name: LandmarkName): Keypoint | null {
   return keypoints.find(kp => kp.name === name) || null;
 }
 
@@ -87,14 +90,80 @@ export function isVisible(keypoint: Keypoint | null, threshold = 0.8): boolean {
   return keypoint !== null && keypoint.score > threshold;
 }
 
+const TORSO_CACHE_DURATION_MS = 100; // Cache torso height for 100ms
+const DETECTION_HISTORY_SIZE = 2; // Reduced from 3 - fastest detection response (requires 2/2 consensus)
+
+/** Angle signals smoothed by the detectors */
+type SmoothedAngle = 'leftElbow' | 'rightElbow' | 'pushup' | 'squat' | 'leftKnee' | 'rightKnee';
+
+/**
+ * Mutable detector state for one analysis session (a recording, a replay or a test).
+ * Each session owns its own smoothing, detection history and geometry cache so
+ * concurrent sessions never corrupt each other.
+ */
+export type PoseAnalysisSession = {
+  // Angle smoothing for stable detection (see signalFilters.ts)
+  angleSmoothing: FilterConfig;
+  angleFilters: Record<SmoothedAngle, FilterState | null>;
+  // Landmark score the push-up and squat detectors require (MoveNet confidences run lower than MediaPipe visibility)
+  minVisibility: number;
+  // Recent per-frame detections for temporal consistency
+  exerciseDetectionHistory: string[];
+  // Cache for calculated values to avoid redundant computation
+  geometryCache: {
+    torsoHeight: number;
+    lastUpdate: number;
+  };
+};
+
+export function createPoseAnalysisSession(
+  angleSmoothing: FilterConfig = DEFAULT_SMOOTHING.angles,
+  minVisibility = 0.8
+): PoseAnalysisSession {
+  return {
+    angleSmoothing,
+    minVisibility,
+    angleFilters: {
+      leftElbow: null,
+      rightElbow: null,
+      pushup: null,
+      squat: null,
+      leftKnee: null,
+      rightKnee: null,
+    },
+    exerciseDetectionHistory: [],
+    geometryCache: {
+      torsoHeight: 200,
+      lastUpdate: -Infinity,
+    },
+  };
+}
+
+/**
+ * Clear all smoothing and history, e.g. between sets
+ */
+export function resetPoseAnalysisSession(session: PoseAnalysisSession): void {
+  Object.assign(session, createPoseAnalysisSession(session.angleSmoothing, session.minVisibility));
+}
+
+/**
+ * Feed a raw angle through the session's filter for that signal and return the smoothed value
+ */
+function smoothAngle(session: PoseAnalysisSession, signal: SmoothedAngle, rawAngle: number, timestamp: number): number {
+  const filtered = filterValue(session.angleSmoothing, session.angleFilters[signal], rawAngle, timestamp);
+  session.angleFilters[signal] = filtered;
+  return filtered.value;
+}
+
 /**
- * Calculate torso height with caching to avoid redundant computation
+ * Calculate torso height with caching to avoid redundant computation.
+ * The cache is keyed on frame timestamps so replays behave like live sessions.
  */
-function getTorsoHeight(keypoints: Keypoint[]): number {
-  const now = Date.now();
+function getTorsoHeight(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): number {
+  const geometryCache = session.geometryCache;
   
   // Return cached value if still valid
-  if (now - geometryCache.lastUpdate < geometryCache.CACHE_DURATION) {
+  if (timestamp - geometryCache.lastUpdate < TORSO_CACHE_DURATION_MS) {
     return geometryCache.torsoHeight;
   }
   
@@ -113,34 +182,40 @@ function getTorsoHeight(keypoints: Keypoint[]): number {
   
   // Update cache
   geometryCache.torsoHeight = torsoHeight;
-  geometryCache.lastUpdate = now;
+  geometryCache.lastUpdate = timestamp;
   
   return torsoHeight;
 }
 
-// Store smoothed angles for stable detection
-let smoothedLeftElbowAngle: number | null = null;
-let smoothedRightElbowAngle: number | null = null;
-let smoothedPushupAngle: number | null = null;
-let smoothedSquatAngle: number | null = null;
-const ANGLE_SMOOTHING = 0.1; // Reduced from 0.15 - even faster response for minimal lag (90% current, 10% previous)
-
-// Cache for calculated values to avoid redundant computation
-const geometryCache = {
-  torsoHeight: 200,
-  lastUpdate: 0,
-  CACHE_DURATION: 100, // Cache torso height for 100ms
-};
+/**
+ * Distance from the shoulders to the hips (the midpoint of each set), in the
+ * keypoints' own units. Unlike getTorsoHeight it keeps its size when the body
+ * is horizontal, so it can scale the push-up's plank checks.
+ */
+function getTorsoLength(shoulders: Keypoint[], hips: Keypoint[]): number {
+  const mean = (points: Keypoint[], axis: 'x' | 'y' | 'z') =>
+    points.reduce((sum, point) => sum + (point[axis] ?? 0), 0) / points.length;
+  return Math.hypot(
+    mean(shoulders, 'x') - mean(hips, 'x'),
+    mean(shoulders, 'y') - mean(hips, 'y'),
+    mean(shoulders, 'z') - mean(hips, 'z')
+  );
+}
 
 /**
  * Detect if person is doing bicep curls
  * Uses relative positioning (not fixed pixels) for scale-independence
  * Applies angle smoothing for stable detection
+ *
+ * @param timestamp Frame timestamp in ms (from the camera or a replay source)
  */
-export function detectBicepCurl(keypoints: Keypoint[]): {
+export function detectBicepCurl(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): {
   detected: boolean;
   side: 'left' | 'right' | 'both' | null;
   angle: number | null;
+  // Each arm's angle, for analyzers that count the arms separately (null when that arm isn't curling)
+  leftAngle: number | null;
+  rightAngle: number | null;
 } {
   const leftShoulder = getKeypoint(keypoints, 'left_shoulder');
   const leftElbow = getKeypoint(keypoints, 'left_elbow');
@@ -158,7 +233,7 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
   let rightAngle: number | null = null;
 
   // Use cached torso height for relative measurements (scale-independent)
-  const torsoHeight = getTorsoHeight(keypoints);
+  const torsoHeight = getTorsoHeight(keypoints, session, timestamp);
   
   // Use relative thresholds based on torso size
   const elbowTolerance = torsoHeight * 0.3; // 30% of torso height
@@ -169,12 +244,7 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
     const rawAngle = calculateAngle(leftShoulder, leftElbow, leftWrist);
     
     // Smooth the angle to reduce noise
-    if (smoothedLeftElbowAngle === null) {
-      smoothedLeftElbowAngle = rawAngle;
-    } else {
-      smoothedLeftElbowAngle = smoothedLeftElbowAngle * ANGLE_SMOOTHING + rawAngle * (1 - ANGLE_SMOOTHING);
-    }
-    const angle = smoothedLeftElbowAngle;
+    const angle = smoothAngle(session, 'leftElbow', rawAngle, timestamp);
     
     // Bicep curl characteristics (using relative measurements):
     // 1. Elbow below or near shoulder level (not overhead press)
@@ -192,7 +262,7 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
       leftAngle = angle;
     }
   } else {
-    smoothedLeftElbowAngle = null; // Reset if keypoints not visible
+    session.angleFilters.leftElbow = null; // Reset if keypoints not visible
   }
 
   // Check right arm bicep curl
@@ -200,12 +270,7 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
     const rawAngle = calculateAngle(rightShoulder, rightElbow, rightWrist);
     
     // Smooth the angle
-    if (smoothedRightElbowAngle === null) {
-      smoothedRightElbowAngle = rawAngle;
-    } else {
-      smoothedRightElbowAngle = smoothedRightElbowAngle * ANGLE_SMOOTHING + rawAngle * (1 - ANGLE_SMOOTHING);
-    }
-    const angle = smoothedRightElbowAngle;
+    const angle = smoothAngle(session, 'rightElbow', rawAngle, timestamp);
     
     const elbowBelowShoulder = rightElbow.y >= rightShoulder.y - elbowTolerance;
     const elbowAtSide = Math.abs(rightElbow.x - rightShoulder.x) < sideWidthTolerance;
@@ -216,7 +281,7 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
       rightAngle = angle;
     }
   } else {
-    smoothedRightElbowAngle = null; // Reset if keypoints not visible
+    session.angleFilters.rightElbow = null; // Reset if keypoints not visible
   }
 
   const detected = leftCurl || rightCurl;
@@ -232,14 +297,16 @@ export function detectBicepCurl(keypoints: Keypoint[]): {
     angle = rightAngle;
   }
 
-  return { detected, side, angle };
+  return { detected, side, angle, leftAngle, rightAngle };
 }
 
 /**
  * Detect if person is doing push-ups
  * Looks for plank position with arm extension/flexion
+ *
+ * @param timestamp Frame timestamp in ms, used by the angle filter
  */
-export function detectPushup(keypoints: Keypoint[]): {
+export function detectPushup(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): {
   detected: boolean;
   angle: number | null;
 } {
@@ -254,25 +321,30 @@ export function detectPushup(keypoints: Keypoint[]): {
   const rightWrist = getKeypoint(keypoints, 'right_wrist');
   const rightHip = getKeypoint(keypoints, 'right_hip');
 
-  // Need to see upper body clearly
-  if (!isVisible(leftShoulder) || !isVisible(leftElbow) || !isVisible(leftWrist) ||
-      !isVisible(rightShoulder) || !isVisible(rightElbow) || !isVisible(rightWrist)) {
-    smoothedPushupAngle = null;
+  // Need to see at least one arm clearly: side-on, the best view of a push-up, the far arm is hidden
+  const minScore = session.minVisibility;
+  const leftArmVisible = isVisible(leftShoulder, minScore) && isVisible(leftElbow, minScore) && isVisible(leftWrist, minScore);
+  const rightArmVisible = isVisible(rightShoulder, minScore) && isVisible(rightElbow, minScore) && isVisible(rightWrist, minScore);
+  if (!leftArmVisible && !rightArmVisible) {
+    session.angleFilters.pushup = null;
     return { detected: false, angle: null };
   }
 
-  // Calculate arm angles
-  const leftArmAngle = calculateAngle(leftShoulder, leftElbow, leftWrist);
-  const rightArmAngle = calculateAngle(rightShoulder, rightElbow, rightWrist);
-  const rawAngle = (leftArmAngle + rightArmAngle) / 2;
+  // Calculate arm angles from the visible arms
+  const armAngles: number[] = [];
+  const visibleShoulders: Keypoint[] = [];
+  if (leftArmVisible) {
+    armAngles.push(calculateAngle(leftShoulder!, leftElbow!, leftWrist!));
+    visibleShoulders.push(leftShoulder!);
+  }
+  if (rightArmVisible) {
+    armAngles.push(calculateAngle(rightShoulder!, rightElbow!, rightWrist!));
+    visibleShoulders.push(rightShoulder!);
+  }
+  const rawAngle = armAngles.reduce((sum, angle) => sum + angle, 0) / armAngles.length;
   
   // Smooth the angle
-  if (smoothedPushupAngle === null) {
-    smoothedPushupAngle = rawAngle;
-  } else {
-    smoothedPushupAngle = smoothedPushupAngle * ANGLE_SMOOTHING + rawAngle * (1 - ANGLE_SMOOTHING);
-  }
-  const avgArmAngle = smoothedPushupAngle;
+  const avgArmAngle = smoothAngle(session, 'pushup', rawAngle, timestamp);
 
   // Push-up position checks:
   // 1. Body roughly horizontal (shoulders and hips at similar Y-level)
@@ -281,20 +353,23 @@ export function detectPushup(keypoints: Keypoint[]): {
   
   let isPlankPosition = false;
   
-  if (isVisible(leftHip) && isVisible(rightHip)) {
-    const avgShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
-    const avgHipY = (leftHip.y + rightHip.y) / 2;
+  const visibleHips = [leftHip, rightHip].filter((hip): hip is Keypoint => isVisible(hip, minScore));
+  if (visibleHips.length > 0) {
+    const avgShoulderY = visibleShoulders.reduce((sum, shoulder) => sum + shoulder.y, 0) / visibleShoulders.length;
+    const avgHipY = visibleHips.reduce((sum, hip) => sum + hip.y, 0) / visibleHips.length;
+    // Relative thresholds, so pixel, normalized and metric keypoints are judged alike
+    const torsoLength = getTorsoLength(visibleShoulders, visibleHips);
     
     // In push-up, shoulders are at or below hip level
-    const shouldersAtHipLevel = avgShoulderY >= avgHipY - 100;
+    const shouldersAtHipLevel = avgShoulderY >= avgHipY - torsoLength * 0.5; // 50% of torso length
     
     // Body should be roughly horizontal (not too much vertical distance)
-    const bodyHorizontal = Math.abs(avgShoulderY - avgHipY) < 200;
+    const bodyHorizontal = Math.abs(avgShoulderY - avgHipY) < torsoLength * 0.7; // Within ~45° of level
     
     // Check knees if visible - should be in line with body (not bent at 90°)
     let kneesExtended = true;
-    if (isVisible(leftKnee)) {
-      kneesExtended = leftKnee.y >= leftHip.y - 50; // Knees not pulled up
+    if (isVisible(leftKnee, minScore) && isVisible(leftHip, minScore)) {
+      kneesExtended = leftKnee!.y >= leftHip!.y - torsoLength * 0.25; // Knees not pulled up
     }
     
     isPlankPosition = shouldersAtHipLevel && bodyHorizontal && kneesExtended;
@@ -309,8 +384,10 @@ export function detectPushup(keypoints: Keypoint[]): {
 /**
  * Detect if person is doing squats
  * Looks for standing posture with knee bending motion
+ *
+ * @param timestamp Frame timestamp in ms, used by the angle filter
  */
-export function detectSquat(keypoints: Keypoint[]): {
+export function detectSquat(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): {
   detected: boolean;
   angle: number | null;
 } {
@@ -325,9 +402,10 @@ export function detectSquat(keypoints: Keypoint[]): {
   const rightShoulder = getKeypoint(keypoints, 'right_shoulder');
 
   // Need to see lower body
-  if (!isVisible(leftHip) || !isVisible(leftKnee) || !isVisible(leftAnkle) ||
-      !isVisible(rightHip) || !isVisible(rightKnee) || !isVisible(rightAnkle)) {
-    smoothedSquatAngle = null;
+  const minScore = session.minVisibility;
+  if (!isVisible(leftHip, minScore) || !isVisible(leftKnee, minScore) || !isVisible(leftAnkle, minScore) ||
+      !isVisible(rightHip, minScore) || !isVisible(rightKnee, minScore) || !isVisible(rightAnkle, minScore)) {
+    session.angleFilters.squat = null;
     return { detected: false, angle: null };
   }
 
@@ -337,12 +415,7 @@ export function detectSquat(keypoints: Keypoint[]): {
   const rawAngle = (leftKneeAngle + rightKneeAngle) / 2;
   
   // Smooth the angle
-  if (smoothedSquatAngle === null) {
-    smoothedSquatAngle = rawAngle;
-  } else {
-    smoothedSquatAngle = smoothedSquatAngle * ANGLE_SMOOTHING + rawAngle * (1 - ANGLE_SMOOTHING);
-  }
-  const avgKneeAngle = smoothedSquatAngle;
+  const avgKneeAngle = smoothAngle(session, 'squat', rawAngle, timestamp);
 
   // Squat position checks:
   // 1. Upright posture (hips above knees, knees above ankles)
@@ -357,12 +430,13 @@ export function detectSquat(keypoints: Keypoint[]): {
   
   // Check shoulders are above hips (standing, not lying)
   let verticalBody = true;
-  if (isVisible(leftShoulder) && isVisible(rightShoulder)) {
+  if (isVisible(leftShoulder, minScore) && isVisible(rightShoulder, minScore)) {
     const avgShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
     const avgHipY = (leftHip.y + rightHip.y) / 2;
+    const torsoLength = getTorsoLength([leftShoulder!, rightShoulder!], [leftHip!, rightHip!]);
     
     // Shoulders should be above hips in standing position
-    verticalBody = avgShoulderY < avgHipY + 100;
+    verticalBody = avgShoulderY < avgHipY + torsoLength * 0.5;
   }
 
   // Squat detected if:
@@ -374,23 +448,78 @@ export function detectSquat(keypoints: Keypoint[]): {
   return { detected, angle: detected ? avgKneeAngle : null };
 }
 
-// Track exercise detection stability
-let exerciseDetectionHistory: string[] = [];
-const DETECTION_HISTORY_SIZE = 2; // Reduced from 3 - fastest detection response (requires 2/2 consensus)
+/**
+ * Detect if person is doing lunges, split squats or step-ups
+ * Looks for a standing posture and measures each knee separately; the lead
+ * leg is the one whose knee is higher, as the front knee of a lunge (or the
+ * knee of the foot on the box) sits well above the back knee
+ *
+ * @param timestamp Frame timestamp in ms, used by the angle filters
+ */
+export function detectLunge(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): {
+  detected: boolean;
+  leftAngle: number | null;
+  rightAngle: number | null;
+  lead: BodySide | null;
+} {
+  const leftHip = getKeypoint(keypoints, 'left_hip');
+  const leftKnee = getKeypoint(keypoints, 'left_knee');
+  const leftAnkle = getKeypoint(keypoints, 'left_ankle');
+  const leftShoulder = getKeypoint(keypoints, 'left_shoulder');
+
+  const rightHip = getKeypoint(keypoints, 'right_hip');
+  const rightKnee = getKeypoint(keypoints, 'right_knee');
+  const rightAnkle = getKeypoint(keypoints, 'right_ankle');
+  const rightShoulder = getKeypoint(keypoints, 'right_shoulder');
+
+  // Need to see both legs
+  const minScore = session.minVisibility;
+  if (!isVisible(leftHip, minScore) || !isVisible(leftKnee, minScore) || !isVisible(leftAnkle, minScore) ||
+      !isVisible(rightHip, minScore) || !isVisible(rightKnee, minScore) || !isVisible(rightAnkle, minScore)) {
+    session.angleFilters.leftKnee = null;
+    session.angleFilters.rightKnee = null;
+    return { detected: false, leftAngle: null, rightAngle: null, lead: null };
+  }
+
+  const leftAngle = smoothAngle(session, 'leftKnee', calculateAngle(leftHip!, leftKnee!, leftAnkle!), timestamp);
+  const rightAngle = smoothAngle(session, 'rightKnee', calculateAngle(rightHip!, rightKnee!, rightAnkle!), timestamp);
+
+  // Hips above both knees; unlike a squat the back knee may drop below its ankle's height in a deep lunge
+  const uprightPosture = leftHip!.y < leftKnee!.y && rightHip!.y < rightKnee!.y;
+
+  // Check shoulders are above hips (standing, not lying)
+  let verticalBody = true;
+  if (isVisible(leftShoulder, minScore) && isVisible(rightShoulder, minScore)) {
+    const avgShoulderY = (leftShoulder!.y + rightShoulder!.y) / 2;
+    const avgHipY = (leftHip!.y + rightHip!.y) / 2;
+    const torsoLength = getTorsoLength([leftShoulder!, rightShoulder!], [leftHip!, rightHip!]);
+    verticalBody = avgShoulderY < avgHipY + torsoLength * 0.5;
+  }
+
+  const detected = uprightPosture && verticalBody && Math.min(leftAngle, rightAngle) > 50;
+  return {
+    detected,
+    leftAngle: detected ? leftAngle : null,
+    rightAngle: detected ? rightAngle : null,
+    lead: detected ? (leftKnee!.y < rightKnee!.y ? 'left' : 'right') : null,
+  };
+}
 
 /**
  * Detect current exercise based on pose keypoints
  * Uses temporal consistency to avoid flickering between exercises
+ *
+ * @param timestamp Frame timestamp in ms (from the camera or a replay source)
  */
-export function detectExercise(keypoints: Keypoint[]): {
+export function detectExercise(keypoints: Keypoint[], session: PoseAnalysisSession, timestamp: number): {
   exercise: 'Bicep Curl' | 'Push-up' | 'Squat' | null;
   confidence: number;
   angle: number | null;
 } {
   // Check for each exercise type (all weighted equally)
-  const bicepCurl = detectBicepCurl(keypoints);
-  const pushup = detectPushup(keypoints);
-  const squat = detectSquat(keypoints);
+  const bicepCurl = detectBicepCurl(keypoints, session, timestamp);
+  const pushup = detectPushup(keypoints, session, timestamp);
+  const squat = detectSquat(keypoints, session, timestamp);
 
   // Collect all detected exercises
   const detectedExercises: Array<{
@@ -422,6 +551,7 @@ export function detectExercise(keypoints: Keypoint[]): {
   }
 
   // Add to history
+  const exerciseDetectionHistory = session.exerciseDetectionHistory;
   exerciseDetectionHistory.push(currentExercise || 'none');
   if (exerciseDetectionHistory.length > DETECTION_HISTORY_SIZE) {
     exerciseDetectionHistory.shift();
@@ -462,6 +592,53 @@ export function detectExercise(keypoints: Keypoint[]): {
   return { exercise: null, confidence: 0, angle: null };
 }
 
+/** Angles (degrees) the rep state machine switches on for one exercise */
+export type RepThresholds = {
+  extended: number; // Above this the joint is extended, ready for the next rep
+  flexed: number; // Below this the rep counts
+};
+
+/** Relaxed defaults for reliable detection; body calibration can loosen them per user */
+export const DEFAULT_REP_THRESHOLDS: Record<'Bicep Curl' | 'Push-up' | 'Squat' | 'Lunge', RepThresholds> = {
+  'Bicep Curl': { extended: 120, flexed: 90 },
+  'Push-up': { extended: 140, flexed: 100 },
+  'Squat': { extended: 150, flexed: 120 },
+  'Lunge': { extended: 150, flexed: 110 },
+};
+
+/** A dip of the joint while waiting for a rep: from its angle when extended to the lowest since */
+export type RepDip = { from: number; lowest: number };
+
+// A dip this far below extended (as a fraction of extended to flexed) that turns back before flexed is a partial rep
+const PARTIAL_REP_MIN_DEPTH = 0.4;
+
+/**
+ * Watch for partial reps alongside updateRepCount, which only counts reps
+ * that reach flexed. While waiting for a rep (phase 'up'), a dip well below
+ * extended that comes back up before reaching flexed is a partial rep.
+ * Returns the dip to carry to the next frame and, on the frame a partial rep
+ * ends, that rep's dip.
+ */
+export function trackPartialRep(
+  dip: RepDip | null,
+  angle: number,
+  phase: 'up' | 'down' | 'idle',
+  thresholds: RepThresholds
+): { dip: RepDip | null; partialRep: RepDip | null } {
+  if (phase !== 'up') return { dip: null, partialRep: null };
+
+  const { extended, flexed } = thresholds;
+  if (angle <= extended) {
+    return { dip: { from: dip?.from ?? angle, lowest: Math.min(dip?.lowest ?? angle, angle) }, partialRep: null };
+  }
+
+  const depthLimit = extended - (extended - flexed) * PARTIAL_REP_MIN_DEPTH;
+  const partialRep = dip && dip.lowest < depthLimit ? dip : null;
+  // Still extended: the next dip starts from the highest angle since the last one
+  const from = dip && dip.lowest > extended ? Math.max(dip.from, angle) : angle;
+  return { dip: { from, lowest: angle }, partialRep };
+}
+
 /**
  * Count reps based on exercise-specific angle thresholds
  * Uses relaxed thresholds for reliable detection
@@ -470,7 +647,8 @@ export function updateRepCount(
   exercise: string,
   angle: number,
   currentPhase: 'up' | 'down' | 'idle',
-  currentRepCount: number
+  currentRepCount: number,
+  thresholds?: RepThresholds
 ): {
   phase: 'up' | 'down' | 'idle';
   repCount: number;
@@ -481,30 +659,31 @@ export function updateRepCount(
   let formScore = 85; // Default good form
 
   switch (exercise) {
-    case 'Bicep Curl':
+    case 'Bicep Curl': {
       // State machine for bicep curl rep counting
       // Relaxed thresholds for better detection:
       // Start position (extended): angle > 120° (was 135°)
       // Contracted position (curled): angle < 90° (was 70°)
+      const { extended, flexed } = thresholds ?? DEFAULT_REP_THRESHOLDS['Bicep Curl'];
       
       if (currentPhase === 'idle' || currentPhase === 'down') {
         // Waiting for arm to extend (start position)
-        if (angle > 120) {
+        if (angle > extended) {
           newPhase = 'up'; // Arm is extended, ready for curl
         }
       }
       
       if (currentPhase === 'up') {
         // Arm is extended, waiting for curl (contraction)
-        if (angle < 90) {
+        if (angle < flexed) {
           newPhase = 'down'; // Curl completed
           newRepCount += 1; // Count the rep
           
           // Form score based on depth of curl (range of motion)
           // Better form = deeper curl (smaller angle)
-          if (angle < 50) {
+          if (angle < flexed - 40) {
             formScore = 95; // Excellent - full contraction
-          } else if (angle < 70) {
+          } else if (angle < flexed - 20) {
             formScore = 90; // Good - solid contraction
           } else {
             formScore = 80; // Acceptable - partial contraction
@@ -512,29 +691,31 @@ export function updateRepCount(
         }
       }
       break;
+    }
 
-    case 'Push-up':
+    case 'Push-up': {
       // State machine for push-up rep counting
       // Extended (up): angle > 140° (arms straight)
       // Bent (down): angle < 100° (chest near ground)
+      const { extended, flexed } = thresholds ?? DEFAULT_REP_THRESHOLDS['Push-up'];
       
       if (currentPhase === 'idle' || currentPhase === 'down') {
         // Waiting for arms to extend
-        if (angle > 140) {
+        if (angle > extended) {
           newPhase = 'up'; // Arms extended, ready to descend
         }
       }
       
       if (currentPhase === 'up') {
         // Arms extended, waiting for descent
-        if (angle < 100) {
+        if (angle < flexed) {
           newPhase = 'down'; // Push-up completed
           newRepCount += 1;
           
           // Form score based on depth (lower angle = deeper push-up)
-          if (angle < 70) {
+          if (angle < flexed - 30) {
             formScore = 95; // Excellent - chest to ground
-          } else if (angle < 85) {
+          } else if (angle < flexed - 15) {
             formScore = 90; // Good - deep push-up
           } else {
             formScore = 80; // Acceptable - partial depth
@@ -542,29 +723,31 @@ export function updateRepCount(
         }
       }
       break;
+    }
 
-    case 'Squat':
+    case 'Squat': {
       // State machine for squat rep counting
       // Standing (up): angle > 150° (legs straight)
       // Squatting (down): angle < 120° (knees bent)
+      const { extended, flexed } = thresholds ?? DEFAULT_REP_THRESHOLDS['Squat'];
       
       if (currentPhase === 'idle' || currentPhase === 'down') {
         // Waiting for full standing position
-        if (angle > 150) {
+        if (angle > extended) {
           newPhase = 'up'; // Standing, ready to squat
         }
       }
       
       if (currentPhase === 'up') {
         // Standing, waiting for squat
-        if (angle < 120) {
+        if (angle < flexed) {
           newPhase = 'down'; // Squat completed
           newRepCount += 1;
           
           // Form score based on depth (lower angle = deeper squat)
-          if (angle < 90) {
+          if (angle < flexed - 30) {
             formScore = 95; // Excellent - parallel or below
-          } else if (angle < 105) {
+          } else if (angle < flexed - 15) {
             formScore = 90; // Good - near parallel
           } else {
             formScore = 80; // Acceptable - partial squat
@@ -572,6 +755,39 @@ export function updateRepCount(
         }
       }
       break;
+    }
+
+    case 'Lunge': {
+      // State machine for lunge rep counting, on the lead knee
+      // Standing (up): angle > 150° (legs straight)
+      // Lunging (down): angle < 110° (front knee bent)
+      const { extended, flexed } = thresholds ?? DEFAULT_REP_THRESHOLDS['Lunge'];
+
+      if (currentPhase === 'idle' || currentPhase === 'down') {
+        // Waiting for full standing position
+        if (angle > extended) {
+          newPhase = 'up'; // Standing, ready to step into the lunge
+        }
+      }
+
+      if (currentPhase === 'up') {
+        // Standing, waiting for the lunge
+        if (angle < flexed) {
+          newPhase = 'down'; // Lunge completed
+          newRepCount += 1;
+
+          // Form score based on depth (lower angle = deeper lunge)
+          if (angle < flexed - 20) {
+            formScore = 95; // Excellent - front thigh parallel
+          } else if (angle < flexed - 10) {
+            formScore = 90; // Good - near parallel
+          } else {
+            formScore = 80; // Acceptable - partial lunge
+          }
+        }
+      }
+      break;
+    }
   }
 
   return { phase: newPhase, repCount: newRepCount, formScore };
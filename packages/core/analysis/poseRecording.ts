@@ -0,0 +1,176 @@
+/**
+ * Pose Session Recording
+ *
+ * Captures the Keypoint stream fed to the analyzers so a set can be replayed
+ * offline (see poseReplay.ts), e.g. to reproduce "it didn't count my rep"
+ * reports or tune analyzer thresholds.
+ *
+ * Serialized format (JSON, version 1):
+ * {
+ *   "format": "forma-pose-session",
+ *   "version": 1,
+ *   "startedAt": 1700000000000,        // Epoch ms of the first frame
+ *   "exerciseCatalogId": "barbell-curl" | null,
+ *   "landmarkNames": ["nose", ...],    // Order of the values in each frame
+ *   "frames": [[t, source, facing, x, y, z, score, x, y, z, score, ...], ...]
+ * }
+ * where t is ms since startedAt, source is 0 = world / 1 = image landmarks and
+ * facing is 0 = front / 1 = back camera. Values are rounded to
+ * VALUE_PRECISION decimals to keep files small.
+ *
+ * Frames follow the side convention in skeleton.ts: left/right are the
+ * athlete's own sides and coordinates are unmirrored for both cameras.
+ */
+
+import { Keypoint } from './poseAnalysis';
+
+export const POSE_RECORDING_FORMAT = 'forma-pose-session';
+export const POSE_RECORDING_VERSION = 1;
+
+const VALUE_PRECISION = 4;
+const VALUES_PER_LANDMARK = 4; // x, y, z, score
+const FRAME_HEADER_SIZE = 3; // t, source, facing
+
+export type CameraFacing = 'front' | 'back';
+
+/** world = 3D metric coordinates, image = normalized image coordinates */
+export type LandmarkSource = 'world' | 'image';
+
+export type PoseFrame = {
+  timestamp: number; // ms since the start of the recording
+  cameraFacing: CameraFacing;
+  landmarkSource: LandmarkSource;
+  keypoints: Keypoint[];
+};
+
+export type PoseRecording = {
+  version: number;
+  startedAt: number;
+  exerciseCatalogId: string | null;
+  landmarkNames: string[];
+  frames: PoseFrame[];
+};
+
+/**
+ * Start an empty recording. Frames are added with appendPoseFrame().
+ */
+export function createPoseRecording(
+  landmarkNames: readonly string[],
+  exerciseCatalogId: string | null,
+  startedAt: number
+): PoseRecording {
+  return {
+    version: POSE_RECORDING_VERSION,
+    startedAt,
+    exerciseCatalogId,
+    landmarkNames: [...landmarkNames],
+    frames: [],
+  };
+}
+
+/**
+ * Add a frame captured at an absolute (epoch ms) timestamp
+ */
+export function appendPoseFrame(
+  recording: PoseRecording,
+  keypoints: Keypoint[],
+  timestamp: number,
+  cameraFacing: CameraFacing,
+  landmarkSource: LandmarkSource
+): void {
+  recording.frames.push({
+    timestamp: timestamp - recording.startedAt,
+    cameraFacing,
+    landmarkSource,
+    keypoints,
+  });
+}
+
+function round(value: number): number {
+  const factor = 10 ** VALUE_PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Serialize a recording to the compact JSON format described above
+ */
+export function serializePoseRecording(recording: PoseRecording): string {
+  const { landmarkNames } = recording;
+  const frames = recording.frames.map((frame) => {
+    const row: number[] = [
+      Math.round(frame.timestamp),
+      frame.landmarkSource === 'world' ? 0 : 1,
+      frame.cameraFacing === 'front' ? 0 : 1,
+    ];
+    for (const name of landmarkNames) {
+      const kp = frame.keypoints.find(k => k.name === name);
+      row.push(
+        round(kp?.x ?? 0),
+        round(kp?.y ?? 0),
+        round(kp?.z ?? 0),
+        round(kp?.score ?? 0)
+      );
+    }
+    return row;
+  });
+
+  return JSON.stringify({
+    format: POSE_RECORDING_FORMAT,
+    version: recording.version,
+    startedAt: recording.startedAt,
+    exerciseCatalogId: recording.exerciseCatalogId,
+    landmarkNames,
+    frames,
+  });
+}
+
+/**
+ * Parse a serialized recording.
+ * Throws if the text is not a pose session or uses an unsupported version.
+ */
+export function parsePoseRecording(text: string): PoseRecording {
+  const data = JSON.parse(text);
+
+  if (data?.format !== POSE_RECORDING_FORMAT) {
+    throw new Error('Not a Forma pose session recording');
+  }
+  if (data.version !== POSE_RECORDING_VERSION) {
+    throw new Error(`Unsupported pose session version: ${data.version}`);
+  }
+  if (!Array.isArray(data.landmarkNames) || !Array.isArray(data.frames)) {
+    throw new Error('Malformed pose session: missing landmarkNames or frames');
+  }
+
+  const landmarkNames: string[] = data.landmarkNames;
+  const rowLength = FRAME_HEADER_SIZE + landmarkNames.length * VALUES_PER_LANDMARK;
+
+  const frames: PoseFrame[] = data.frames.map((row: number[], index: number) => {
+    if (!Array.isArray(row) || row.length !== rowLength) {
+      throw new Error(`Malformed pose session: frame ${index} has ${row?.length ?? 0} values, expected ${rowLength}`);
+    }
+    const keypoints: Keypoint[] = landmarkNames.map((name, i) => {
+      const offset = FRAME_HEADER_SIZE + i * VALUES_PER_LANDMARK;
+      return {
+        name,
+        x: row[offset],
+        y: row[offset + 1],
+        z: row[offset + 2],
+        score: row[offset + 3],
+      };
+    });
+    return {
+      timestamp: row[0],
+      landmarkSource: row[1] === 0 ? 'world' : 'image',
+      cameraFacing: row[2] === 0 ? 'front' : 'back',
+      keypoints,
+    };
+  });
+
+  return {
+    version: data.version,
+    startedAt: typeof data.startedAt === 'number' ? data.startedAt : 0,
+    exerciseCatalogId: data.exerciseCatalogId ?? null,
+    landmarkNames,
+    frames,
+  };
+}
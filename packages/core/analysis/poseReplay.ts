@@ -0,0 +1,154 @@
+/**
+ * Pose Session Replay
+ *
+ * Feeds a recorded pose session through any ExerciseAnalyzer and collects a
+ * timeline of phases, feedback and completed reps. Analyzers take all timing
+ * from frame timestamps, so a replay gives the same result as the live set
+ * no matter how fast it runs.
+ */
+
+import {
+  ExerciseAnalyzer,
+  ExerciseAnalyzerOutput,
+  ExerciseSetSummary,
+  JointAngles,
+} from './exerciseAnalyzers';
+import { PoseFrame, PoseRecording } from './poseRecording';
+import { RepVelocity } from './velocityMetrics';
+import { RepTempo, TempoPrescription } from './tempoAnalysis';
+import { AngleRange, RepRecord } from './repRecords';
+
+export type ReplayPhase = {
+  phase: string;
+  startTime: number;
+  endTime: number;
+};
+
+export type ReplayFeedback = {
+  time: number;
+  message: string;
+};
+
+export type ReplayRep = {
+  repNumber: number;
+  startTime: number; // End of the previous rep (or first frame)
+  endTime: number; // Frame on which the rep was counted
+  formScore: number | null;
+  phaseDurations: Record<string, number>; // ms spent in each phase during the rep
+  angleRanges: Partial<Record<keyof JointAngles, AngleRange>>;
+  feedback: string[]; // Messages fired during the rep, in order
+  velocity: RepVelocity | null; // Concentric bar speed, null when the bar couldn't be tracked
+  tempo: RepTempo | null; // Phase timing, from analyzers that track rep phases
+  record: RepRecord | null; // The analyzer's own record of the rep (see repRecords.ts)
+};
+
+export type ReplayResult = {
+  analyzerId: string;
+  frameCount: number;
+  durationMs: number;
+  phases: ReplayPhase[];
+  feedback: ReplayFeedback[];
+  reps: ReplayRep[];
+  summary: ExerciseSetSummary;
+  finalOutput: ExerciseAnalyzerOutput | null;
+};
+
+export type ReplayOptions = {
+  /** Called after every analysed frame, e.g. to drive a debug view */
+  onFrame?: (frame: PoseFrame, output: ExerciseAnalyzerOutput) => void;
+  /** Prescribed tempo to score the reps against */
+  tempo?: TempoPrescription | null;
+};
+
+/**
+ * Run every frame of a recording through an analyzer
+ */
+export function replayPoseRecording(
+  recording: PoseRecording,
+  analyzer: ExerciseAnalyzer,
+  options: ReplayOptions = {}
+): ReplayResult {
+  let state = analyzer.createState(null, options.tempo);
+  let lastOutput: ExerciseAnalyzerOutput | null = null;
+
+  const phases: ReplayPhase[] = [];
+  const feedback: ReplayFeedback[] = [];
+  const reps: ReplayRep[] = [];
+  let currentRep: Omit<ReplayRep, 'repNumber' | 'endTime' | 'formScore' | 'velocity' | 'tempo' | 'record'> | null = null;
+  let lastTimestamp = 0;
+
+  for (const frame of recording.frames) {
+    state = analyzer.update(state, frame.keypoints, frame.timestamp);
+    const output = analyzer.getOutput(state);
+
+    if (!currentRep) {
+      currentRep = { startTime: frame.timestamp, phaseDurations: {}, angleRanges: {}, feedback: [] };
+    } else if (lastOutput) {
+      // Time since the previous frame is attributed to the phase the analyzer was in
+      const durations = currentRep.phaseDurations;
+      durations[lastOutput.phase] = (durations[lastOutput.phase] ?? 0) + frame.timestamp - lastTimestamp;
+    }
+    if (output.jointAngles) {
+      for (const [joint, angle] of Object.entries(output.jointAngles) as [keyof JointAngles, number | null][]) {
+        if (angle === null) continue;
+        const range = currentRep.angleRanges[joint];
+        currentRep.angleRanges[joint] = range
+          ? { min: Math.min(range.min, angle), max: Math.max(range.max, angle) }
+          : { min: angle, max: angle };
+      }
+    }
+
+    // Phase timeline: close the current phase whenever the analyzer moves on
+    const currentPhase = phases[phases.length - 1];
+    if (!currentPhase || currentPhase.phase !== output.phase) {
+      if (currentPhase) {
+        currentPhase.endTime = frame.timestamp;
+      }
+      phases.push({ phase: output.phase, startTime: frame.timestamp, endTime: frame.timestamp });
+    } else {
+      currentPhase.endTime = frame.timestamp;
+    }
+
+    // A feedback message fires when it first appears (analyzers hold it on screen for a while)
+    if (output.feedback && output.feedback !== lastOutput?.feedback) {
+      feedback.push({ time: frame.timestamp, message: output.feedback });
+      currentRep.feedback.push(output.feedback);
+    }
+
+    if (output.repCount > (lastOutput?.repCount ?? 0)) {
+      reps.push({
+        ...currentRep,
+        repNumber: output.repCount,
+        endTime: frame.timestamp,
+        formScore: output.formScore,
+        velocity: null, // Filled in from the set summary: some analyzers count the rep before its concentric phase
+        tempo: null,
+        record: null,
+      });
+      currentRep = { startTime: frame.timestamp, phaseDurations: {}, angleRanges: {}, feedback: [] };
+    }
+
+    options.onFrame?.(frame, output);
+    lastOutput = output;
+    lastTimestamp = frame.timestamp;
+  }
+
+  const summary = analyzer.summarizeSet(state);
+  reps.forEach((rep, index) => {
+    rep.velocity = summary.velocity?.reps[index] ?? null;
+    rep.tempo = summary.tempo?.reps[index] ?? null;
+    rep.record = summary.repRecords[index] ?? null;
+  });
+
+  const frames = recording.frames;
+  return {
+    analyzerId: analyzer.id,
+    frameCount: frames.length,
+    durationMs: frames.length > 0 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0,
+    phases,
+    feedback,
+    reps,
+    summary,
+    finalOutput: lastOutput,
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Reference Motion
+ *
+ * Ideal-form keyframes per exercise, used to draw the "ghost" skeleton the
+ * athlete can match while recording. Keyframes are joint angles rather than
+ * drawings, so the ghost is rebuilt on the athlete's own limb lengths and
+ * position every frame (see buildGhostSkeleton).
+ *
+ * Angles are in degrees in the side (sagittal) view. A phase either holds a
+ * keyframe or moves between two over the ideal duration for that phase.
+ */
+
+import { LandmarkName } from './skeleton';
+
+/** Ideal body position. Arm angles are optional: exercises that don't use the arms leave them out. */
+export type ReferencePose = {
+  torsoLean: number; // Forward lean of hip→shoulder from vertical
+  hip: number; // Interior shoulder-hip-knee angle (180 = standing tall)
+  knee: number; // Interior hip-knee-ankle angle (180 = straight)
+  shoulder?: number; // Upper arm forward of the torso (0 = arm along the body)
+  elbow?: number; // Interior shoulder-elbow-wrist angle (180 = straight)
+};
+
+export type ReferencePhase = {
+  from: string; // Keyframe at the start of the phase
+  to: string; // Keyframe at the end (same as `from` to hold)
+  durationMs: number; // Ideal time for the movement
+};
+
+export type ReferenceMotion = {
+  keyframes: Record<string, ReferencePose>;
+  phases: Record<string, ReferencePhase>; // Keyed by analyzer phase
+};
+
+const hold = (keyframe: string): ReferencePhase => ({ from: keyframe, to: keyframe, durationMs: 0 });
+
+const CURL_KEYFRAMES: Record<string, ReferencePose> = {
+  extended: { torsoLean: 0, hip: 180, knee: 178, shoulder: 5, elbow: 175 },
+  curled: { torsoLean: 0, hip: 180, knee: 178, shoulder: 10, elbow: 45 },
+};
+
+// Reference motions by analyzer id (see exerciseAnalyzers.ts)
+export const REFERENCE_MOTIONS: Record<string, ReferenceMotion> = {
+  'barbell-curl': {
+    keyframes: CURL_KEYFRAMES,
+    phases: {
+      idle: hold('extended'),
+      start: hold('extended'),
+      // Tempo cues in barbellCurlAnalysis.ts fire outside 0.5-2 s up and 0.8-3 s down
+      concentric: { from: 'extended', to: 'curled', durationMs: 1000 },
+      top: hold('curled'),
+      eccentric: { from: 'curled', to: 'extended', durationMs: 1500 },
+    },
+  },
+  // Generic analyzers: 'up' waits for the working half of the rep, 'down' for the return
+  'bicep-curl': {
+    keyframes: CURL_KEYFRAMES,
+    phases: {
+      idle: hold('extended'),
+      up: { from: 'extended', to: 'curled', durationMs: 1000 },
+      down: { from: 'curled', to: 'extended', durationMs: 1500 },
+    },
+  },
+  'squat': {
+    keyframes: {
+      standing: { torsoLean: 5, hip: 175, knee: 178 },
+      bottom: { torsoLean: 35, hip: 75, knee: 75 },
+    },
+    phases: {
+      idle: hold('standing'),
+      // Squat analyzer (squatAnalysis.ts)
+      top: hold('standing'),
+      descent: { from: 'standing', to: 'bottom', durationMs: 2000 },
+      bottom: hold('bottom'),
+      ascent: { from: 'bottom', to: 'standing', durationMs: 1000 },
+      // Auto-detect, which counts squats with the generic state machine
+      up: { from: 'standing', to: 'bottom', durationMs: 2000 },
+      down: { from: 'bottom', to: 'standing', durationMs: 1000 },
+    },
+  },
+};
+
+// Exercise names reported by auto-detection (poseAnalysis.ts detectExercise), by analyzer id
+const EXERCISE_NAME_IDS: Record<string, string> = {
+  'Bicep Curl': 'bicep-curl',
+  'Squat': 'squat',
+};
+
+/**
+ * Reference motion for an analyzer, or for the exercise it detected when the
+ * analyzer itself has none (auto-detect). null when there is no reference.
+ */
+export function getReferenceMotion(analyzerId: string, exerciseName?: string | null): ReferenceMotion | null {
+  const motion = REFERENCE_MOTIONS[analyzerId];
+  if (motion) return motion;
+  const id = exerciseName ? EXERCISE_NAME_IDS[exerciseName] : undefined;
+  return id ? REFERENCE_MOTIONS[id] ?? null : null;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpOptional = (a: number | undefined, b: number | undefined, t: number) =>
+  a !== undefined && b !== undefined ? lerp(a, b, t) : undefined;
+
+/**
+ * Ideal pose `elapsedMs` into a phase. Returns null for phases the motion
+ * doesn't describe.
+ */
+export function getReferencePose(motion: ReferenceMotion, phase: string, elapsedMs: number): ReferencePose | null {
+  const reference = motion.phases[phase];
+  if (!reference) return null;
+
+  const from = motion.keyframes[reference.from];
+  const to = motion.keyframes[reference.to];
+  if (!from || !to) return null;
+  if (reference.durationMs <= 0) return from;
+
+  // Ease in and out, like a controlled rep
+  const linear = Math.min(1, Math.max(0, elapsedMs / reference.durationMs));
+  const t = linear * linear * (3 - 2 * linear);
+  return {
+    torsoLean: lerp(from.torsoLean, to.torsoLean, t),
+    hip: lerp(from.hip, to.hip, t),
+    knee: lerp(from.knee, to.knee, t),
+    shoulder: lerpOptional(from.shoulder, to.shoulder, t),
+    elbow: lerpOptional(from.elbow, to.elbow, t),
+  };
+}
+
+type Point = { x: number; y: number; score: number };
+
+export type GhostSegment = 'torso' | 'upperArm' | 'forearm' | 'thigh' | 'shin';
+
+/** Longest 2D length seen per segment and side (side view foreshortens limbs, so take the maximum) */
+export type LimbLengths = Partial<Record<`${'left' | 'right'}_${GhostSegment}`, number>>;
+
+const SEGMENT_ENDS: Record<GhostSegment, [string, string]> = {
+  torso: ['shoulder', 'hip'],
+  upperArm: ['shoulder', 'elbow'],
+  forearm: ['elbow', 'wrist'],
+  thigh: ['hip', 'knee'],
+  shin: ['knee', 'ankle'],
+};
+
+// Per-frame decay of the remembered lengths, so they follow the athlete moving away from the camera
+const LENGTH_DECAY = 0.998;
+
+/**
+ * Update remembered limb lengths from one frame of keypoints (any units, as
+ * long as they match the keypoints later passed to buildGhostSkeleton).
+ */
+export function measureLimbLengths(
+  keypoints: ReadonlyMap<string, Point>,
+  previous: LimbLengths,
+  minScore: number
+): LimbLengths {
+  const lengths: LimbLengths = {};
+  for (const side of ['left', 'right'] as const) {
+    for (const segment of Object.keys(SEGMENT_ENDS) as GhostSegment[]) {
+      const key = `${side}_${segment}` as const;
+      const [startName, endName] = SEGMENT_ENDS[segment];
+      const start = keypoints.get(`${side}_${startName}`);
+      const end = keypoints.get(`${side}_${endName}`);
+      const remembered = (previous[key] ?? 0) * LENGTH_DECAY;
+      const observed = start && end && start.score >= minScore && end.score >= minScore
+        ? Math.hypot(end.x - start.x, end.y - start.y)
+        : 0;
+      const length = Math.max(remembered, observed);
+      if (length > 0) lengths[key] = length;
+    }
+  }
+  return lengths;
+}
+
+/**
+ * Which way the athlete faces along x: +1 or -1. Uses the nose against the
+ * shoulders, then toes against heels.
+ */
+function facingDirection(keypoints: ReadonlyMap<string, Point>, minScore: number): 1 | -1 {
+  const visible = (name: string) => {
+    const point = keypoints.get(name);
+    return point && point.score >= minScore ? point : null;
+  };
+
+  const nose = visible('nose');
+  const leftShoulder = visible('left_shoulder');
+  const rightShoulder = visible('right_shoulder');
+  const shoulder = leftShoulder ?? rightShoulder;
+  if (nose && shoulder) {
+    const shoulderX = leftShoulder && rightShoulder ? (leftShoulder.x + rightShoulder.x) / 2 : shoulder.x;
+    return nose.x >= shoulderX ? 1 : -1;
+  }
+
+  for (const side of ['left', 'right']) {
+    const toe = visible(`${side}_foot_index`);
+    const heel = visible(`${side}_heel`);
+    if (toe && heel) return toe.x >= heel.x ? 1 : -1;
+  }
+  return 1;
+}
+
+/**
+ * Build the ghost skeleton for a reference pose on the athlete's body: limbs
+ * keep the athlete's lengths, the feet stay where the athlete's are (the hips
+ * when the ankles aren't visible), and the joint angles come from the pose.
+ * Coordinates are in the same space as `keypoints`, y pointing down.
+ */
+export function buildGhostSkeleton(
+  keypoints: ReadonlyMap<string, Point>,
+  lengths: LimbLengths,
+  pose: ReferencePose,
+  minScore: number
+): Array<{ name: LandmarkName; x: number; y: number }> {
+  const facing = facingDirection(keypoints, minScore);
+  // Direction `angle` degrees from straight down, positive towards the way the athlete faces
+  const direction = (angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return { x: facing * Math.sin(radians), y: Math.cos(radians) };
+  };
+
+  const torsoUp = 180 - pose.torsoLean;
+  const thighDown = torsoUp - pose.hip; // hip → knee
+  const shinDown = thighDown - (180 - pose.knee); // knee → ankle
+  const upperArmDown = -pose.torsoLean + (pose.shoulder ?? 0); // shoulder → elbow
+  const forearmDown = upperArmDown + (180 - (pose.elbow ?? 180)); // elbow → wrist
+
+  const ghost: Array<{ name: LandmarkName; x: number; y: number }> = [];
+
+  for (const side of ['left', 'right'] as const) {
+    const length = (segment: GhostSegment) => lengths[`${side}_${segment}`];
+    const visible = (name: string) => {
+      const point = keypoints.get(`${side}_${name}`);
+      return point && point.score >= minScore ? point : null;
+    };
+    const step = (from: { x: number; y: number }, angle: number, distance: number) => {
+      const d = direction(angle);
+      return { x: from.x + d.x * distance, y: from.y + d.y * distance };
+    };
+
+    const torso = length('torso');
+    const thigh = length('thigh');
+    const shin = length('shin');
+    if (torso === undefined || thigh === undefined || shin === undefined) continue;
+
+    // Anchor on the ankle so the ghost stands where the athlete stands
+    const athleteAnkle = visible('ankle');
+    const athleteHip = visible('hip');
+    let ankle: { x: number; y: number };
+    let knee: { x: number; y: number };
+    let hip: { x: number; y: number };
+    if (athleteAnkle) {
+      ankle = athleteAnkle;
+      knee = step(ankle, shinDown, -shin);
+      hip = step(knee, thighDown, -thigh);
+    } else if (athleteHip) {
+      hip = athleteHip;
+      knee = step(hip, thighDown, thigh);
+      ankle = step(knee, shinDown, shin);
+    } else {
+      continue;
+    }
+    const shoulder = step(hip, torsoUp, torso);
+
+    ghost.push(
+      { name: `${side}_ankle`, ...ankle },
+      { name: `${side}_knee`, ...knee },
+      { name: `${side}_hip`, ...hip },
+      { name: `${side}_shoulder`, ...shoulder },
+    );
+
+    const upperArm = length('upperArm');
+    const forearm = length('forearm');
+    if (pose.shoulder !== undefined && pose.elbow !== undefined && upperArm !== undefined && forearm !== undefined) {
+      const elbow = step(shoulder, upperArmDown, upperArm);
+      const wrist = step(elbow, forearmDown, forearm);
+      ghost.push({ name: `${side}_elbow`, ...elbow }, { name: `${side}_wrist`, ...wrist });
+    }
+  }
+
+  return ghost;
+}
@@ -0,0 +1,155 @@
+/**
+ * Rep Records
+ *
+ * A structured record of every counted rep: when it started and ended, the
+ * range each tracked joint moved through, the form score and its components,
+ * the faults raised during it and how well the pose was tracked. Records are
+ * saved with the logged set so later screens can break a set down rep by rep.
+ * Partial reps, which the analyzers detect but don't count, are kept
+ * separately along with why they didn't count.
+ *
+ * Like the velocity tracker, the recorder is pure and lives in analyzer state:
+ * feed every analysed frame to updateRepRecorder and call completeRepRecord on
+ * the frame a rep is counted. A rep runs from the previous rep's count (or the
+ * first frame) to its own.
+ */
+
+import { BarbellCurlFormComponents } from './barbellCurlAnalysis';
+import { Keypoint, getKeypoint } from './poseAnalysis';
+import { BodyPart, BodySide, LandmarkName } from './skeleton';
+import { SquatFormComponents } from './squatAnalysis';
+
+export type AngleRange = {
+  min: number;
+  max: number;
+};
+
+/** Form score components of the analyzers that score form by component */
+export type FormScoreComponents = BarbellCurlFormComponents | SquatFormComponents;
+
+/** A feedback message raised during a rep */
+export type RepFault = {
+  time: number; // Frame timestamp (ms) the message first appeared
+  message: string;
+  parts: BodyPart[];
+};
+
+export type RepRecord = {
+  repNumber: number;
+  startTime: number;
+  endTime: number; // Frame on which the rep was counted
+  // Keyed by JointAngles name, or by joint ('elbow', 'knee') for analyzers that track a single angle
+  angleRanges: Record<string, AngleRange>;
+  rangeOfMotion: Record<string, number>; // Degrees between each joint's min and max
+  formScore: number | null;
+  scoreComponents: FormScoreComponents | null; // Only analyzers that score form by component
+  faults: RepFault[];
+  trackingConfidence: number; // Mean landmark confidence (0-1) over the rep
+  side?: BodySide; // Only unilateral analyzers (see unilateralAnalysis.ts)
+};
+
+/** A rep that was started but not counted */
+export type PartialRep = {
+  time: number; // Frame timestamp (ms) it was detected
+  rangeOfMotion: number; // Percent of a full rep's range the joint moved
+  message: string; // Why it didn't count, as shown to the user
+  side?: BodySide; // Only unilateral analyzers
+};
+
+/** The usual explanation for a partial rep: it fell short of the full range. Unilateral analyzers name the limb. */
+export function describeShortRep(rangeOfMotion: number, limb?: string): string {
+  return `Partial ${limb ? `${limb} ` : ''}rep—only ${Math.round(rangeOfMotion)}% of the full range, not counted.`;
+}
+
+/** What the recorder needs from one analysed frame */
+export type RepFrame = {
+  timestamp: number;
+  angles: Record<string, number | null>;
+  feedback: string | null;
+  faultyParts: BodyPart[];
+  confidence: number; // See getTrackingConfidence
+};
+
+type RepInProgress = {
+  startTime: number;
+  angleRanges: Record<string, AngleRange>;
+  faults: RepFault[];
+  confidenceSum: number;
+  frameCount: number;
+};
+
+export type RepRecorder = {
+  current: RepInProgress | null; // Null until the first frame of a rep
+  lastFeedback: string | null; // Feedback of the previous frame, so a held message is only logged once
+  reps: RepRecord[];
+};
+
+export function createRepRecorder(): RepRecorder {
+  return { current: null, lastFeedback: null, reps: [] };
+}
+
+/** Mean confidence of the given landmarks; a missing landmark counts as 0 */
+export function getTrackingConfidence(keypoints: Keypoint[], landmarks: readonly LandmarkName[]): number {
+  if (landmarks.length === 0) return 0;
+  const total = landmarks.reduce((sum, name) => sum + (getKeypoint(keypoints, name)?.score ?? 0), 0);
+  return total / landmarks.length;
+}
+
+export function updateRepRecorder(recorder: RepRecorder, frame: RepFrame): RepRecorder {
+  const current = recorder.current ?? {
+    startTime: frame.timestamp,
+    angleRanges: {},
+    faults: [],
+    confidenceSum: 0,
+    frameCount: 0,
+  };
+
+  const angleRanges = { ...current.angleRanges };
+  for (const [joint, angle] of Object.entries(frame.angles)) {
+    if (angle === null) continue;
+    const range = angleRanges[joint];
+    angleRanges[joint] = range ? { min: Math.min(range.min, angle), max: Math.max(range.max, angle) } : { min: angle, max: angle };
+  }
+
+  const raised = frame.feedback !== null && frame.feedback !== recorder.lastFeedback;
+  return {
+    ...recorder,
+    current: {
+      ...current,
+      angleRanges,
+      faults: raised ? [...current.faults, { time: frame.timestamp, message: frame.feedback!, parts: frame.faultyParts }] : current.faults,
+      confidenceSum: current.confidenceSum + frame.confidence,
+      frameCount: current.frameCount + 1,
+    },
+    lastFeedback: frame.feedback,
+  };
+}
+
+/** Close the rep in progress; the next frame starts a new one */
+export function completeRepRecord(
+  recorder: RepRecorder,
+  endTime: number,
+  formScore: number | null,
+  scoreComponents: FormScoreComponents | null,
+  side?: BodySide
+): RepRecorder {
+  const current = recorder.current ?? { startTime: endTime, angleRanges: {}, faults: [], confidenceSum: 0, frameCount: 0 };
+  const rangeOfMotion: Record<string, number> = {};
+  for (const [joint, range] of Object.entries(current.angleRanges)) {
+    rangeOfMotion[joint] = range.max - range.min;
+  }
+
+  const record: RepRecord = {
+    repNumber: recorder.reps.length + 1,
+    startTime: current.startTime,
+    endTime,
+    angleRanges: current.angleRanges,
+    rangeOfMotion,
+    formScore,
+    scoreComponents,
+    faults: current.faults,
+    trackingConfidence: current.frameCount > 0 ? current.confidenceSum / current.frameCount : 0,
+    ...(side ? { side } : {}),
+  };
+  return { ...recorder, current: null, reps: [...recorder.reps, record] };
+}
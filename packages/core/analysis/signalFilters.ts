@@ -0,0 +1,188 @@
+/**
+ * Signal Filters
+ *
+ * Smoothing for noisy pose signals, usable on joint angles or on landmark
+ * coordinates. Filters are pure: each call takes the previous FilterState and
+ * returns the next one (its `value` is the filtered output), so filter state
+ * can live inside immutable analyzer state and replays stay deterministic.
+ * Filters are timestamp-aware, so behaviour does not depend on frame rate.
+ *
+ * - ema:      fixed exponential average. Simple, but lags on fast movement.
+ * - one-euro: adaptive low-pass (Casiez et al. 2012). Heavy smoothing when the
+ *             signal is still, cutoff rises with speed so reps don't lag.
+ * - kalman:   constant-velocity Kalman filter. Tracks through steady motion
+ *             well; tune processNoise up for snappier response.
+ */
+
+import { Keypoint } from './poseAnalysis';
+
+export type FilterConfig =
+  | { type: 'none' }
+  | { type: 'ema'; alpha: number } // Weight of the new sample (1 = no smoothing)
+  | { type: 'one-euro'; minCutoff: number; beta: number; derivativeCutoff: number } // Cutoffs in Hz
+  | { type: 'kalman'; processNoise: number; measurementNoise: number }; // Acceleration and measurement variance
+
+export type FilterState = {
+  value: number; // Filtered output
+  velocity: number; // Units per second (one-euro and kalman)
+  covariance: [number, number, number]; // Kalman position/velocity covariance [pp, pv, vv]
+  timestamp: number; // ms
+};
+
+/** Smoothing applied by one analyzer: landmark positions first, then joint angles */
+export type SmoothingPreset = {
+  landmarks: FilterConfig;
+  angles: FilterConfig;
+};
+
+export type LandmarkFilterState = Record<string, { x: FilterState; y: FilterState; z: FilterState | null }>;
+
+const NO_FILTER: FilterConfig = { type: 'none' };
+const INITIAL_KALMAN_COVARIANCE: [number, number, number] = [1, 0, 1];
+
+/**
+ * Same response as the old fixed ANGLE_SMOOTHING = 0.1 (90% current, 10% previous)
+ */
+export const DEFAULT_SMOOTHING: SmoothingPreset = {
+  landmarks: NO_FILTER,
+  angles: { type: 'ema', alpha: 0.9 },
+};
+
+/**
+ * Per-analyzer presets, keyed by analyzer id (see exerciseAnalyzers.ts).
+ * Angle cutoffs are tuned for deg/s: a curl or squat moves at 100-200°/s,
+ * which lifts the One-Euro cutoff to ~8-10Hz mid-rep, while a held position
+ * is smoothed at the 1-1.5Hz minimum. The barbell curl times its phases to the
+ * frame, so it uses a higher beta to keep transitions within a frame of the raw angle.
+ */
+export const SMOOTHING_PRESETS: Record<string, SmoothingPreset> = {
+  'auto-detect': DEFAULT_SMOOTHING,
+  'bicep-curl': {
+    landmarks: NO_FILTER,
+    angles: { type: 'one-euro', minCutoff: 1.5, beta: 0.05, derivativeCutoff: 1 },
+  },
+  'unilateral-curl': {
+    landmarks: NO_FILTER,
+    angles: { type: 'one-euro', minCutoff: 1.5, beta: 0.05, derivativeCutoff: 1 },
+  },
+  'push-up': {
+    landmarks: NO_FILTER,
+    angles: { type: 'one-euro', minCutoff: 1, beta: 0.05, derivativeCutoff: 1 },
+  },
+  'squat': {
+    landmarks: NO_FILTER,
+    angles: { type: 'one-euro', minCutoff: 1, beta: 0.05, derivativeCutoff: 1 },
+  },
+  'lunge': {
+    landmarks: NO_FILTER,
+    angles: { type: 'one-euro', minCutoff: 1, beta: 0.05, derivativeCutoff: 1 },
+  },
+  'barbell-curl': {
+    // Shoulder and hip landmarks feed several angles each, so smooth them at the source too
+    landmarks: { type: 'kalman', processNoise: 50, measurementNoise: 0.0001 },
+    angles: { type: 'one-euro', minCutoff: 1.5, beta: 0.15, derivativeCutoff: 1 },
+  },
+};
+
+export function getSmoothingPreset(analyzerId: string): SmoothingPreset {
+  return SMOOTHING_PRESETS[analyzerId] ?? DEFAULT_SMOOTHING;
+}
+
+/** Smoothing factor of a first-order low-pass filter with the given cutoff (Hz) */
+function lowPassAlpha(cutoffHz: number, dtSec: number): number {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dtSec);
+}
+
+/**
+ * Feed one sample through a filter. Pass null to start a new signal.
+ * Samples with a timestamp at or before the previous one are ignored.
+ */
+export function filterValue(
+  config: FilterConfig,
+  state: FilterState | null,
+  value: number,
+  timestamp: number
+): FilterState {
+  if (config.type === 'none' || state === null) {
+    return { value, velocity: 0, covariance: INITIAL_KALMAN_COVARIANCE, timestamp };
+  }
+
+  const dtSec = (timestamp - state.timestamp) / 1000;
+  if (dtSec <= 0) {
+    return state;
+  }
+
+  switch (config.type) {
+    case 'ema':
+      return {
+        ...state,
+        value: state.value + config.alpha * (value - state.value),
+        timestamp,
+      };
+
+    case 'one-euro': {
+      const rawVelocity = (value - state.value) / dtSec;
+      const velocity = state.velocity + lowPassAlpha(config.derivativeCutoff, dtSec) * (rawVelocity - state.velocity);
+      const cutoff = config.minCutoff + config.beta * Math.abs(velocity);
+      return {
+        ...state,
+        value: state.value + lowPassAlpha(cutoff, dtSec) * (value - state.value),
+        velocity,
+        timestamp,
+      };
+    }
+
+    case 'kalman': {
+      // Predict with constant velocity; process noise is white acceleration
+      const [pp, pv, vv] = state.covariance;
+      const q = config.processNoise;
+      const predictedValue = state.value + state.velocity * dtSec;
+      const ppPred = pp + 2 * dtSec * pv + dtSec * dtSec * vv + (q * dtSec ** 3) / 3;
+      const pvPred = pv + dtSec * vv + (q * dtSec ** 2) / 2;
+      const vvPred = vv + q * dtSec;
+
+      // Correct with the measurement
+      const innovation = value - predictedValue;
+      const innovationVariance = ppPred + config.measurementNoise;
+      const gainValue = ppPred / innovationVariance;
+      const gainVelocity = pvPred / innovationVariance;
+      return {
+        value: predictedValue + gainValue * innovation,
+        velocity: state.velocity + gainVelocity * innovation,
+        covariance: [
+          (1 - gainValue) * ppPred,
+          (1 - gainValue) * pvPred,
+          vvPred - gainVelocity * pvPred,
+        ],
+        timestamp,
+      };
+    }
+  }
+}
+
+/**
+ * Smooth landmark coordinates. Each landmark is filtered per axis by name;
+ * landmarks missing from a frame keep their state until they reappear.
+ */
+export function filterKeypoints(
+  config: FilterConfig,
+  state: LandmarkFilterState,
+  keypoints: Keypoint[],
+  timestamp: number
+): { keypoints: Keypoint[]; state: LandmarkFilterState } {
+  if (config.type === 'none') {
+    return { keypoints, state };
+  }
+
+  const nextState: LandmarkFilterState = { ...state };
+  const filtered = keypoints.map(kp => {
+    const previous = state[kp.name];
+    const x = filterValue(config, previous?.x ?? null, kp.x, timestamp);
+    const y = filterValue(config, previous?.y ?? null, kp.y, timestamp);
+    const z = kp.z !== undefined ? filterValue(config, previous?.z ?? null, kp.z, timestamp) : null;
+    nextState[kp.name] = { x, y, z };
+    return { ...kp, x: x.value, y: y.value, ...(z ? { z: z.value } : {}) };
+  });
+  return { keypoints: filtered, state: nextState };
+}
@@ -0,0 +1,216 @@
+/**
+ * Skeleton Schema
+ *
+ * One landmark vocabulary for every pose model. Landmark names follow
+ * MediaPipe Pose (33 points), which is a superset of MoveNet's 17, so an
+ * analyzer written against LandmarkName works with either model. Each
+ * skeleton carries capability flags describing what its model provides, so
+ * analyzers can check their requirements up front and degrade gracefully
+ * (e.g. fall back to 2D angles when there is no depth).
+ *
+ * Side convention: left_/right_ landmarks are the athlete's own left and right,
+ * and coordinates are as seen by an unmirrored camera, whichever camera took
+ * the frame. A backend whose front-camera frames come out mirrored passes them
+ * through unmirrorSkeleton before delivering them, so analyzers, the overlay
+ * and recordings all see the same sides.
+ */
+
+import { Keypoint } from './poseAnalysis';
+import { LandmarkSource } from './poseRecording';
+
+/** All landmark names, in MediaPipe Pose output order */
+export const LANDMARK_NAMES = [
+  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
+  'right_eye_inner', 'right_eye', 'right_eye_outer',
+  'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_pinky', 'right_pinky',
+  'left_index', 'right_index', 'left_thumb', 'right_thumb',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee',
+  'left_ankle', 'right_ankle', 'left_heel', 'right_heel',
+  'left_foot_index', 'right_foot_index',
+] as const;
+
+export type LandmarkName = (typeof LANDMARK_NAMES)[number];
+
+/** MediaPipe Pose landmarks, in model output order */
+export const MEDIAPIPE_LANDMARK_NAMES: readonly LandmarkName[] = LANDMARK_NAMES;
+
+/** MoveNet landmarks, in model output order */
+export const MOVENET_LANDMARK_NAMES: readonly LandmarkName[] = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+];
+
+const HAND_LANDMARKS: readonly LandmarkName[] = [
+  'left_pinky', 'right_pinky', 'left_index', 'right_index', 'left_thumb', 'right_thumb',
+];
+const FOOT_LANDMARKS: readonly LandmarkName[] = [
+  'left_heel', 'right_heel', 'left_foot_index', 'right_foot_index',
+];
+
+/** Bones drawn between landmarks (MediaPipe's pose connections); MoveNet draws the subset it has */
+export const SKELETON_CONNECTIONS: ReadonlyArray<readonly [LandmarkName, LandmarkName]> = [
+  // Face
+  ['nose', 'left_eye_inner'], ['left_eye_inner', 'left_eye'], ['left_eye', 'left_eye_outer'], ['left_eye_outer', 'left_ear'],
+  ['nose', 'right_eye_inner'], ['right_eye_inner', 'right_eye'], ['right_eye', 'right_eye_outer'], ['right_eye_outer', 'right_ear'],
+  ['mouth_left', 'mouth_right'],
+  // Torso
+  ['left_shoulder', 'right_shoulder'], ['left_hip', 'right_hip'],
+  ['left_shoulder', 'left_hip'], ['right_shoulder', 'right_hip'],
+  // Arms and hands
+  ['left_shoulder', 'left_elbow'], ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'], ['right_elbow', 'right_wrist'],
+  ['left_wrist', 'left_pinky'], ['left_wrist', 'left_index'], ['left_pinky', 'left_index'], ['left_wrist', 'left_thumb'],
+  ['right_wrist', 'right_pinky'], ['right_wrist', 'right_index'], ['right_pinky', 'right_index'], ['right_wrist', 'right_thumb'],
+  // Legs and feet
+  ['left_hip', 'left_knee'], ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'], ['right_knee', 'right_ankle'],
+  ['left_ankle', 'left_heel'], ['left_heel', 'left_foot_index'], ['left_ankle', 'left_foot_index'],
+  ['right_ankle', 'right_heel'], ['right_heel', 'right_foot_index'], ['right_ankle', 'right_foot_index'],
+];
+
+/** The athlete's own left or right (not the side of the image it appears on) */
+export type BodySide = 'left' | 'right';
+
+/** Body segments an analyzer can flag as the source of a form fault */
+export type BodyPart =
+  | 'leftUpperArm' | 'rightUpperArm'
+  | 'leftForearm' | 'rightForearm'
+  | 'shoulders' | 'hips'
+  | 'leftTorso' | 'rightTorso'
+  | 'leftThigh' | 'rightThigh'
+  | 'leftShin' | 'rightShin';
+
+/** The bone each body part is drawn as */
+export const BODY_PART_SEGMENTS: Record<BodyPart, readonly [LandmarkName, LandmarkName]> = {
+  leftUpperArm: ['left_shoulder', 'left_elbow'],
+  rightUpperArm: ['right_shoulder', 'right_elbow'],
+  leftForearm: ['left_elbow', 'left_wrist'],
+  rightForearm: ['right_elbow', 'right_wrist'],
+  shoulders: ['left_shoulder', 'right_shoulder'],
+  hips: ['left_hip', 'right_hip'],
+  leftTorso: ['left_shoulder', 'left_hip'],
+  rightTorso: ['right_shoulder', 'right_hip'],
+  leftThigh: ['left_hip', 'left_knee'],
+  rightThigh: ['right_hip', 'right_knee'],
+  leftShin: ['left_knee', 'left_ankle'],
+  rightShin: ['right_knee', 'right_ankle'],
+};
+
+/** What a pose model provides */
+export type SkeletonCapabilities = {
+  landmarks: readonly LandmarkName[]; // Landmarks the model outputs
+  hasDepth: boolean; // Keypoints carry a meaningful z
+  hasHands: boolean; // Pinky, index and thumb points
+  hasFeet: boolean; // Heel and toe points
+};
+
+/** One frame of pose landmarks plus what the model behind it can provide */
+export type Skeleton = {
+  keypoints: Keypoint[];
+  source: LandmarkSource;
+  capabilities: SkeletonCapabilities;
+};
+
+export const MEDIAPIPE_CAPABILITIES: SkeletonCapabilities = {
+  landmarks: MEDIAPIPE_LANDMARK_NAMES,
+  hasDepth: true,
+  hasHands: true,
+  hasFeet: true,
+};
+
+export const MOVENET_CAPABILITIES: SkeletonCapabilities = {
+  landmarks: MOVENET_LANDMARK_NAMES,
+  hasDepth: false,
+  hasHands: false,
+  hasFeet: false,
+};
+
+/**
+ * Work out capabilities from a list of landmark names, e.g. for a recorded
+ * session. Depth is assumed only for world landmarks.
+ */
+export function capabilitiesFromLandmarks(names: readonly string[], source: LandmarkSource): SkeletonCapabilities {
+  const landmarks = LANDMARK_NAMES.filter(name => names.includes(name));
+  return {
+    landmarks,
+    hasDepth: source === 'world',
+    hasHands: HAND_LANDMARKS.every(name => landmarks.includes(name)),
+    hasFeet: FOOT_LANDMARKS.every(name => landmarks.includes(name)),
+  };
+}
+
+/**
+ * Landmarks from `required` that a model does not provide (empty when it can run the analyzer)
+ */
+export function getMissingLandmarks(
+  capabilities: SkeletonCapabilities,
+  required: readonly LandmarkName[]
+): LandmarkName[] {
+  return required.filter(name => !capabilities.landmarks.includes(name));
+}
+
+// Each landmark's counterpart on the other side of the body (nose maps to itself)
+const MIRRORED_LANDMARK_NAMES: Record<string, string> = Object.fromEntries(
+  LANDMARK_NAMES.map(name => [
+    name,
+    name.replace(/left|right/, side => (side === 'left' ? 'right' : 'left')),
+  ])
+);
+
+/**
+ * Undo a mirrored camera image: swap left and right landmark names so they
+ * name the athlete's own sides, and reflect x back into the camera's view.
+ * Image x is normalized (0-1); world x is metres around the hip midpoint.
+ */
+export function unmirrorSkeleton(skeleton: Skeleton): Skeleton {
+  const keypoints = skeleton.keypoints.map(kp => ({
+    ...kp,
+    name: MIRRORED_LANDMARK_NAMES[kp.name] ?? kp.name,
+    x: skeleton.source === 'world' ? -kp.x : 1 - kp.x,
+  }));
+  return { ...skeleton, keypoints };
+}
+
+/** Landmark shape emitted by the MediaPipe plugin (image or world) */
+export type MediaPipeLandmark = {
+  x?: number;
+  y?: number;
+  z?: number;
+  visibility?: number;
+};
+
+/**
+ * Build a skeleton from MediaPipe Pose output. Image landmarks are
+ * normalized 0-1; world landmarks are metres around the hip midpoint.
+ */
+export function fromMediaPipeLandmarks(landmarks: MediaPipeLandmark[], source: LandmarkSource): Skeleton {
+  const keypoints: Keypoint[] = landmarks.map((landmark, index) => ({
+    name: MEDIAPIPE_LANDMARK_NAMES[index] ?? `landmark_${index}`,
+    x: landmark.x ?? 0,
+    y: landmark.y ?? 0,
+    z: typeof landmark.z === 'number' ? landmark.z : 0,
+    score: landmark.visibility !== undefined ? landmark.visibility : 1.0,
+  }));
+  return { keypoints, source, capabilities: MEDIAPIPE_CAPABILITIES };
+}
+
+/**
+ * Build a skeleton from MoveNet's flat output ([y, x, score] per landmark,
+ * normalized to the model input). `mapPoint` converts model coordinates into
+ * the caller's space, e.g. undoing letterboxing and scaling to the preview.
+ * There is no z, so angles computed from these keypoints are 2D.
+ */
+export function fromMoveNetOutput(
+  output: ArrayLike<number>,
+  mapPoint: (x: number, y: number) => { x: number; y: number } = (x, y) => ({ x, y })
+): Skeleton {
+  const keypoints: Keypoint[] = MOVENET_LANDMARK_NAMES.map((name, index) => {
+    const { x, y } = mapPoint(output[index * 3 + 1], output[index * 3]);
+    return { name, x, y, score: output[index * 3 + 2] };
+  });
+  return { keypoints, source: 'image', capabilities: MOVENET_CAPABILITIES };
+}
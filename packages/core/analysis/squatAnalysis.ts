@@ -0,0 +1,618 @@
+/**
+ * Squat Analysis
+ *
+ * Tracks squats through their phases (standing, descent, bottom, ascent) and
+ * checks what makes or breaks a squat: depth (hip crease against the knee),
+ * knees caving in (valgus), knees travelling past the toes, heels lifting and
+ * the torso folding forward. Faults raise prioritized cues while the rep is
+ * under way, and each counted rep is scored by component, as the barbell curl
+ * is (see barbellCurlAnalysis.ts).
+ *
+ * Positions are measured against the athlete's own segments, taken while
+ * standing: depth as a percent of the thigh, knee travel and heel lift as a
+ * percent of the shin, knee valgus as a percent of the stance width. Each
+ * check only runs when the camera view can see it (see viewingAngle.ts), and
+ * the heel and toe checks need a model with foot landmarks.
+ */
+
+import { Keypoint, calculateAngle, getKeypoint, isVisible } from './poseAnalysis';
+import { FilterConfig, FilterState, SMOOTHING_PRESETS, filterValue } from './signalFilters';
+import { BodyPart, BodySide, capabilitiesFromLandmarks } from './skeleton';
+import { ViewMetric, ViewTracker, createViewTracker, isMetricTrusted, updateViewTracker } from './viewingAngle';
+import {
+  BodyCalibration,
+  REFERENCE_ROM,
+  getCalibratedRange,
+  personalizeExtensionThreshold,
+  personalizeFlexionThreshold,
+} from './bodyCalibration';
+import { PartialRep, describeShortRep } from './repRecords';
+
+/** Per-frame values the analyzer smooths and checks */
+type SquatSignal =
+  | 'leftKnee' | 'rightKnee' // Interior hip-knee-ankle angle (deg)
+  | 'leftHip' | 'rightHip' // Interior shoulder-hip-knee angle (deg)
+  | 'torsoLean' // Hip to shoulder midpoint, degrees forward of vertical
+  | 'hipDepth' // Hip below the knee, % of the standing thigh (0 = level, negative = above)
+  | 'kneeInset' // Knees inside the ankles, % of the ankle width (negative = outside)
+  | 'kneeTravel' // Knee ahead of the toes, % of the standing shin
+  | 'heelHeight'; // Heel above the toes, % of the standing shin
+
+type SquatSignals = Record<SquatSignal, number | null>;
+
+/** Segment lengths and heel height while standing, which the position signals are measured against */
+type StandingReference = {
+  thigh: number;
+  shin: number;
+  heelHeight: number | null;
+};
+
+/** The worst of each fault over the rep so far; null until measured */
+type RepFormMeasures = {
+  maxHipDepth: number | null;
+  maxKneeInset: number | null;
+  maxKneeTravel: number | null;
+  maxHeelLift: number | null;
+  maxTorsoLean: number | null;
+};
+
+export interface SquatState {
+  phase: 'idle' | 'top' | 'descent' | 'bottom' | 'ascent';
+  repCount: number;
+  formScore: number;
+  feedback: string | null;
+  feedbackParts: BodyPart[]; // Body parts the current feedback is about
+  phaseStartTime: number;
+  lastFeedbackTime: number;
+
+  // Smoothed signals of the last analysed frame (see signalFilters.ts); a filter restarts when its signal drops out
+  signals: SquatSignals;
+  signalSmoothing: FilterConfig;
+  signalFilters: Partial<Record<SquatSignal, FilterState>>;
+
+  // Camera view: decides which checks the pose can support (see viewingAngle.ts)
+  view: ViewTracker;
+
+  // Knee thresholds, personalized by body calibration
+  thresholds: SquatThresholds;
+
+  // Taken while standing between reps
+  standing: StandingReference | null;
+
+  // Rep-level tracking
+  repStartKnee: number; // Straightest knee while standing before the rep
+  repBottomKnee: number; // Most bent knee of the rep
+  bottomSince: number | null; // When the knee last reached the bottom during the descent
+  partialReps: PartialRep[]; // Reps that were started but didn't count, with why
+
+  // Quality metrics: measured over each rep, scored when it counts (see scoreRepForm)
+  formMeasures: RepFormMeasures;
+  depth: number;
+  kneeAlignment: number;
+  torsoPosition: number;
+  heelContact: number;
+  kneeTravel: number;
+}
+
+/** Knee angles (degrees) the phases switch on */
+export interface SquatThresholds {
+  standingKnee: number; // Standing tall: start position and rep end
+  descentKnee: number; // Below this the squat has started
+  bottomKnee: number; // At or below this the rep is deep enough to count
+  bottomExitKnee: number; // Above this the athlete is on the way up
+  fullRange: number; // Degrees of knee travel scored as a full rep, for partial reps
+}
+
+export const DEFAULT_SQUAT_THRESHOLDS: SquatThresholds = {
+  standingKnee: 160,
+  descentKnee: 150,
+  bottomKnee: 120,
+  bottomExitKnee: 125,
+  fullRange: 90,
+};
+
+/**
+ * Move the knee thresholds onto the user's calibrated range, never making
+ * them stricter than the defaults (see bodyCalibration.ts).
+ */
+export function personalizeSquatThresholds(calibration: BodyCalibration | null | undefined): SquatThresholds {
+  const range = getCalibratedRange(calibration, 'knee');
+  if (!range) return DEFAULT_SQUAT_THRESHOLDS;
+
+  const reference = REFERENCE_ROM.knee;
+  const defaults = DEFAULT_SQUAT_THRESHOLDS;
+  const rangeScale = (range.extension - range.flexion) / (reference.extension - reference.flexion);
+  return {
+    standingKnee: personalizeExtensionThreshold(defaults.standingKnee, reference, range),
+    descentKnee: personalizeExtensionThreshold(defaults.descentKnee, reference, range),
+    bottomKnee: personalizeFlexionThreshold(defaults.bottomKnee, reference, range),
+    bottomExitKnee: personalizeFlexionThreshold(defaults.bottomExitKnee, reference, range),
+    fullRange: Math.min(defaults.fullRange, defaults.fullRange * rangeScale),
+  };
+}
+
+export interface SquatFeedback {
+  message: string;
+  priority: number; // 1 = safety, 2 = form
+  parts: BodyPart[]; // Where the fault is
+}
+
+/** A rep's form score components (0-100 each), see calculateFormScore */
+export interface SquatFormComponents {
+  depth: number;
+  kneeAlignment: number;
+  torsoPosition: number;
+  heelContact: number;
+  kneeTravel: number;
+}
+
+const TORSO: BodyPart[] = ['leftTorso', 'rightTorso'];
+const THIGHS: BodyPart[] = ['leftThigh', 'rightThigh'];
+const SHINS: BodyPart[] = ['leftShin', 'rightShin'];
+const LEGS: BodyPart[] = [...THIGHS, ...SHINS];
+
+const FEEDBACK_DURATION_MS = 2000;
+const MIN_FEEDBACK_INTERVAL_MS = 1000;
+const MIN_PHASE_DURATION_MS = 250;
+// The knee must stay at the bottom this long before the rep counts as deep, so one noisy frame doesn't
+const MIN_BOTTOM_DWELL_MS = 100;
+
+// Standing tall: torso within this of vertical
+const STANDING_MAX_TORSO_LEAN = 30;
+// Leaning further than this is a hinge, plank or push-up, not a squat
+const MAX_TORSO_LEAN = 75;
+
+// Cue thresholds, on the smoothed signals
+const VALGUS_CUE_INSET = 20;
+const HEEL_LIFT_CUE = 6;
+const TORSO_LEAN_CUE_DEG = 55;
+const KNEE_TRAVEL_CUE = 25;
+
+// The hip crease sits below the hip joint, so it reaches the top of the knee with the joint this far above the knee
+const PARALLEL_HIP_DEPTH = -10;
+
+// Form score components: full marks up to the tolerance, nothing at the limit
+const DEPTH_SHORTFALL_LIMIT = 50; // % of the thigh above parallel
+const KNEE_INSET_TOLERANCE = 10;
+const KNEE_INSET_LIMIT = 40;
+const TORSO_LEAN_TOLERANCE_DEG = 45;
+const TORSO_LEAN_LIMIT_DEG = 70;
+const HEEL_LIFT_TOLERANCE = 4;
+const HEEL_LIFT_LIMIT = 15;
+const KNEE_TRAVEL_TOLERANCE = 15;
+const KNEE_TRAVEL_LIMIT = 40;
+
+// The ankles must be at least this far apart, as a fraction of the hips, to measure the knees against them
+const MIN_STANCE_FRACTION = 0.5;
+
+/** Lower threshold to accept MediaPipe's estimated landmarks when a limb is occluded (e.g. side-on view) */
+const VISIBILITY_THRESHOLD = 0.1;
+
+const SIDES: readonly BodySide[] = ['left', 'right'];
+
+type Joint = 'shoulder' | 'hip' | 'knee' | 'ankle' | 'heel' | 'foot_index';
+
+function visiblePoint(keypoints: Keypoint[], name: `${BodySide}_${Joint}`): Keypoint | null {
+  const keypoint = getKeypoint(keypoints, name);
+  return keypoint && isVisible(keypoint, VISIBILITY_THRESHOLD) ? keypoint : null;
+}
+
+const distance = (a: Keypoint, b: Keypoint, useDepth: boolean) =>
+  Math.hypot(b.x - a.x, b.y - a.y, useDepth ? (b.z ?? 0) - (a.z ?? 0) : 0);
+
+const midpoint = (a: Keypoint, b: Keypoint): Keypoint => ({
+  name: 'midpoint',
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  z: ((a.z ?? 0) + (b.z ?? 0)) / 2,
+  score: Math.min(a.score, b.score),
+});
+
+/** Unit vector along from→to in the ground plane (x and, with depth, z), or null when it has no length */
+function groundDirection(from: Keypoint, to: Keypoint, useDepth: boolean): { x: number; z: number } | null {
+  const x = to.x - from.x;
+  const z = useDepth ? (to.z ?? 0) - (from.z ?? 0) : 0;
+  const length = Math.hypot(x, z);
+  return length > 0 ? { x: x / length, z: z / length } : null;
+}
+
+const alongGround = (from: Keypoint, to: Keypoint, direction: { x: number; z: number }, useDepth: boolean) =>
+  (to.x - from.x) * direction.x + (useDepth ? ((to.z ?? 0) - (from.z ?? 0)) * direction.z : 0);
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+/**
+ * Measure one frame's raw signals. Side-on, the far limbs are the model's
+ * guesses, so per-side positions come from the near side only. Position
+ * signals need the standing reference, and heel height a model with foot
+ * landmarks (MoveNet has none).
+ */
+function measureSignals(keypoints: Keypoint[], view: ViewTracker, standing: StandingReference | null): SquatSignals {
+  const useDepth = view.hasDepth;
+  const { hasFeet } = capabilitiesFromLandmarks(keypoints.map(kp => kp.name), useDepth ? 'world' : 'image');
+  const point = (side: BodySide, joint: Joint) => visiblePoint(keypoints, `${side}_${joint}`);
+  const angle = (side: BodySide, a: Joint, b: Joint, c: Joint) => {
+    const [pa, pb, pc] = [point(side, a), point(side, b), point(side, c)];
+    return pa && pb && pc ? calculateAngle(pa, pb, pc) : null;
+  };
+  const nearSides = view.view === 'side' && view.nearSide ? [view.nearSide] : SIDES;
+
+  const signals: SquatSignals = {
+    leftKnee: angle('left', 'hip', 'knee', 'ankle'),
+    rightKnee: angle('right', 'hip', 'knee', 'ankle'),
+    leftHip: angle('left', 'shoulder', 'hip', 'knee'),
+    rightHip: angle('right', 'shoulder', 'hip', 'knee'),
+    torsoLean: null,
+    hipDepth: null,
+    kneeInset: null,
+    kneeTravel: null,
+    heelHeight: null,
+  };
+  if (nearSides.length === 1) {
+    const far = nearSides[0] === 'left' ? 'right' : 'left';
+    for (const joint of ['Knee', 'Hip'] as const) {
+      if (signals[`${nearSides[0]}${joint}`] !== null) signals[`${far}${joint}`] = null;
+    }
+  }
+
+  // Torso line through the shoulder and hip midpoints, or the near side's side-on
+  const [leftHip, rightHip] = [point('left', 'hip'), point('right', 'hip')];
+  const torsoEnd = (joint: Joint) => {
+    const ends = nearSides.map(side => point(side, joint));
+    if (ends.some(end => end === null)) return null;
+    return ends.length === 2 ? midpoint(ends[0]!, ends[1]!) : ends[0];
+  };
+  const shoulders = torsoEnd('shoulder');
+  const hips = torsoEnd('hip');
+  if (shoulders && hips) {
+    const forward = Math.hypot(shoulders.x - hips.x, useDepth ? (shoulders.z ?? 0) - (hips.z ?? 0) : 0);
+    signals.torsoLean = Math.atan2(forward, hips.y - shoulders.y) * (180 / Math.PI);
+  }
+
+  // Knees against the ankles along the hip line, which is how the stance faces
+  const [leftKnee, rightKnee] = [point('left', 'knee'), point('right', 'knee')];
+  const [leftAnkle, rightAnkle] = [point('left', 'ankle'), point('right', 'ankle')];
+  if (leftHip && rightHip && leftKnee && rightKnee && leftAnkle && rightAnkle) {
+    const hipLine = groundDirection(rightHip, leftHip, useDepth);
+    if (hipLine) {
+      const hipWidth = alongGround(rightHip, leftHip, hipLine, useDepth);
+      const ankleWidth = alongGround(rightAnkle, leftAnkle, hipLine, useDepth);
+      if (ankleWidth > hipWidth * MIN_STANCE_FRACTION) {
+        signals.kneeInset = (1 - alongGround(rightKnee, leftKnee, hipLine, useDepth) / ankleWidth) * 100;
+      }
+    }
+  }
+
+  if (!standing) return signals;
+
+  const depths: number[] = [];
+  const travels: number[] = [];
+  const heelHeights: number[] = [];
+  for (const side of nearSides) {
+    const [hip, knee, ankle] = [point(side, 'hip'), point(side, 'knee'), point(side, 'ankle')];
+    if (hip && knee) {
+      depths.push(((hip.y - knee.y) / standing.thigh) * 100);
+    }
+    const [heel, toe] = [point(side, 'heel'), point(side, 'foot_index')];
+    if (knee && ankle && toe) {
+      const footLine = groundDirection(ankle, toe, useDepth);
+      if (footLine) travels.push((alongGround(toe, knee, footLine, useDepth) / standing.shin) * 100);
+    }
+    if (hasFeet && heel && toe) {
+      heelHeights.push(((toe.y - heel.y) / standing.shin) * 100);
+    }
+  }
+  signals.hipDepth = average(depths);
+  signals.kneeTravel = travels.length > 0 ? Math.max(...travels) : null;
+  signals.heelHeight = average(heelHeights);
+  return signals;
+}
+
+/** Smooth the raw signals with the state's filter */
+function smoothSignals(
+  raw: SquatSignals,
+  state: SquatState,
+  currentTime: number
+): { signals: SquatSignals; filters: SquatState['signalFilters'] } {
+  const signals = { ...raw };
+  const filters: SquatState['signalFilters'] = {};
+  for (const signal of Object.keys(raw) as SquatSignal[]) {
+    const value = raw[signal];
+    if (value === null) continue;
+    const filtered = filterValue(state.signalSmoothing, state.signalFilters[signal] ?? null, value, currentTime);
+    filters[signal] = filtered;
+    signals[signal] = filtered.value;
+  }
+  return { signals, filters };
+}
+
+/** Mean of the measured sides; side-on, the near side stands in for the hidden one */
+function meanOfSides(left: number | null, right: number | null): number | null {
+  if (left !== null && right !== null) return (left + right) / 2;
+  return left ?? right;
+}
+
+/** Standing segment lengths, or null when the near leg isn't fully visible */
+function measureStanding(keypoints: Keypoint[], view: ViewTracker, signals: SquatSignals): StandingReference | null {
+  const sides = view.view === 'side' && view.nearSide ? [view.nearSide] : SIDES;
+  const thighs: number[] = [];
+  const shins: number[] = [];
+  for (const side of sides) {
+    const [hip, knee, ankle] = (['hip', 'knee', 'ankle'] as const).map(joint => visiblePoint(keypoints, `${side}_${joint}`));
+    if (hip && knee) thighs.push(distance(hip, knee, view.hasDepth));
+    if (knee && ankle) shins.push(distance(knee, ankle, view.hasDepth));
+  }
+  const thigh = average(thighs);
+  const shin = average(shins);
+  if (!thigh || !shin) return null;
+  return { thigh, shin, heelHeight: signals.heelHeight };
+}
+
+/**
+ * Generate feedback for the current frame: safety first (knees caving in,
+ * heels lifting, folding forward), then depth and knee travel.
+ */
+function generateFeedback(state: SquatState, currentTime: number): SquatFeedback | null {
+  if (currentTime - state.lastFeedbackTime < MIN_FEEDBACK_INTERVAL_MS) return null;
+  if (state.phase === 'idle' || state.phase === 'top') return null;
+
+  const { signals, standing } = state;
+  const trusted = (metric: ViewMetric) => isMetricTrusted(state.view, metric);
+
+  // Priority 1: Safety
+  if (trusted('kneeValgus') && signals.kneeInset !== null && signals.kneeInset > VALGUS_CUE_INSET) {
+    return { message: "Push your knees out over your toes.", priority: 1, parts: LEGS };
+  }
+  const heelLift = trusted('heelLift') ? getHeelLift(signals, standing) : null;
+  if (heelLift !== null && heelLift > HEEL_LIFT_CUE) {
+    return { message: "Keep your heels down—push through the whole foot.", priority: 1, parts: SHINS };
+  }
+  if (trusted('torsoLean') && signals.torsoLean !== null && signals.torsoLean > TORSO_LEAN_CUE_DEG) {
+    return { message: "Chest up—don't fold forward.", priority: 1, parts: TORSO };
+  }
+
+  // Priority 2: Form
+  if (state.phase === 'ascent' && (state.formMeasures.maxHipDepth ?? -Infinity) < PARALLEL_HIP_DEPTH) {
+    return { message: "Squat deeper—get your hips down to knee height.", priority: 2, parts: ['hips', ...THIGHS] };
+  }
+  if (trusted('kneeTravel') && signals.kneeTravel !== null && signals.kneeTravel > KNEE_TRAVEL_CUE) {
+    return { message: "Sit back—keep your knees from drifting past your toes.", priority: 2, parts: SHINS };
+  }
+
+  return null;
+}
+
+/** Heel height above its standing height, or null when the heels or the reference aren't measured */
+function getHeelLift(signals: SquatSignals, standing: StandingReference | null): number | null {
+  if (signals.heelHeight === null || standing?.heelHeight == null) return null;
+  return signals.heelHeight - standing.heelHeight;
+}
+
+function createFormMeasures(): RepFormMeasures {
+  return { maxHipDepth: null, maxKneeInset: null, maxKneeTravel: null, maxHeelLift: null, maxTorsoLean: null };
+}
+
+const maxOf = (current: number | null, value: number | null) =>
+  value === null ? current : current === null ? value : Math.max(current, value);
+
+/** Add a frame of the rep to its form measures. Each is only measured while the camera view supports it. */
+function measureRepForm(measures: RepFormMeasures, state: SquatState): RepFormMeasures {
+  const { signals, view } = state;
+  return {
+    maxHipDepth: maxOf(measures.maxHipDepth, signals.hipDepth),
+    maxKneeInset: isMetricTrusted(view, 'kneeValgus') ? maxOf(measures.maxKneeInset, signals.kneeInset) : measures.maxKneeInset,
+    maxKneeTravel: isMetricTrusted(view, 'kneeTravel') ? maxOf(measures.maxKneeTravel, signals.kneeTravel) : measures.maxKneeTravel,
+    maxHeelLift: isMetricTrusted(view, 'heelLift') ? maxOf(measures.maxHeelLift, getHeelLift(signals, state.standing)) : measures.maxHeelLift,
+    maxTorsoLean: isMetricTrusted(view, 'torsoLean') ? maxOf(measures.maxTorsoLean, signals.torsoLean) : measures.maxTorsoLean,
+  };
+}
+
+/** 100 up to the tolerance, falling linearly to 0 at the limit; 100 when not measured */
+function scoreDeviation(deviation: number | null, tolerance: number, limit: number): number {
+  if (deviation === null || deviation <= tolerance) return 100;
+  return Math.max(0, 100 * (1 - (deviation - tolerance) / (limit - tolerance)));
+}
+
+/**
+ * Score the counted rep's form components from the worst of each fault over
+ * it. A component the camera view or the model couldn't measure scores 100
+ * rather than counting against the rep.
+ */
+function scoreRepForm(state: SquatState): void {
+  const measures = state.formMeasures;
+  const depthShortfall = measures.maxHipDepth === null ? null : PARALLEL_HIP_DEPTH - measures.maxHipDepth;
+  state.depth = scoreDeviation(depthShortfall, 0, DEPTH_SHORTFALL_LIMIT);
+  state.kneeAlignment = scoreDeviation(measures.maxKneeInset, KNEE_INSET_TOLERANCE, KNEE_INSET_LIMIT);
+  state.torsoPosition = scoreDeviation(measures.maxTorsoLean, TORSO_LEAN_TOLERANCE_DEG, TORSO_LEAN_LIMIT_DEG);
+  state.heelContact = scoreDeviation(measures.maxHeelLift, HEEL_LIFT_TOLERANCE, HEEL_LIFT_LIMIT);
+  state.kneeTravel = scoreDeviation(measures.maxKneeTravel, KNEE_TRAVEL_TOLERANCE, KNEE_TRAVEL_LIMIT);
+}
+
+/**
+ * Form score: depth 30%, knee alignment 25%, torso position 20%, heel contact 15%, knee travel 10%
+ */
+function calculateFormScore(state: SquatState): number {
+  const score = state.depth * 0.3
+    + state.kneeAlignment * 0.25
+    + state.torsoPosition * 0.2
+    + state.heelContact * 0.15
+    + state.kneeTravel * 0.1;
+  return Math.min(100, Math.max(0, score));
+}
+
+/**
+ * The form score components of the latest rep (0-100 each), as weighted by
+ * calculateFormScore. Read them on the frame the rep counts: they hold until
+ * the next descent starts.
+ */
+export function getSquatFormScoreComponents(state: SquatState): SquatFormComponents {
+  return {
+    depth: state.depth,
+    kneeAlignment: state.kneeAlignment,
+    torsoPosition: state.torsoPosition,
+    heelContact: state.heelContact,
+    kneeTravel: state.kneeTravel,
+  };
+}
+
+/** Knee travel of the rep so far, as a percent of a full rep */
+function getRepRangeOfMotion(state: SquatState): number {
+  return Math.min(100, Math.max(0, ((state.repStartKnee - state.repBottomKnee) / state.thresholds.fullRange) * 100));
+}
+
+export function initializeSquatState(
+  signalSmoothing: FilterConfig = SMOOTHING_PRESETS['squat'].angles,
+  thresholds: SquatThresholds = DEFAULT_SQUAT_THRESHOLDS
+): SquatState {
+  return {
+    phase: 'idle',
+    repCount: 0,
+    formScore: 0,
+    feedback: null,
+    feedbackParts: [],
+    phaseStartTime: 0, // Set from the frame timestamp when the first phase starts
+    lastFeedbackTime: -Infinity,
+
+    signals: {
+      leftKnee: null,
+      rightKnee: null,
+      leftHip: null,
+      rightHip: null,
+      torsoLean: null,
+      hipDepth: null,
+      kneeInset: null,
+      kneeTravel: null,
+      heelHeight: null,
+    },
+    signalSmoothing,
+    signalFilters: {},
+
+    view: createViewTracker(),
+
+    thresholds,
+
+    standing: null,
+
+    repStartKnee: 180,
+    repBottomKnee: 180,
+    bottomSince: null,
+    partialReps: [],
+
+    formMeasures: createFormMeasures(),
+    depth: 100,
+    kneeAlignment: 100,
+    torsoPosition: 100,
+    heelContact: 100,
+    kneeTravel: 100,
+  };
+}
+
+/** Standing, at the start or after a rep (counted or not): reset the rep-level tracking */
+function startNextRep(state: SquatState, knee: number, currentTime: number): void {
+  state.phase = 'top';
+  state.phaseStartTime = currentTime;
+  state.repStartKnee = knee;
+  state.repBottomKnee = knee;
+  state.bottomSince = null;
+  state.formMeasures = createFormMeasures();
+}
+
+/**
+ * Advance the squat state machine by one frame.
+ *
+ * @param currentTime Frame timestamp in ms (from the camera or a replay source).
+ * All phase durations are measured against it.
+ */
+export function updateSquatState(keypoints: Keypoint[], currentState: SquatState, currentTime: number): SquatState {
+  const view = updateViewTracker(currentState.view, keypoints, currentTime);
+  const raw = measureSignals(keypoints, view, currentState.standing);
+  const smoothed = smoothSignals(raw, currentState, currentTime);
+  const { signals } = smoothed;
+
+  const newState: SquatState = {
+    ...currentState,
+    signals,
+    signalFilters: smoothed.filters,
+    view,
+  };
+
+  const meanKnee = meanOfSides(signals.leftKnee, signals.rightKnee);
+  const isSquatPosture = meanKnee !== null && (signals.torsoLean === null || signals.torsoLean < MAX_TORSO_LEAN);
+  if (!isSquatPosture) {
+    return { ...newState, feedback: null, feedbackParts: [] };
+  }
+
+  const phaseDurationMs = currentTime - currentState.phaseStartTime;
+  const { thresholds } = currentState;
+  // Set when a rep ends without counting, so the user hears why
+  let rejection: SquatFeedback | null = null;
+
+  if (currentState.phase === 'descent' || currentState.phase === 'bottom' || currentState.phase === 'ascent') {
+    newState.formMeasures = measureRepForm(currentState.formMeasures, newState);
+    newState.repBottomKnee = Math.min(currentState.repBottomKnee, meanKnee);
+  }
+
+  if (currentState.phase === 'idle') {
+    const standingTall = signals.torsoLean === null || signals.torsoLean < STANDING_MAX_TORSO_LEAN;
+    if (meanKnee >= thresholds.standingKnee && standingTall) {
+      startNextRep(newState, meanKnee, currentTime);
+      newState.standing = measureStanding(keypoints, view, signals);
+    }
+  } else if (currentState.phase === 'top') {
+    newState.repStartKnee = Math.max(currentState.repStartKnee, meanKnee);
+    if (meanKnee >= thresholds.standingKnee) {
+      // Follow the athlete while they stand, so the reference is from just before the descent
+      newState.standing = measureStanding(keypoints, view, signals) ?? currentState.standing;
+    }
+    if (meanKnee < thresholds.descentKnee && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      newState.phase = 'descent';
+      newState.phaseStartTime = currentTime;
+      newState.repBottomKnee = meanKnee;
+      newState.formMeasures = measureRepForm(createFormMeasures(), newState);
+      newState.depth = 100;
+      newState.kneeAlignment = 100;
+      newState.torsoPosition = 100;
+      newState.heelContact = 100;
+      newState.kneeTravel = 100;
+    }
+  } else if (currentState.phase === 'descent') {
+    // Stood back up without reaching the bottom: a partial rep
+    if (meanKnee >= thresholds.standingKnee && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      const rangeOfMotion = getRepRangeOfMotion(newState);
+      rejection = { message: describeShortRep(rangeOfMotion), priority: 2, parts: LEGS };
+      newState.partialReps = [...currentState.partialReps, { time: currentTime, rangeOfMotion, message: rejection.message }];
+      startNextRep(newState, meanKnee, currentTime);
+    } else if (meanKnee > thresholds.bottomKnee) {
+      newState.bottomSince = null;
+    } else if (currentState.bottomSince === null) {
+      newState.bottomSince = currentTime;
+    } else if (currentTime - currentState.bottomSince >= MIN_BOTTOM_DWELL_MS) {
+      newState.phase = 'bottom';
+      newState.phaseStartTime = currentState.bottomSince;
+    }
+  } else if (currentState.phase === 'bottom') {
+    if (meanKnee > thresholds.bottomExitKnee && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      newState.phase = 'ascent';
+      newState.phaseStartTime = currentTime;
+    }
+  } else if (currentState.phase === 'ascent') {
+    if (meanKnee >= thresholds.standingKnee && phaseDurationMs >= MIN_PHASE_DURATION_MS) {
+      newState.repCount = currentState.repCount + 1;
+      scoreRepForm(newState);
+      newState.formScore = calculateFormScore(newState);
+      startNextRep(newState, meanKnee, currentTime);
+    }
+  }
+
+  const feedbackResult = rejection ?? generateFeedback(newState, currentTime);
+  if (feedbackResult) {
+    newState.feedback = feedbackResult.message;
+    newState.feedbackParts = feedbackResult.parts;
+    newState.lastFeedbackTime = currentTime;
+  } else if (currentTime - newState.lastFeedbackTime > FEEDBACK_DURATION_MS) {
+    newState.feedback = null;
+    newState.feedbackParts = [];
+  }
+
+  return newState;
+}
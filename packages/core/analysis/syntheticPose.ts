@@ -0,0 +1,441 @@
+/**
+ * Synthetic Pose Generator
+ *
+ * Produces MediaPipe-shaped (33 landmark, world coordinate) pose sessions from
+ * a simple kinematic body model, so detectors and analyzers can be exercised
+ * without real footage. MoveNet-shaped sessions (17 landmarks in normalized
+ * image coordinates, no depth) can be generated too. Output is a PoseRecording, so it goes through the same
+ * replay path (poseReplay.ts) as sessions recorded on a phone.
+ *
+ * Coordinates follow MediaPipe world landmarks: metres, origin at the hip
+ * midpoint, x towards image right, y down, z away from the camera. With a
+ * camera yaw of 0 the athlete faces the camera (their left side on image
+ * right); 90 is a side-on view with the left side nearest the camera.
+ * MoveNet sessions project the same body onto a portrait camera frame.
+ */
+
+import { Keypoint } from './poseAnalysis';
+import { PoseFrame, PoseRecording, POSE_RECORDING_VERSION } from './poseRecording';
+import { MEDIAPIPE_LANDMARK_NAMES, MOVENET_LANDMARK_NAMES } from './skeleton';
+
+export type SyntheticExercise = 'curl' | 'squat' | 'pushup' | 'lunge';
+
+/** Phase durations in ms, in prescription order (eccentric-bottom-concentric-top) */
+export type SyntheticTempo = {
+  eccentricMs: number;
+  bottomPauseMs: number;
+  concentricMs: number;
+  topPauseMs: number;
+};
+
+/**
+ * Switchable form faults.
+ * bodySwing and elbowDrift only apply to curls; kneeValgus, heelLift and forwardLean only to squats;
+ * halfReps and droppedEccentric apply to all exercises.
+ */
+export type SyntheticFaults = {
+  bodySwing?: boolean; // Lean back and dip the knees as the bar comes up
+  elbowDrift?: boolean; // Upper arms drift forward as the bar comes up
+  kneeValgus?: boolean; // Knees cave in towards each other going down
+  heelLift?: boolean; // Heels come up off the floor going down
+  forwardLean?: boolean; // Torso folds forward going down
+  halfReps?: boolean; // Every second rep only reaches half the range of motion
+  droppedEccentric?: boolean; // Eccentric phase collapses to 200ms
+};
+
+export type SyntheticPoseOptions = {
+  exercise: SyntheticExercise;
+  reps: number;
+  tempo?: Partial<SyntheticTempo>;
+  rangeOfMotion?: number; // Fraction of full ROM reached (0-1), default 1
+  cameraYawDeg?: number; // 0 = facing the camera, 90 = side-on, default 0
+  noise?: number; // Std deviation of landmark jitter in metres, default 0
+  fps?: number; // Default 30
+  seed?: number; // Seed for the noise generator, default 1
+  faults?: SyntheticFaults;
+  // Curls move one arm and lunges lead with one leg; 'alternating' switches every rep.
+  // Default both arms for curls and alternating for lunges; squats and push-ups ignore it.
+  workingSide?: 'left' | 'right' | 'alternating';
+  landmarkModel?: 'mediapipe' | 'movenet'; // Default mediapipe
+  exerciseCatalogId?: string | null;
+  startedAt?: number; // Default 0
+};
+
+export const DEFAULT_SYNTHETIC_TEMPO: Record<SyntheticExercise, SyntheticTempo> = {
+  curl: { eccentricMs: 1500, bottomPauseMs: 600, concentricMs: 1000, topPauseMs: 400 },
+  squat: { eccentricMs: 1500, bottomPauseMs: 300, concentricMs: 1000, topPauseMs: 800 },
+  pushup: { eccentricMs: 1200, bottomPauseMs: 200, concentricMs: 800, topPauseMs: 600 },
+  lunge: { eccentricMs: 1200, bottomPauseMs: 300, concentricMs: 1000, topPauseMs: 800 },
+};
+
+const LEAD_IN_MS = 1000; // Hold the start position before the first rep and after the last
+
+// Portrait camera frame (m) that MoveNet sessions are projected onto, centred on the hip midpoint
+const FRAME_WIDTH = 1.8;
+const FRAME_HEIGHT = 2.4;
+const DROPPED_ECCENTRIC_MS = 200;
+
+// Body segment lengths (m)
+const SHOULDER_HALF_WIDTH = 0.19;
+const HIP_HALF_WIDTH = 0.1;
+const TORSO = 0.5;
+const UPPER_ARM = 0.3;
+const FOREARM = 0.27;
+const THIGH = 0.44;
+const SHIN = 0.43;
+
+// Joint ranges per exercise (deg)
+const CURL_ELBOW_EXTENDED = 175;
+const CURL_ELBOW_FLEXED = 40;
+const SQUAT_KNEE_STANDING = 175;
+const SQUAT_KNEE_DEEP = 70;
+const PUSHUP_ELBOW_TOP = 170;
+const PUSHUP_ELBOW_BOTTOM = 70;
+const LUNGE_KNEE_STANDING = 170;
+const LUNGE_FRONT_KNEE_DEEP = 90;
+
+// Elbow drift: the upper arm swings forward this far (deg) by this much of the curl, and holds.
+// Enough to be cued during the concentric, short of the 30° at which the rep wouldn't count.
+const ELBOW_DRIFT_DEG = 20;
+const ELBOW_DRIFT_BY = 0.7;
+
+const DEG = Math.PI / 180;
+
+type Vec = { x: number; y: number; z: number };
+
+const vec = (x: number, y: number, z: number): Vec => ({ x, y, z });
+const add = (a: Vec, b: Vec): Vec => vec(a.x + b.x, a.y + b.y, a.z + b.z);
+const scale = (a: Vec, s: number): Vec => vec(a.x * s, a.y * s, a.z * s);
+const lerp = (a: Vec, b: Vec, t: number): Vec => add(a, scale(add(b, scale(a, -1)), t));
+
+/** Unit vector in the sagittal plane, `deg` from straight down towards the front of the body */
+const sagittal = (deg: number): Vec => vec(0, Math.cos(deg * DEG), -Math.sin(deg * DEG));
+
+/** Deterministic PRNG (mulberry32) so generated sessions are reproducible */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createGaussian(random: () => number): () => number {
+  return () => {
+    const u = Math.max(random(), 1e-12);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+type Side = 'left' | 'right';
+type BodyPoints = Record<string, Vec>;
+
+/**
+ * Fill in the face, hand and foot landmarks around the main joints.
+ * `up` and `forward` are the head's orientation; hands extend along `handDirection`
+ * from the wrists and feet along `footForward` from the ankles.
+ */
+function addExtremities(
+  points: BodyPoints,
+  up: Vec,
+  forward: Vec,
+  handDirection: Record<Side, Vec>,
+  footForward: Vec,
+  footUp: Vec
+): void {
+  const shoulderMid = lerp(points.left_shoulder, points.right_shoulder, 0.5);
+  const head = add(shoulderMid, scale(up, 0.25));
+  points.nose = add(head, scale(forward, 0.1));
+  for (const side of ['left', 'right'] as Side[]) {
+    const lateral = side === 'left' ? 1 : -1;
+    const eyeLevel = add(head, add(scale(up, 0.03), scale(forward, 0.08)));
+    points[`${side}_eye_inner`] = add(eyeLevel, vec(lateral * 0.015, 0, 0));
+    points[`${side}_eye`] = add(eyeLevel, vec(lateral * 0.03, 0, 0));
+    points[`${side}_eye_outer`] = add(eyeLevel, vec(lateral * 0.045, 0, 0));
+    points[`${side}_ear`] = add(head, vec(lateral * 0.075, 0, 0));
+    points[`mouth_${side}`] = add(head, add(scale(up, -0.04), add(scale(forward, 0.08), vec(lateral * 0.025, 0, 0))));
+
+    const wrist = points[`${side}_wrist`];
+    const hand = handDirection[side];
+    points[`${side}_pinky`] = add(wrist, add(scale(hand, 0.08), vec(lateral * 0.02, 0, 0)));
+    points[`${side}_index`] = add(wrist, add(scale(hand, 0.09), vec(-lateral * 0.01, 0, 0)));
+    points[`${side}_thumb`] = add(wrist, add(scale(hand, 0.05), vec(-lateral * 0.03, 0, 0)));
+
+    const ankle = points[`${side}_ankle`];
+    points[`${side}_heel`] = add(ankle, add(scale(footForward, -0.05), scale(footUp, -0.05)));
+    points[`${side}_foot_index`] = add(ankle, add(scale(footForward, 0.15), scale(footUp, -0.06)));
+  }
+}
+
+/**
+ * Standing curl. `flexion` is 0 with an arm extended and 1 at full flexion, per arm;
+ * body swing follows the more flexed arm.
+ */
+function curlPose(flexion: Record<Side, number>, faults: SyntheticFaults): BodyPoints {
+  const bodyFlexion = Math.max(flexion.left, flexion.right);
+  const lean = 2 + (faults.bodySwing ? 25 * bodyFlexion : 0); // Torso lean back (deg)
+  const kneeBend = 2 + (faults.bodySwing ? 35 * bodyFlexion : 0); // Knee dip driving the swing (deg)
+
+  const torsoUp = vec(0, -Math.cos(lean * DEG), Math.sin(lean * DEG));
+  const thigh = sagittal(kneeBend / 2);
+  const shin = sagittal(-kneeBend / 2);
+
+  const points: BodyPoints = {};
+  const handDirection = {} as Record<Side, Vec>;
+  for (const side of ['left', 'right'] as Side[]) {
+    const lateral = side === 'left' ? 1 : -1;
+    const elbowAngle = CURL_ELBOW_EXTENDED - flexion[side] * (CURL_ELBOW_EXTENDED - CURL_ELBOW_FLEXED);
+    const shoulderFlexion = 5 + (faults.elbowDrift ? ELBOW_DRIFT_DEG * Math.min(1, flexion[side] / ELBOW_DRIFT_BY) : 0);
+    // Leaning back carries the arms forward with the torso
+    const upperArm = sagittal(shoulderFlexion + lean);
+    const forearm = sagittal(shoulderFlexion + lean + (180 - elbowAngle));
+    const hip = vec(lateral * HIP_HALF_WIDTH, 0, 0);
+    const shoulder = add(vec(lateral * SHOULDER_HALF_WIDTH, 0, 0), scale(torsoUp, TORSO));
+    const elbow = add(shoulder, scale(upperArm, UPPER_ARM));
+    const knee = add(hip, scale(thigh, THIGH));
+    points[`${side}_hip`] = hip;
+    points[`${side}_shoulder`] = shoulder;
+    points[`${side}_elbow`] = elbow;
+    points[`${side}_wrist`] = add(elbow, scale(forearm, FOREARM));
+    points[`${side}_knee`] = knee;
+    points[`${side}_ankle`] = add(knee, scale(shin, SHIN));
+    handDirection[side] = forearm;
+  }
+  addExtremities(points, torsoUp, vec(0, 0, -1), handDirection, vec(0, 0, -1), vec(0, -1, 0));
+  return points;
+}
+
+/**
+ * Bodyweight/back squat. `depth` is 0 standing and 1 at full depth, where the
+ * thighs are about parallel and the knees just reach the toes.
+ */
+function squatPose(depth: number, faults: SyntheticFaults): BodyPoints {
+  const kneeFlexion = (180 - SQUAT_KNEE_STANDING) + depth * (SQUAT_KNEE_STANDING - SQUAT_KNEE_DEEP);
+  const thighAngle = kneeFlexion * 0.8; // Thigh tilts forward from vertical
+  const shinAngle = kneeFlexion * 0.2; // Shin tilts forward from vertical
+  const torsoLean = thighAngle * (faults.forwardLean ? 0.9 : 0.45);
+  const kneeInset = faults.kneeValgus ? 0.05 * depth : 0; // Each knee moves in (m)
+  const heelLift = (faults.heelLift ? 20 * depth : 0) * DEG; // Foot pitches forward onto the toes
+
+  const torsoUp = vec(0, -Math.cos(torsoLean * DEG), -Math.sin(torsoLean * DEG));
+  const thigh = sagittal(thighAngle);
+  const shin = vec(0, Math.cos(shinAngle * DEG), Math.sin(shinAngle * DEG));
+
+  const points: BodyPoints = {};
+  const handDirection = {} as Record<Side, Vec>;
+  for (const side of ['left', 'right'] as Side[]) {
+    const lateral = side === 'left' ? 1 : -1;
+    const hip = vec(lateral * HIP_HALF_WIDTH, 0, 0);
+    const shoulder = add(vec(lateral * SHOULDER_HALF_WIDTH, 0, 0), scale(torsoUp, TORSO));
+    const elbow = add(shoulder, scale(sagittal(0), UPPER_ARM));
+    const knee = add(hip, scale(thigh, THIGH));
+    points[`${side}_hip`] = hip;
+    points[`${side}_shoulder`] = shoulder;
+    points[`${side}_elbow`] = elbow;
+    points[`${side}_wrist`] = add(elbow, scale(sagittal(0), FOREARM));
+    // Valgus moves the knee in over planted feet
+    points[`${side}_knee`] = add(knee, vec(-lateral * kneeInset, 0, 0));
+    points[`${side}_ankle`] = add(knee, scale(shin, SHIN));
+    handDirection[side] = sagittal(0);
+  }
+  const footForward = vec(0, Math.sin(heelLift), -Math.cos(heelLift));
+  const footUp = vec(0, -Math.cos(heelLift), -Math.sin(heelLift));
+  addExtremities(points, torsoUp, vec(0, 0, -1), handDirection, footForward, footUp);
+  return points;
+}
+
+/**
+ * Forward lunge with an upright torso. `depth` is 0 standing and 1 at the bottom,
+ * where the front thigh is near horizontal and the back knee points at the floor.
+ */
+function lungePose(depth: number, lead: Side): BodyPoints {
+  // Front thigh swings forward while its shin tilts back under the knee
+  const frontShinTilt = 5 + 5 * depth;
+  const frontThigh = (180 - LUNGE_KNEE_STANDING) - frontShinTilt + depth * (LUNGE_KNEE_STANDING - LUNGE_FRONT_KNEE_DEEP);
+  // Back thigh stays near vertical while its shin swings back
+  const backThigh = -(5 + 10 * depth);
+  const backShin = -(15 + 60 * depth);
+
+  const torsoUp = vec(0, -1, 0);
+  const points: BodyPoints = {};
+  const handDirection = {} as Record<Side, Vec>;
+  for (const side of ['left', 'right'] as Side[]) {
+    const lateral = side === 'left' ? 1 : -1;
+    const front = side === lead;
+    const hip = vec(lateral * HIP_HALF_WIDTH, 0, 0);
+    const shoulder = add(vec(lateral * SHOULDER_HALF_WIDTH, 0, 0), scale(torsoUp, TORSO));
+    const elbow = add(shoulder, scale(sagittal(0), UPPER_ARM));
+    const knee = add(hip, scale(sagittal(front ? frontThigh : backThigh), THIGH));
+    points[`${side}_hip`] = hip;
+    points[`${side}_shoulder`] = shoulder;
+    points[`${side}_elbow`] = elbow;
+    points[`${side}_wrist`] = add(elbow, scale(sagittal(0), FOREARM));
+    points[`${side}_knee`] = knee;
+    points[`${side}_ankle`] = add(knee, scale(sagittal(front ? -frontShinTilt : backShin), SHIN));
+    handDirection[side] = sagittal(0);
+  }
+  addExtremities(points, torsoUp, vec(0, 0, -1), handDirection, vec(0, 0, -1), vec(0, -1, 0));
+  return points;
+}
+
+/**
+ * Push-up with hands under the shoulders. `depth` is 0 at lockout and 1 at the bottom.
+ * The head points towards the camera at yaw 0 (towards image right when side-on).
+ */
+function pushupPose(depth: number): BodyPoints {
+  const elbowAngle = PUSHUP_ELBOW_TOP - depth * (PUSHUP_ELBOW_TOP - PUSHUP_ELBOW_BOTTOM);
+  const floorY = 0;
+  // Shoulder height above the wrist from the arm triangle
+  const reach = Math.sqrt(UPPER_ARM ** 2 + FOREARM ** 2 - 2 * UPPER_ARM * FOREARM * Math.cos(elbowAngle * DEG));
+  const shoulderAngle = Math.acos((UPPER_ARM ** 2 + reach ** 2 - FOREARM ** 2) / (2 * UPPER_ARM * reach));
+  const bodyLength = TORSO + THIGH + SHIN;
+  const ankleHeight = 0.08;
+  const drop = reach - ankleHeight;
+  const bodyRun = Math.sqrt(bodyLength ** 2 - drop ** 2);
+
+  const points: BodyPoints = {};
+  const handDirection = {} as Record<Side, Vec>;
+  for (const side of ['left', 'right'] as Side[]) {
+    const lateral = side === 'left' ? 1 : -1;
+    const wrist = vec(lateral * 0.22, floorY, 0);
+    const shoulder = vec(lateral * SHOULDER_HALF_WIDTH, floorY - reach, 0);
+    // Elbows bend back towards the feet
+    const elbow = add(shoulder, vec(0, Math.cos(shoulderAngle) * UPPER_ARM, Math.sin(shoulderAngle) * UPPER_ARM));
+    const ankle = vec(lateral * HIP_HALF_WIDTH, floorY - ankleHeight, bodyRun);
+    const hipLine = vec(lateral * HIP_HALF_WIDTH, shoulder.y, shoulder.z);
+    points[`${side}_wrist`] = wrist;
+    points[`${side}_shoulder`] = shoulder;
+    points[`${side}_elbow`] = elbow;
+    points[`${side}_hip`] = lerp(hipLine, ankle, TORSO / bodyLength);
+    points[`${side}_knee`] = lerp(hipLine, ankle, (TORSO + THIGH) / bodyLength);
+    points[`${side}_ankle`] = ankle;
+    handDirection[side] = vec(0, 0, -1);
+  }
+  // Head forward of the shoulders, toes on the floor behind the ankles
+  addExtremities(points, vec(0, 0, -1), vec(0, 1, 0), handDirection, vec(0, 1, 0), vec(0, 0, -1));
+  return points;
+}
+
+type Segment = {
+  durationMs: number;
+  from: number; // Motion value at the start of the segment (0 = start position)
+  to: number;
+  side: Side | null; // Side doing the rep, null for both
+};
+
+/** Rep-by-rep motion schedule, including a hold before the first and after the last rep */
+function buildSchedule(options: SyntheticPoseOptions, tempo: SyntheticTempo): Segment[] {
+  const faults = options.faults ?? {};
+  const rangeOfMotion = options.rangeOfMotion ?? 1;
+  const eccentricMs = faults.droppedEccentric ? DROPPED_ECCENTRIC_MS : tempo.eccentricMs;
+  const workingSide = options.workingSide ?? (options.exercise === 'lunge' ? 'alternating' : null);
+  const repSide = (rep: number): Side | null =>
+    workingSide === 'alternating' ? (rep % 2 === 0 ? 'left' : 'right')
+      : options.exercise === 'curl' || options.exercise === 'lunge' ? workingSide
+        : null;
+  const segments: Segment[] = [{ durationMs: LEAD_IN_MS, from: 0, to: 0, side: repSide(0) }];
+
+  for (let rep = 0; rep < options.reps; rep++) {
+    const peak = rangeOfMotion * (faults.halfReps && rep % 2 === 1 ? 0.5 : 1);
+    const side = repSide(rep);
+    if (options.exercise === 'curl') {
+      // Curls start extended (bottom), curl up (concentric) and lower (eccentric)
+      segments.push(
+        { durationMs: tempo.bottomPauseMs, from: 0, to: 0, side },
+        { durationMs: tempo.concentricMs, from: 0, to: peak, side },
+        { durationMs: tempo.topPauseMs, from: peak, to: peak, side },
+        { durationMs: eccentricMs, from: peak, to: 0, side }
+      );
+    } else {
+      // Squats, lunges and push-ups start at the top, descend (eccentric) and drive back up (concentric)
+      segments.push(
+        { durationMs: tempo.topPauseMs, from: 0, to: 0, side },
+        { durationMs: eccentricMs, from: 0, to: peak, side },
+        { durationMs: tempo.bottomPauseMs, from: peak, to: peak, side },
+        { durationMs: tempo.concentricMs, from: peak, to: 0, side }
+      );
+    }
+  }
+
+  segments.push({ durationMs: LEAD_IN_MS, from: 0, to: 0, side: repSide(options.reps - 1) });
+  return segments;
+}
+
+/** Motion value and working side at time t, with cosine easing inside each segment */
+function motionAt(segments: Segment[], t: number): { value: number; side: Side | null } {
+  let elapsed = 0;
+  for (const segment of segments) {
+    if (t < elapsed + segment.durationMs) {
+      const progress = segment.durationMs > 0 ? (t - elapsed) / segment.durationMs : 1;
+      const eased = (1 - Math.cos(Math.PI * progress)) / 2;
+      return { value: segment.from + (segment.to - segment.from) * eased, side: segment.side };
+    }
+    elapsed += segment.durationMs;
+  }
+  const last = segments[segments.length - 1];
+  return last ? { value: last.to, side: last.side } : { value: 0, side: null };
+}
+
+/**
+ * Generate a synthetic pose session
+ */
+export function generateSyntheticPoseSession(options: SyntheticPoseOptions): PoseRecording {
+  const tempo = { ...DEFAULT_SYNTHETIC_TEMPO[options.exercise], ...options.tempo };
+  const faults = options.faults ?? {};
+  const fps = options.fps ?? 30;
+  const noise = options.noise ?? 0;
+  const yaw = (options.cameraYawDeg ?? 0) * DEG;
+  const gaussian = createGaussian(createRandom(options.seed ?? 1));
+
+  const segments = buildSchedule(options, tempo);
+  const totalMs = segments.reduce((sum, segment) => sum + segment.durationMs, 0);
+
+  // Side-on views hide the far limbs; the near side is the athlete's left for positive yaw
+  const farSideScore = 0.98 - 0.85 * Math.abs(Math.sin(yaw));
+  const nearSide: Side = Math.sin(yaw) >= 0 ? 'left' : 'right';
+  const moveNet = options.landmarkModel === 'movenet';
+  const landmarkNames = moveNet ? MOVENET_LANDMARK_NAMES : MEDIAPIPE_LANDMARK_NAMES;
+
+  const frames: PoseFrame[] = [];
+  for (let i = 0; ; i++) {
+    const timestamp = Math.round((i * 1000) / fps);
+    if (timestamp > totalMs) break;
+
+    const motion = motionAt(segments, timestamp);
+    const armFlexion = (side: Side) => (motion.side === null || motion.side === side ? motion.value : 0);
+    const body =
+      options.exercise === 'curl' ? curlPose({ left: armFlexion('left'), right: armFlexion('right') }, faults)
+        : options.exercise === 'squat' ? squatPose(motion.value, faults)
+          : options.exercise === 'lunge' ? lungePose(motion.value, motion.side ?? 'left')
+            : pushupPose(motion.value);
+
+    // MediaPipe world landmarks are centred on the hip midpoint
+    const hipMid = lerp(body.left_hip, body.right_hip, 0.5);
+
+    const keypoints: Keypoint[] = landmarkNames.map((name) => {
+      const p = add(body[name], scale(hipMid, -1));
+      const x = p.x * Math.cos(yaw) + p.z * Math.sin(yaw) + gaussian() * noise;
+      const y = p.y + gaussian() * noise;
+      const z = -p.x * Math.sin(yaw) + p.z * Math.cos(yaw) + gaussian() * noise;
+      const side: Side | null = name.startsWith('left') ? 'left' : name.startsWith('right') ? 'right' : null;
+      const score = Math.min(1, Math.max(0, (side === null || side === nearSide ? 0.98 : farSideScore) + gaussian() * 0.01));
+      return moveNet
+        ? { name, x: 0.5 + x / FRAME_WIDTH, y: 0.5 + y / FRAME_HEIGHT, score }
+        : { name, x, y, z, score };
+    });
+
+    frames.push({ timestamp, cameraFacing: 'back', landmarkSource: moveNet ? 'image' : 'world', keypoints });
+  }
+
+  return {
+    version: POSE_RECORDING_VERSION,
+    startedAt: options.startedAt ?? 0,
+    exerciseCatalogId: options.exerciseCatalogId ?? null,
+    landmarkNames: [...landmarkNames],
+    frames,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Tempo Analysis
+ *
+ * Rep tempo in the usual four-number notation (eccentric, bottom pause,
+ * concentric, top pause, in seconds, e.g. 3-1-1-0; X means explosive).
+ * Analyzers record how long each rep spent in each phase; this module turns
+ * that into time under tension, scores it against a prescribed tempo and
+ * picks the cue for the phase that was furthest off.
+ */
+
+export type TempoPhase = 'eccentric' | 'bottomPause' | 'concentric' | 'topPause';
+
+/** Phases in notation order */
+export const TEMPO_PHASES: readonly TempoPhase[] = ['eccentric', 'bottomPause', 'concentric', 'topPause'];
+
+/** Measured phase durations of one rep in ms; null when the analyzer couldn't time the phase */
+export type RepTempo = Record<TempoPhase, number | null>;
+
+/** Target phase durations in ms; null for X (as fast as possible, not scored) */
+export type TempoPrescription = {
+  notation: string;
+  phases: Record<TempoPhase, number | null>;
+};
+
+export type SetTempo = {
+  prescription: string | null; // Notation of the prescribed tempo, if any
+  reps: RepTempo[];
+  timeUnderTensionMs: number;
+  compliance: number | null; // Mean rep compliance (0-100), null without a prescription
+};
+
+export const EMPTY_REP_TEMPO: RepTempo = { eccentric: null, bottomPause: null, concentric: null, topPause: null };
+
+/** Common prescriptions, offered on the camera screen */
+export const TEMPO_PRESETS: readonly string[] = ['2-0-1-0', '3-0-1-0', '3-1-1-0', '4-0-1-1', '2-1-X-1'];
+
+// A phase within this much of its target (the larger of the two) scores full marks
+const TEMPO_TOLERANCE_MS = 500;
+const TEMPO_TOLERANCE_FRACTION = 0.25;
+
+const formatSeconds = (ms: number) => {
+  const seconds = Math.round(ms / 100) / 10;
+  return `${seconds} second${seconds === 1 ? '' : 's'}`;
+};
+
+// Cue for a phase that missed its target; tooQuick is false when it took too long
+const PHASE_CUES: Record<TempoPhase, (targetMs: number, tooQuick: boolean) => string> = {
+  eccentric: (target, tooQuick) => `${tooQuick ? 'Lower more slowly' : 'Lower a little faster'}—take ${formatSeconds(target)}.`,
+  bottomPause: (target) => (target === 0 ? "Don't pause at the bottom." : `Pause at the bottom for ${formatSeconds(target)}.`),
+  concentric: (target, tooQuick) => `${tooQuick ? 'Lift more slowly' : 'Lift faster'}—take ${formatSeconds(target)}.`,
+  topPause: (target) => (target === 0 ? "Don't pause at the top." : `Hold at the top for ${formatSeconds(target)}.`),
+};
+
+/**
+ * Parse tempo notation: four digits or X, optionally separated by dashes
+ * ("3-1-1-0", "31X0"). Returns null for anything else.
+ */
+export function parseTempo(notation: string | null | undefined): TempoPrescription | null {
+  if (!notation) return null;
+  const parts = notation.includes('-') ? notation.split('-') : notation.split('');
+  if (parts.length !== TEMPO_PHASES.length || parts.some(part => !/^(\d+|x)$/i.test(part.trim()))) {
+    return null;
+  }
+
+  const toMs = (part: string) => (/^x$/i.test(part.trim()) ? null : Number(part) * 1000);
+  return {
+    notation: parts.map(part => part.trim().toUpperCase()).join('-'),
+    phases: {
+      eccentric: toMs(parts[0]),
+      bottomPause: toMs(parts[1]),
+      concentric: toMs(parts[2]),
+      topPause: toMs(parts[3]),
+    },
+  };
+}
+
+const toleranceFor = (targetMs: number) => Math.max(TEMPO_TOLERANCE_MS, targetMs * TEMPO_TOLERANCE_FRACTION);
+
+/**
+ * Score one phase (0-100): full marks within tolerance of the target, then
+ * falling linearly to zero once the miss beyond tolerance equals the target
+ * plus tolerance.
+ */
+function scorePhase(actualMs: number, targetMs: number): number {
+  const tolerance = toleranceFor(targetMs);
+  const miss = Math.abs(actualMs - targetMs) - tolerance;
+  if (miss <= 0) return 100;
+  return Math.max(0, 100 * (1 - miss / (targetMs + tolerance)));
+}
+
+/** How closely a rep followed the prescription (0-100), or null when no prescribed phase was timed */
+export function scoreTempoCompliance(rep: RepTempo, prescription: TempoPrescription): number | null {
+  const scores: number[] = [];
+  for (const phase of TEMPO_PHASES) {
+    const actual = rep[phase];
+    const target = prescription.phases[phase];
+    if (actual !== null && target !== null) {
+      scores.push(scorePhase(actual, target));
+    }
+  }
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+}
+
+/**
+ * Cue for the rep's phase that missed its target by the most (measured in
+ * tolerances), or null when every timed phase was on tempo.
+ */
+export function getTempoCue(rep: RepTempo, prescription: TempoPrescription): string | null {
+  let worst: { phase: TempoPhase; actual: number; target: number; miss: number } | null = null;
+  for (const phase of TEMPO_PHASES) {
+    const actual = rep[phase];
+    const target = prescription.phases[phase];
+    if (actual === null || target === null) continue;
+    const miss = Math.abs(actual - target) / toleranceFor(target);
+    if (miss > 1 && (!worst || miss > worst.miss)) {
+      worst = { phase, actual, target, miss };
+    }
+  }
+  return worst ? PHASE_CUES[worst.phase](worst.target, worst.actual < worst.target) : null;
+}
+
+/** Total time the rep's phases took */
+export function getRepDuration(rep: RepTempo): number {
+  return TEMPO_PHASES.reduce((sum, phase) => sum + (rep[phase] ?? 0), 0);
+}
+
+export function summarizeTempo(reps: RepTempo[], prescription: TempoPrescription | null): SetTempo {
+  const scores = prescription
+    ? reps.map(rep => scoreTempoCompliance(rep, prescription)).filter((score): score is number => score !== null)
+    : [];
+  return {
+    prescription: prescription?.notation ?? null,
+    reps,
+    timeUnderTensionMs: reps.reduce((sum, rep) => sum + getRepDuration(rep), 0),
+    compliance: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+  };
+}
+
+/** Measured tempo in notation order, e.g. "3.1-0.9-1.0-0.2"; ? for untimed phases */
+export function formatRepTempo(rep: RepTempo): string {
+  return TEMPO_PHASES.map(phase => (rep[phase] === null ? '?' : (rep[phase]! / 1000).toFixed(1))).join('-');
+}
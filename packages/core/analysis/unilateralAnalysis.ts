@@ -0,0 +1,130 @@
+/**
+ * Unilateral Analysis
+ *
+ * Per-side rep counting for exercises worked one side at a time: single-arm
+ * and alternating curls, lunges, split squats and step-ups. Every counted rep
+ * is attributed to a side, so the set ends with reps, form scores and depth
+ * for each side and how far apart the two sides are.
+ *
+ * Arms are counted independently, each with its own rep state machine, so
+ * alternating and simultaneous curls both count per arm. Legs share one state
+ * machine on the more bent knee and each rep goes to the lead leg (see
+ * detectLunge): the back knee bends too in a lunge, so counting the knees
+ * separately would count every lunge twice.
+ *
+ * Like the other trackers, everything here is pure and lives in analyzer state.
+ */
+
+import { RepDip, RepThresholds, trackPartialRep, updateRepCount } from './poseAnalysis';
+import { BodySide } from './skeleton';
+
+export const BODY_SIDES: readonly BodySide[] = ['left', 'right'];
+
+/** One rep state machine: for an arm, or shared by both legs */
+export type SideCounter = {
+  phase: 'up' | 'down' | 'idle';
+  repCount: number;
+  dip: RepDip | null; // Joint dip while waiting for a rep, for partial rep detection
+  deepestRep: number | null; // Most flexed angle of any counted rep, partial reps are measured against it
+};
+
+export type UnilateralRep = {
+  side: BodySide;
+  formScore: number;
+  depth: number; // Most flexed angle (degrees) the rep reached
+};
+
+export type SideSummary = {
+  reps: number;
+  formScores: number[];
+  avgFormScore: number;
+  avgDepth: number | null; // Mean of each rep's most flexed angle (degrees), null without reps
+};
+
+export type UnilateralSummary = {
+  left: SideSummary;
+  right: SideSummary;
+  repImbalance: number; // Percent fewer reps on the side with fewer
+  formImbalance: number; // Points between the sides' average form scores, 0 unless both sides have reps
+  depthImbalance: number | null; // Degrees between the sides' average depths, null unless both sides have reps
+  weakerSide: BodySide | null; // Side with fewer reps, else with the lower form score; null when even
+};
+
+export function createSideCounter(): SideCounter {
+  return { phase: 'idle', repCount: 0, dip: null, deepestRep: null };
+}
+
+/**
+ * Advance a side's rep state machine by one frame (see updateRepCount and
+ * trackPartialRep). Returns the form score on the frame a rep counts, and the
+ * dip on the frame a partial rep ends.
+ */
+export function updateSideCounter(
+  counter: SideCounter,
+  exercise: string,
+  angle: number,
+  thresholds: RepThresholds
+): { counter: SideCounter; formScore: number | null; partialRep: RepDip | null } {
+  const repUpdate = updateRepCount(exercise, angle, counter.phase, counter.repCount, thresholds);
+  const partial = trackPartialRep(counter.dip, angle, repUpdate.phase, thresholds);
+  const deepestRep = repUpdate.phase === 'down' && (counter.deepestRep === null || angle < counter.deepestRep)
+    ? angle
+    : counter.deepestRep;
+  return {
+    counter: { phase: repUpdate.phase, repCount: repUpdate.repCount, dip: partial.dip, deepestRep },
+    formScore: repUpdate.repCount > counter.repCount ? repUpdate.formScore : null,
+    partialRep: partial.partialRep,
+  };
+}
+
+/** Deepen the latest rep on a side while its joint keeps flexing past the count */
+export function deepenLastRep(reps: UnilateralRep[], side: BodySide, angle: number): UnilateralRep[] {
+  for (let i = reps.length - 1; i >= 0; i--) {
+    if (reps[i].side !== side) continue;
+    if (angle >= reps[i].depth) return reps;
+    const deepened = [...reps];
+    deepened[i] = { ...reps[i], depth: angle };
+    return deepened;
+  }
+  return reps;
+}
+
+export function countRepsBySide(reps: UnilateralRep[]): Record<BodySide, number> {
+  return {
+    left: reps.filter(rep => rep.side === 'left').length,
+    right: reps.filter(rep => rep.side === 'right').length,
+  };
+}
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+function summarizeSide(reps: UnilateralRep[]): SideSummary {
+  const formScores = reps.map(rep => rep.formScore);
+  return {
+    reps: reps.length,
+    formScores,
+    avgFormScore: reps.length > 0 ? Math.round(average(formScores)) : 0,
+    avgDepth: reps.length > 0 ? Math.round(average(reps.map(rep => rep.depth))) : null,
+  };
+}
+
+/** Per-side results of a set and the left/right imbalance between them */
+export function summarizeSides(reps: UnilateralRep[]): UnilateralSummary {
+  const left = summarizeSide(reps.filter(rep => rep.side === 'left'));
+  const right = summarizeSide(reps.filter(rep => rep.side === 'right'));
+
+  const mostReps = Math.max(left.reps, right.reps);
+  const repImbalance = mostReps > 0 ? Math.round((Math.abs(left.reps - right.reps) / mostReps) * 100) : 0;
+  const bothSides = left.reps > 0 && right.reps > 0;
+  const formImbalance = bothSides ? Math.abs(left.avgFormScore - right.avgFormScore) : 0;
+  const depthImbalance = bothSides ? Math.abs(left.avgDepth! - right.avgDepth!) : null;
+
+  let weakerSide: BodySide | null = null;
+  if (left.reps !== right.reps) {
+    weakerSide = left.reps < right.reps ? 'left' : 'right';
+  } else if (formImbalance > 0) {
+    weakerSide = left.avgFormScore < right.avgFormScore ? 'left' : 'right';
+  }
+
+  return { left, right, repImbalance, formImbalance, depthImbalance, weakerSide };
+}
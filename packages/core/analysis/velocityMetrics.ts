@@ -0,0 +1,241 @@
+/**
+ * Velocity Metrics
+ *
+ * Velocity-based training from the pose: a landmark stands in for the bar
+ * (wrists for curls, shoulders for squats and push-ups) and its height over
+ * time gives each rep's mean and peak concentric velocity, the way a linear
+ * encoder would. Across the set, the drop from the fastest rep (velocity loss)
+ * and the trend towards the exercise's minimum velocity threshold give an
+ * estimate of reps in reserve.
+ *
+ * Height is measured from a reference landmark that stays put during the lift
+ * (shoulders for curls, ankles otherwise), since MediaPipe world landmarks are
+ * centred on the hips. It is converted to metres through the torso: the
+ * user's calibrated torso length when there is one, a typical adult's
+ * otherwise, so image landmarks from either backend give the same units.
+ *
+ * Like the view tracker, the tracker is pure and lives in analyzer state: feed
+ * every frame to updateVelocityTracker and call completeVelocityRep once a
+ * counted rep's concentric phase is over.
+ */
+
+import { Keypoint, getKeypoint, isVisible } from './poseAnalysis';
+import { BodyCalibration } from './bodyCalibration';
+
+/** One rep's concentric phase. Velocities in m/s, displacement in metres. */
+export type RepVelocity = {
+  meanVelocity: number;
+  peakVelocity: number;
+  displacement: number;
+};
+
+export type SetVelocity = {
+  reps: Array<RepVelocity | null>; // Per counted rep; null when the bar couldn't be tracked
+  velocityLoss: number | null; // Percent drop from the fastest rep to the last
+  estimatedRepsInReserve: number | null;
+};
+
+type BarSample = { timestamp: number; height: number }; // Height in torso lengths
+
+export type VelocityTracker = {
+  exerciseName: string | null; // Exercise of the last tracked frame, for its velocity threshold
+  torsoMetres: number;
+  torsoLength: number; // Longest torso seen, in landmark units
+  samples: BarSample[]; // Since the last counted rep
+  reps: Array<RepVelocity | null>;
+};
+
+type Joint = 'shoulder' | 'wrist' | 'ankle' | 'hip';
+
+type BarPath = {
+  bar: Joint;
+  reference: Joint;
+  minVelocity: number; // Mean concentric velocity (m/s) of a rep taken to failure
+};
+
+// Minimum velocity thresholds are approximate values from the VBT literature
+const BAR_PATHS: Record<string, BarPath> = {
+  'Barbell Curl': { bar: 'wrist', reference: 'shoulder', minVelocity: 0.3 },
+  'Bicep Curl': { bar: 'wrist', reference: 'shoulder', minVelocity: 0.3 },
+  'Squat': { bar: 'shoulder', reference: 'ankle', minVelocity: 0.3 },
+  'Push-up': { bar: 'shoulder', reference: 'ankle', minVelocity: 0.17 },
+};
+
+const VISIBILITY_THRESHOLD = 0.3;
+
+// Shoulder midpoint to hip midpoint of a typical adult, used without a world-landmark calibration
+const DEFAULT_TORSO_METRES = 0.5;
+
+// Samples older than this are dropped while waiting for a rep, bounding memory between sets
+const MAX_REP_WINDOW_MS = 10000;
+
+// A concentric phase must move the bar at least this far (metres) to be measured
+const MIN_DISPLACEMENT_METRES = 0.05;
+
+// Mean velocity leaves out this fraction of the travel at each end, so pauses and jitter
+// at the bottom and top don't stretch the concentric phase
+const TRAVEL_MARGIN = 0.1;
+
+// Peak velocity is taken over windows at least this long, so landmark jitter doesn't spike it
+const PEAK_WINDOW_MS = 100;
+
+// Reps in reserve beyond this aren't worth estimating from a slope
+export const MAX_REPS_IN_RESERVE = 10;
+
+export function createVelocityTracker(calibration?: BodyCalibration | null): VelocityTracker {
+  const calibratedTorso = calibration?.source === 'world' ? calibration.limbLengths.torso : null;
+  return {
+    exerciseName: null,
+    torsoMetres: calibratedTorso ?? DEFAULT_TORSO_METRES,
+    torsoLength: 0,
+    samples: [],
+    reps: [],
+  };
+}
+
+/** Midpoint of a joint's visible sides, or null when neither is visible */
+function jointMidpoint(keypoints: Keypoint[], joint: Joint): { x: number; y: number; z: number } | null {
+  const sides = [getKeypoint(keypoints, `left_${joint}`), getKeypoint(keypoints, `right_${joint}`)]
+    .filter((keypoint): keypoint is Keypoint => keypoint !== null && isVisible(keypoint, VISIBILITY_THRESHOLD));
+  if (sides.length === 0) return null;
+  const mean = (axis: 'x' | 'y' | 'z') => sides.reduce((sum, keypoint) => sum + (keypoint[axis] ?? 0), 0) / sides.length;
+  return { x: mean('x'), y: mean('y'), z: mean('z') };
+}
+
+/**
+ * Advance the tracker by one frame of the given exercise. Frames where the
+ * bar, its reference or the torso can't be seen are skipped.
+ */
+export function updateVelocityTracker(
+  tracker: VelocityTracker,
+  keypoints: Keypoint[],
+  exerciseName: string | null,
+  timestamp: number
+): VelocityTracker {
+  const path = exerciseName ? BAR_PATHS[exerciseName] : undefined;
+  if (!path) return tracker;
+
+  const bar = jointMidpoint(keypoints, path.bar);
+  const reference = jointMidpoint(keypoints, path.reference);
+  const shoulders = jointMidpoint(keypoints, 'shoulder');
+  const hips = jointMidpoint(keypoints, 'hip');
+  if (!bar || !reference || !shoulders || !hips) return tracker;
+
+  // A leaning torso looks shorter in the image, so keep the longest seen
+  const torso = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y, shoulders.z - hips.z);
+  const torsoLength = Math.max(tracker.torsoLength, torso);
+  if (torsoLength <= 0) return tracker;
+
+  // y points down, so height above the reference is reference.y - bar.y
+  const sample = { timestamp, height: (reference.y - bar.y) / torsoLength };
+  const samples = [...tracker.samples, sample].filter(s => timestamp - s.timestamp <= MAX_REP_WINDOW_MS);
+  return { ...tracker, exerciseName, torsoLength, samples };
+}
+
+/**
+ * The rep's concentric phase: the largest rise of the bar in the samples
+ * since the last rep, from its lowest point to the highest point after it.
+ */
+function findConcentric(samples: BarSample[]): BarSample[] | null {
+  let lowest = 0;
+  let best: { start: number; end: number } | null = null;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].height < samples[lowest].height) {
+      lowest = i;
+    } else if (!best || samples[i].height - samples[lowest].height > samples[best.end].height - samples[best.start].height) {
+      best = { start: lowest, end: i };
+    }
+  }
+  return best ? samples.slice(best.start, best.end + 1) : null;
+}
+
+/** Time the bar passed a height between two samples, interpolated */
+function crossingTime(a: BarSample, b: BarSample, height: number): number {
+  const fraction = b.height !== a.height ? (height - a.height) / (b.height - a.height) : 0;
+  return a.timestamp + fraction * (b.timestamp - a.timestamp);
+}
+
+function measureRep(tracker: VelocityTracker): RepVelocity | null {
+  const segment = findConcentric(tracker.samples);
+  if (!segment) return null;
+
+  const metres = tracker.torsoMetres;
+  const low = segment[0].height;
+  const high = segment[segment.length - 1].height;
+  const displacement = (high - low) * metres;
+  if (displacement < MIN_DISPLACEMENT_METRES) return null;
+
+  // Mean velocity over the middle of the travel: from the last time the bar left the bottom margin
+  // to the first time it reached the top margin
+  const lowMark = low + (high - low) * TRAVEL_MARGIN;
+  const highMark = high - (high - low) * TRAVEL_MARGIN;
+  const top = segment.findIndex(sample => sample.height >= highMark);
+  let bottom = 0;
+  for (let i = 0; i < top; i++) {
+    if (segment[i].height <= lowMark) bottom = i;
+  }
+  const durationMs = crossingTime(segment[top - 1], segment[top], highMark) - crossingTime(segment[bottom], segment[bottom + 1], lowMark);
+  if (durationMs <= 0) return null;
+  const meanVelocity = ((highMark - lowMark) * metres) / (durationMs / 1000);
+
+  let peakVelocity = meanVelocity;
+  let windowStart = 0;
+  for (let i = 1; i < segment.length; i++) {
+    while (windowStart + 1 < i && segment[i].timestamp - segment[windowStart + 1].timestamp >= PEAK_WINDOW_MS) {
+      windowStart++;
+    }
+    const dt = segment[i].timestamp - segment[windowStart].timestamp;
+    if (dt < PEAK_WINDOW_MS) continue;
+    peakVelocity = Math.max(peakVelocity, ((segment[i].height - segment[windowStart].height) * metres) / (dt / 1000));
+  }
+
+  return { meanVelocity, peakVelocity, displacement };
+}
+
+/** Measure the rep whose concentric phase just ended and start collecting the next one */
+export function completeVelocityRep(tracker: VelocityTracker): VelocityTracker {
+  return { ...tracker, samples: [], reps: [...tracker.reps, measureRep(tracker)] };
+}
+
+/**
+ * Reps left before mean velocity falls to the exercise's minimum velocity
+ * threshold, extrapolating the least-squares trend of the set so far. Null
+ * with fewer than two measured reps or when the reps aren't slowing down.
+ */
+function estimateRepsInReserve(reps: Array<RepVelocity | null>, minVelocity: number): number | null {
+  const points = reps
+    .map((rep, index) => (rep ? { x: index, y: rep.meanVelocity } : null))
+    .filter((point): point is { x: number; y: number } => point !== null);
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = covariance / variance;
+  if (slope >= 0) return null;
+
+  const lastIndex = reps.length - 1;
+  const current = meanY + slope * (lastIndex - meanX);
+  return Math.min(MAX_REPS_IN_RESERVE, Math.max(0, Math.floor((minVelocity - current) / slope)));
+}
+
+/** Mean concentric velocity over the set's measured reps, or null when none were measured */
+export function getAverageVelocity(velocity: SetVelocity): number | null {
+  const measured = velocity.reps.filter((rep): rep is RepVelocity => rep !== null);
+  return measured.length > 0 ? measured.reduce((sum, rep) => sum + rep.meanVelocity, 0) / measured.length : null;
+}
+
+/** Velocity metrics for the set so far */
+export function summarizeVelocity(tracker: VelocityTracker): SetVelocity {
+  const measured = tracker.reps.filter((rep): rep is RepVelocity => rep !== null);
+  const last = tracker.reps[tracker.reps.length - 1];
+  const fastest = measured.length > 0 ? Math.max(...measured.map(rep => rep.meanVelocity)) : null;
+  const path = tracker.exerciseName ? BAR_PATHS[tracker.exerciseName] : undefined;
+
+  return {
+    reps: tracker.reps,
+    velocityLoss: last && fastest && measured.length >= 2 ? ((fastest - last.meanVelocity) / fastest) * 100 : null,
+    estimatedRepsInReserve: path ? estimateRepsInReserve(tracker.reps, path.minVelocity) : null,
+  };
+}
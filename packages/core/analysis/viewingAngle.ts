@@ -0,0 +1,204 @@
+/**
+ * Viewing Angle
+ *
+ * Estimates which way the athlete is turned relative to the camera (front,
+ * side or in between) from shoulder and hip geometry, so analyzers know which
+ * of their metrics the current view can measure, and the camera screen can
+ * tell the user when the phone is in the wrong place for the exercise.
+ *
+ * Yaw is 0 when the athlete faces the camera and 90 when side-on. With depth
+ * (MediaPipe z) it comes from the direction of the shoulder and hip lines in
+ * the x/z plane. Without depth (MoveNet) it comes from how narrow the
+ * shoulders and hips look against the torso, which is rougher: a forward lean
+ * shortens the torso too. The tracker is pure, like the signal filters, so it
+ * can live inside analyzer state.
+ */
+
+import { Keypoint, getKeypoint, isVisible } from './poseAnalysis';
+import { FilterConfig, FilterState, filterValue } from './signalFilters';
+
+export type CameraView = 'front' | 'oblique' | 'side' | 'unknown';
+
+/** Metrics that depend on the view (see TRUSTED_METRICS) */
+export type ViewMetric =
+  | 'elbowFlexion' // Elbow bend in the sagittal plane
+  | 'shoulderFlexion' // Upper arm swinging forward
+  | 'trunkSwing' // Hip and knee angle changes from body swing
+  | 'symmetry' // Left against right
+  | 'torsoLean' // Trunk leaning forward from vertical
+  | 'kneeTravel' // Knees moving forward over the toes
+  | 'kneeValgus' // Knees moving in towards each other
+  | 'heelLift'; // Heels rising off the floor
+
+export type ViewTracker = {
+  yaw: FilterState | null; // Smoothed yaw in degrees, null until the torso is seen
+  view: CameraView;
+  viewSince: number; // Timestamp the current view was entered
+  nearSide: 'left' | 'right' | null; // Side nearer the camera, when not facing it
+  hasDepth: boolean; // Last estimate used z
+  timestamp: number; // Last frame seen
+};
+
+const VISIBILITY_THRESHOLD = 0.3;
+const YAW_SMOOTHING: FilterConfig = { type: 'ema', alpha: 0.15 };
+
+// View boundaries (yaw, degrees) and the margin needed to leave the current view
+const FRONT_MAX_YAW = 30;
+const SIDE_MIN_YAW = 60;
+const VIEW_HYSTERESIS = 5;
+
+// Frontal shoulder and hip width as a fraction of the shoulder-hip distance (typical adult)
+const FRONTAL_SHOULDER_RATIO = 0.75;
+const FRONTAL_HIP_RATIO = 0.45;
+
+// The view must be wrong for this long before placement hints are shown
+const PLACEMENT_HINT_DELAY_MS = 2000;
+
+const ALL_METRICS: readonly ViewMetric[] = [
+  'elbowFlexion', 'shoulderFlexion', 'trunkSwing', 'symmetry', 'torsoLean', 'kneeTravel', 'kneeValgus', 'heelLift',
+];
+
+// Depth doesn't bring back the heels, which face-on are hidden behind the toes
+const FRONT_DEPTH_METRICS = ALL_METRICS.filter(metric => metric !== 'heelLift');
+
+/**
+ * What each view can measure from 2D keypoints. Facing the camera, arm and
+ * trunk movement is towards the lens and the heels are behind the toes;
+ * side-on, the far limbs are hidden. With depth the front view measures
+ * sagittal angles as well (see trustedMetrics).
+ */
+const TRUSTED_METRICS: Record<CameraView, readonly ViewMetric[]> = {
+  front: ['symmetry', 'kneeValgus'],
+  oblique: ALL_METRICS,
+  side: ['elbowFlexion', 'shoulderFlexion', 'trunkSwing', 'torsoLean', 'kneeTravel', 'heelLift'],
+  unknown: ALL_METRICS,
+};
+
+/** Views each analyzer works best from, and what to tell the user otherwise (keyed by analyzer id) */
+const CAMERA_PLACEMENT: Record<string, { views: readonly CameraView[]; hint: string }> = {
+  'barbell-curl': { views: ['side', 'oblique'], hint: 'Turn side-on or at 45° to the camera.' },
+  'bicep-curl': { views: ['side', 'oblique'], hint: 'Turn side-on or at 45° to the camera.' },
+  // Knees caving in only show from the front, leaning and knee travel only from the side
+  'squat': { views: ['oblique'], hint: 'Turn 45° to the camera so your knees and back are both visible.' },
+  // Each side is measured, so the far limbs have to stay in view
+  'unilateral-curl': { views: ['front', 'oblique'], hint: 'Face the camera or turn 45° so both arms are visible.' },
+  'lunge': { views: ['oblique'], hint: 'Turn 45° to the camera so both legs are visible.' },
+  'push-up': { views: ['side'], hint: 'Place the camera to your side.' },
+};
+
+export function createViewTracker(): ViewTracker {
+  return { yaw: null, view: 'unknown', viewSince: 0, nearSide: null, hasDepth: false, timestamp: 0 };
+}
+
+type Pair = { left: Keypoint; right: Keypoint };
+
+function visiblePair(keypoints: Keypoint[], joint: 'shoulder' | 'hip'): Pair | null {
+  const left = getKeypoint(keypoints, `left_${joint}`);
+  const right = getKeypoint(keypoints, `right_${joint}`);
+  return left && right && isVisible(left, VISIBILITY_THRESHOLD) && isVisible(right, VISIBILITY_THRESHOLD)
+    ? { left, right }
+    : null;
+}
+
+const sideVisible = (keypoints: Keypoint[], side: 'left' | 'right') =>
+  isVisible(getKeypoint(keypoints, `${side}_shoulder`), VISIBILITY_THRESHOLD) &&
+  isVisible(getKeypoint(keypoints, `${side}_hip`), VISIBILITY_THRESHOLD);
+
+// MoveNet keypoints carry no z; MediaPipe fills it for every landmark
+const hasDepth = (keypoints: Keypoint[]) => keypoints.some(kp => kp.z !== undefined && kp.z !== 0);
+
+/** Yaw of a left-right line from its direction in the x/z plane */
+const depthYaw = ({ left, right }: Pair) =>
+  Math.atan2(Math.abs((left.z ?? 0) - (right.z ?? 0)), Math.abs(left.x - right.x)) * (180 / Math.PI);
+
+/** Yaw of a left-right line from its apparent width against the torso */
+const widthYaw = ({ left, right }: Pair, torso: number, frontalRatio: number) =>
+  Math.acos(Math.min(1, Math.hypot(left.x - right.x, left.y - right.y) / (torso * frontalRatio))) * (180 / Math.PI);
+
+/**
+ * Raw yaw estimate for one frame (0 = facing the camera, 90 = side-on), or
+ * null when the torso isn't visible. When only one side's shoulder and hip
+ * are visible, the other is hidden behind the body: side-on.
+ */
+export function estimateYaw(keypoints: Keypoint[]): { yaw: number; hasDepth: boolean; nearSide: 'left' | 'right' | null } | null {
+  const shoulders = visiblePair(keypoints, 'shoulder');
+  const hips = visiblePair(keypoints, 'hip');
+  if (!shoulders || !hips) {
+    const leftVisible = sideVisible(keypoints, 'left');
+    if (leftVisible === sideVisible(keypoints, 'right')) return null;
+    return { yaw: 90, hasDepth: hasDepth(keypoints), nearSide: leftVisible ? 'left' : 'right' };
+  }
+
+  if (hasDepth(keypoints)) {
+    const nearZ = (side: 'left' | 'right') => (shoulders[side].z ?? 0) + (hips[side].z ?? 0);
+    return {
+      yaw: (depthYaw(shoulders) + depthYaw(hips)) / 2,
+      hasDepth: true,
+      nearSide: nearZ('left') < nearZ('right') ? 'left' : 'right', // Smaller z is closer
+    };
+  }
+
+  const torso = Math.hypot(
+    (shoulders.left.x + shoulders.right.x) / 2 - (hips.left.x + hips.right.x) / 2,
+    (shoulders.left.y + shoulders.right.y) / 2 - (hips.left.y + hips.right.y) / 2
+  );
+  if (torso <= 0) return null;
+
+  // No depth: the nearer side is the one the model is more confident about
+  const sideScore = (side: 'left' | 'right') => shoulders[side].score + hips[side].score;
+  return {
+    yaw: (widthYaw(shoulders, torso, FRONTAL_SHOULDER_RATIO) + widthYaw(hips, torso, FRONTAL_HIP_RATIO)) / 2,
+    hasDepth: false,
+    nearSide: sideScore('left') >= sideScore('right') ? 'left' : 'right',
+  };
+}
+
+/** View for a smoothed yaw; leaving the current view needs VIEW_HYSTERESIS degrees past the boundary */
+function classifyView(yaw: number, current: CameraView): CameraView {
+  const margin = (view: CameraView) => (view === current ? VIEW_HYSTERESIS : 0);
+  if (yaw < FRONT_MAX_YAW + margin('front') - margin('oblique')) return 'front';
+  if (yaw > SIDE_MIN_YAW - margin('side') + margin('oblique')) return 'side';
+  return 'oblique';
+}
+
+/**
+ * Advance the tracker by one frame. Frames without a visible torso keep the
+ * last view.
+ */
+export function updateViewTracker(tracker: ViewTracker, keypoints: Keypoint[], timestamp: number): ViewTracker {
+  const estimate = estimateYaw(keypoints);
+  if (!estimate) {
+    return { ...tracker, timestamp };
+  }
+
+  const yaw = filterValue(YAW_SMOOTHING, tracker.yaw, estimate.yaw, timestamp);
+  const view = classifyView(yaw.value, tracker.view);
+  return {
+    yaw,
+    view,
+    viewSince: view === tracker.view ? tracker.viewSince : timestamp,
+    nearSide: view === 'front' ? null : estimate.nearSide,
+    hasDepth: estimate.hasDepth,
+    timestamp,
+  };
+}
+
+/** Metrics the tracker's current view can measure */
+export function trustedMetrics(tracker: ViewTracker): readonly ViewMetric[] {
+  if (tracker.view === 'front' && tracker.hasDepth) return FRONT_DEPTH_METRICS;
+  return TRUSTED_METRICS[tracker.view];
+}
+
+export function isMetricTrusted(tracker: ViewTracker, metric: ViewMetric): boolean {
+  return trustedMetrics(tracker).includes(metric);
+}
+
+/**
+ * What to tell the user when the camera has been in the wrong place for this
+ * analyzer for a while, or null when the placement is fine (or unknown).
+ */
+export function getPlacementHint(analyzerId: string, tracker: ViewTracker): string | null {
+  const placement = CAMERA_PLACEMENT[analyzerId];
+  if (!placement || tracker.view === 'unknown' || placement.views.includes(tracker.view)) return null;
+  return tracker.timestamp - tracker.viewSince >= PLACEMENT_HINT_DELAY_MS ? placement.hint : null;
+}
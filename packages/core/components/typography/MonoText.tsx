@@ -1,6 +1,6 @@
 import React, { memo } from 'react';
 import { Text, TextProps, StyleSheet } from 'react-native';
-import { COLORS, FONTS } from '../../constants/theme';
+import { COLORS, FONTS } from '../../theme';
 
 interface MonoTextProps extends Omit<TextProps, 'style'> {
   bold?: boolean;
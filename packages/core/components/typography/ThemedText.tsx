@@ -1,6 +1,6 @@
 import React, { memo } from 'react';
 import { Text, TextProps, StyleSheet } from 'react-native';
-import { COLORS, FONTS } from '../../constants/theme';
+import { COLORS, FONTS } from '../../theme';
 
 type TextVariant = 'h1' | 'h2' | 'body' | 'caption';
 
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Switch } from 'react-native';
+import { Check } from 'lucide-react-native';
+import { COLORS, FONTS, SPACING, CARD_STYLE } from '../../theme';
+import { usePoseBackend } from '../../contexts/PoseBackendContext';
+import { listPoseRecordings } from '../../services/poseRecordingStorage';
+
+const fileName = (uri: string): string => uri.substring(uri.lastIndexOf('/') + 1);
+
+const Option = ({ label, detail, selected, onPress }: {
+  label: string;
+  detail?: string;
+  selected: boolean;
+  onPress: () => void;
+}) => (
+  <TouchableOpacity style={styles.option} onPress={onPress} activeOpacity={0.7}>
+    <View style={styles.optionText}>
+      <Text style={styles.optionLabel}>{label}</Text>
+      {detail ? <Text style={styles.optionDetail} numberOfLines={1}>{detail}</Text> : null}
+    </View>
+    {selected && <Check size={20} color={COLORS.primary} />}
+  </TouchableOpacity>
+);
+
+/**
+ * Settings section for choosing the pose backend, the recorded session the
+ * replay backend plays, and what the skeleton overlay shows.
+ */
+export const PoseBackendPicker: React.FC = () => {
+  const {
+    backends,
+    backend,
+    selectBackend,
+    replayRecordingUri,
+    setReplayRecordingUri,
+    showJointAngles,
+    setShowJointAngles,
+    showGhost,
+    setShowGhost,
+  } = usePoseBackend();
+  const [recordings, setRecordings] = useState<string[]>([]);
+  const [recordingsError, setRecordingsError] = useState<string | null>(null);
+  const showRecordings = backend.id === 'replay';
+
+  useEffect(() => {
+    if (!showRecordings) return;
+    listPoseRecordings()
+      .then((uris) => {
+        setRecordings(uris);
+        setRecordingsError(null);
+      })
+      .catch((error) => setRecordingsError(error instanceof Error ? error.message : String(error)));
+  }, [showRecordings]);
+
+  return (
+    <>
+      <View style={styles.section}>
+        {backends.map((option) => (
+          <Option
+            key={option.id}
+            label={option.name}
+            detail={option.description}
+            selected={option.id === backend.id}
+            onPress={() => selectBackend(option.id)}
+          />
+        ))}
+      </View>
+
+      <View style={[styles.section, styles.sectionSpacing]}>
+        <View style={styles.option}>
+          <View style={styles.optionText}>
+            <Text style={styles.optionLabel}>Show joint angles</Text>
+            <Text style={styles.optionDetail} numberOfLines={1}>Label elbows, shoulders, hips and knees</Text>
+          </View>
+          <Switch
+            value={showJointAngles}
+            onValueChange={setShowJointAngles}
+            trackColor={{ false: COLORS.inactive, true: COLORS.primary }}
+          />
+        </View>
+        <View style={styles.option}>
+          <View style={styles.optionText}>
+            <Text style={styles.optionLabel}>Show ideal form</Text>
+            <Text style={styles.optionDetail} numberOfLines={1}>Ghost skeleton to follow while recording</Text>
+          </View>
+          <Switch
+            value={showGhost}
+            onValueChange={setShowGhost}
+            trackColor={{ false: COLORS.inactive, true: COLORS.primary }}
+          />
+        </View>
+      </View>
+
+      {showRecordings && (
+        <>
+          <Text style={styles.subsectionTitle}>Replay Session</Text>
+          <View style={styles.section}>
+            <Option
+              label="Most recent"
+              selected={replayRecordingUri === null}
+              onPress={() => setReplayRecordingUri(null)}
+            />
+            {recordings.map((uri) => (
+              <Option
+                key={uri}
+                label={fileName(uri)}
+                selected={uri === replayRecordingUri}
+                onPress={() => setReplayRecordingUri(uri)}
+              />
+            ))}
+            {recordingsError ? (
+              <Text style={styles.emptyText}>Couldn't list the recorded sessions: {recordingsError}</Text>
+            ) : recordings.length === 0 ? (
+              <Text style={styles.emptyText}>No recorded sessions yet. Every set recorded on the camera screen is saved here.</Text>
+            ) : null}
+          </View>
+        </>
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    ...CARD_STYLE,
+    overflow: 'hidden',
+  },
+  sectionSpacing: {
+    marginTop: SPACING.md,
+  },
+  subsectionTitle: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.screenHorizontal,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.text,
+  },
+  optionDetail: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 12,
+    fontFamily: FONTS.ui.regular,
+    color: COLORS.textSecondary,
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.screenHorizontal,
+  },
+});
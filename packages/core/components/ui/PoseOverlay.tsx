@@ -0,0 +1,259 @@
+import React, { useMemo, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import Svg, { Circle, Line, Text as SvgText } from 'react-native-svg';
+import { COLORS, FONTS } from '../../theme';
+import { calculateAngle } from '../../analysis/poseAnalysis';
+import { JointAngles } from '../../analysis/exerciseAnalyzers';
+import { BODY_PART_SEGMENTS, BodyPart, LandmarkName, SKELETON_CONNECTIONS } from '../../analysis/skeleton';
+import { LimbLengths, ReferencePose, buildGhostSkeleton, measureLimbLengths } from '../../analysis/referenceMotion';
+
+/** Keypoint in overlay pixels */
+export type PoseKeypoint = { name: string; x: number; y: number; score: number };
+
+export interface PoseOverlayProps {
+  // LATENCY OPTIMIZATION: Direct keypoints prop (no interpolation)
+  // Renders latest pose immediately without animation delays
+  keypoints: PoseKeypoint[] | null;
+  width: number;
+  height: number;
+  mirror?: boolean;
+  minScore?: number;
+  faultyParts?: readonly BodyPart[]; // Drawn in the danger colour
+  showJointAngles?: boolean;
+  jointAngles?: JointAngles | null; // Angles to label; without them, 2D angles from the keypoints are shown
+  ghostPose?: ReferencePose | null; // Ideal pose drawn translucent under the skeleton, on the athlete's limb lengths
+}
+
+// Joint each angle is labelled at, with the landmarks either side of it
+const ANGLE_JOINTS: Record<keyof JointAngles, [LandmarkName, LandmarkName, LandmarkName]> = {
+  leftElbow: ['left_shoulder', 'left_elbow', 'left_wrist'],
+  rightElbow: ['right_shoulder', 'right_elbow', 'right_wrist'],
+  leftShoulder: ['left_elbow', 'left_shoulder', 'left_hip'],
+  rightShoulder: ['right_elbow', 'right_shoulder', 'right_hip'],
+  leftHip: ['left_shoulder', 'left_hip', 'left_knee'],
+  rightHip: ['right_shoulder', 'right_hip', 'right_knee'],
+  leftKnee: ['left_hip', 'left_knee', 'left_ankle'],
+  rightKnee: ['right_hip', 'right_knee', 'right_ankle'],
+};
+
+const segmentKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+type Point = { x: number; y: number; score: number };
+
+/**
+ * Skeleton drawn over the camera preview. Works with any skeleton in the
+ * shared schema (33 MediaPipe or 17 MoveNet landmarks): bones are drawn when
+ * both ends are present and confident enough.
+ */
+export const PoseOverlay: React.FC<PoseOverlayProps> = React.memo(({
+  keypoints,
+  width,
+  height,
+  mirror = false,
+  minScore = 0.2,
+  faultyParts,
+  showJointAngles = false,
+  jointAngles,
+  ghostPose,
+}) => {
+  // Athlete's limb lengths, remembered across frames while the ghost is shown
+  const limbLengthsRef = useRef<LimbLengths>({});
+
+  // Transform keypoints (mirroring for front camera), keyed by landmark name
+  const mappedKeypoints = useMemo(() => {
+    if (!keypoints) return null;
+
+    const byName = new Map<string, Point>();
+    for (const kp of keypoints) {
+      byName.set(kp.name, { x: mirror ? width - kp.x : kp.x, y: kp.y, score: kp.score });
+    }
+    return byName;
+  }, [keypoints, width, mirror]);
+
+  const faultySegments = useMemo(() => {
+    const keys = new Set<string>();
+    for (const part of faultyParts ?? []) {
+      const [a, b] = BODY_PART_SEGMENTS[part];
+      keys.add(segmentKey(a, b));
+    }
+    return keys;
+  }, [faultyParts]);
+
+  // STABILITY: Filter lines with adaptive confidence thresholds
+  // Uses average of both endpoint confidences to reduce flickering
+  const visibleLines = useMemo(() => {
+    if (!mappedKeypoints) return [];
+    const lines: Array<{ key: string; p1: Point; p2: Point; avgScore: number; faulty: boolean }> = [];
+
+    for (const [startName, endName] of SKELETON_CONNECTIONS) {
+      const start = mappedKeypoints.get(startName);
+      const end = mappedKeypoints.get(endName);
+      if (!start || !end) continue;
+
+      // STABILITY: Use average confidence for line visibility
+      // This prevents lines from flickering when one endpoint drops slightly
+      const avgScore = (start.score + end.score) / 2;
+
+      // Both endpoints must meet minimum, AND average must be good
+      if (start.score >= minScore && end.score >= minScore && avgScore >= minScore + 0.05) {
+        const key = segmentKey(startName, endName);
+        lines.push({ key, p1: start, p2: end, avgScore, faulty: faultySegments.has(key) });
+      }
+    }
+    return lines;
+  }, [mappedKeypoints, minScore, faultySegments]);
+
+  const ghostLines = useMemo(() => {
+    if (!ghostPose || !mappedKeypoints) {
+      limbLengthsRef.current = {};
+      return [];
+    }
+    limbLengthsRef.current = measureLimbLengths(mappedKeypoints, limbLengthsRef.current, minScore);
+
+    const ghost = new Map<string, { x: number; y: number }>();
+    for (const joint of buildGhostSkeleton(mappedKeypoints, limbLengthsRef.current, ghostPose, minScore)) {
+      ghost.set(joint.name, joint);
+    }
+    const lines: Array<{ key: string; p1: { x: number; y: number }; p2: { x: number; y: number } }> = [];
+    for (const [startName, endName] of SKELETON_CONNECTIONS) {
+      const start = ghost.get(startName);
+      const end = ghost.get(endName);
+      if (start && end) lines.push({ key: segmentKey(startName, endName), p1: start, p2: end });
+    }
+    return lines;
+  }, [ghostPose, mappedKeypoints, minScore]);
+
+  const visiblePoints = useMemo(() => {
+    if (!mappedKeypoints) return [];
+    return [...mappedKeypoints.entries()].filter(([, kp]) => kp.score >= minScore);
+  }, [mappedKeypoints, minScore]);
+
+  const angleLabels = useMemo(() => {
+    if (!showJointAngles || !mappedKeypoints) return [];
+    const labels: Array<{ key: string; x: number; y: number; anchor: 'start' | 'end'; text: string }> = [];
+
+    for (const joint of Object.keys(ANGLE_JOINTS) as Array<keyof JointAngles>) {
+      const [before, vertexName, after] = ANGLE_JOINTS[joint];
+      const vertex = mappedKeypoints.get(vertexName);
+      if (!vertex || vertex.score < minScore) continue;
+
+      let angle: number | null = null;
+      if (jointAngles) {
+        angle = jointAngles[joint];
+      } else {
+        const a = mappedKeypoints.get(before);
+        const c = mappedKeypoints.get(after);
+        if (a && c && a.score >= minScore && c.score >= minScore) {
+          angle = calculateAngle(a, vertex, c);
+        }
+      }
+      if (angle === null) continue;
+
+      // Label on the outer side of the body (left side of the person is screen right unless mirrored)
+      const outward = vertexName.startsWith('left_') !== mirror ? 1 : -1;
+      labels.push({
+        key: joint,
+        x: vertex.x + outward * 10,
+        y: vertex.y - 8,
+        anchor: outward > 0 ? 'start' : 'end',
+        text: `${Math.round(angle)}°`,
+      });
+    }
+    return labels;
+  }, [showJointAngles, jointAngles, mappedKeypoints, minScore, mirror]);
+
+  if (width <= 0 || height <= 0) return null;
+  if (!mappedKeypoints) return null;
+
+  return (
+    <Svg width={width} height={height} style={styles.overlay} pointerEvents="none">
+      {/* Ideal-form ghost, under the live skeleton */}
+      {ghostLines.map((line) => (
+        <Line
+          key={`ghost-${line.key}`}
+          x1={line.p1.x}
+          y1={line.p1.y}
+          x2={line.p2.x}
+          y2={line.p2.y}
+          stroke={COLORS.text}
+          strokeOpacity={0.35}
+          strokeWidth={6}
+          strokeLinecap="round"
+        />
+      ))}
+
+      {/* STABILITY: Render lines with confidence-based opacity; faults are always fully opaque */}
+      {visibleLines.map((line) => {
+        // Opacity based on average confidence (0.2-0.9 score → 0.3-0.8 opacity)
+        const opacity = line.faulty ? 1 : Math.min(0.8, Math.max(0.3, line.avgScore * 0.8));
+        return (
+          <Line
+            key={`line-${line.key}`}
+            x1={line.p1.x}
+            y1={line.p1.y}
+            x2={line.p2.x}
+            y2={line.p2.y}
+            stroke={line.faulty ? COLORS.danger : COLORS.primary}
+            strokeOpacity={opacity}
+            strokeWidth={line.faulty ? 5 : 3}
+            strokeLinecap="round"
+          />
+        );
+      })}
+
+      {/* STABILITY: Render keypoints with confidence-based size */}
+      {visiblePoints.map(([name, point]) => {
+        // Radius based on confidence (0.2-0.9 score → 3-6 radius)
+        const radius = Math.min(6, Math.max(3, 3 + point.score * 3));
+        const opacity = Math.min(0.9, Math.max(0.4, point.score));
+        return (
+          <Circle
+            key={`point-${name}`}
+            cx={point.x}
+            cy={point.y}
+            r={radius}
+            fill={COLORS.primary}
+            fillOpacity={opacity}
+          />
+        );
+      })}
+
+      {/* Each label is drawn twice: a dark outline for contrast, then the text */}
+      {angleLabels.map((label) => [COLORS.background, COLORS.text].map((color) => (
+        <SvgText
+          key={`angle-${label.key}-${color}`}
+          x={label.x}
+          y={label.y}
+          fill={color}
+          stroke={color === COLORS.background ? color : undefined}
+          strokeWidth={color === COLORS.background ? 3 : 0}
+          fontSize={12}
+          fontFamily={FONTS.mono.bold}
+          textAnchor={label.anchor}
+        >
+          {label.text}
+        </SvgText>
+      )))}
+    </Svg>
+  );
+}, (prevProps, nextProps) => {
+  // LATENCY: Minimal re-render checks - only re-render when truly needed
+  if (prevProps.width !== nextProps.width || prevProps.height !== nextProps.height) return false;
+  if (prevProps.mirror !== nextProps.mirror || prevProps.minScore !== nextProps.minScore) return false;
+  if (prevProps.faultyParts !== nextProps.faultyParts) return false;
+  if (prevProps.showJointAngles !== nextProps.showJointAngles || prevProps.jointAngles !== nextProps.jointAngles) return false;
+  if (prevProps.ghostPose !== nextProps.ghostPose) return false;
+
+  // Always re-render when keypoints change (they're new objects each time)
+  if (prevProps.keypoints !== nextProps.keypoints) return false;
+
+  return true;
+});
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+});
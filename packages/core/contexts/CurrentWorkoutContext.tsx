@@ -1,14 +1,24 @@
 import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import { SetVelocity } from '../analysis/velocityMetrics';
+import { SetTempo } from '../analysis/tempoAnalysis';
+import { PartialRep, RepRecord } from '../analysis/repRecords';
+import { UnilateralSummary } from '../analysis/unilateralAnalysis';
 
 export interface LoggedSet {
   exerciseName: string;
   reps: number;
   weight?: number;
   formScore: number;
+  velocity?: SetVelocity; // Only sets recorded with the camera
+  tempo?: SetTempo; // Only camera sets from analyzers that track tempo
+  repRecords?: RepRecord[]; // Rep-by-rep breakdown, only sets recorded with the camera
+  partialReps?: PartialRep[]; // Reps started but not counted, only sets recorded with the camera
+  unilateral?: UnilateralSummary; // Per-side reps and imbalance, only camera sets counted one side at a time
 }
 
 export interface WorkoutExercise {
   id: string;
+  catalogId?: string;
   name: string;
   category: string;
   sets: LoggedSet[];
@@ -19,7 +29,7 @@ type CurrentWorkoutContextValue = {
   sets: LoggedSet[]; // Derived from exercises for backward compatibility
   workoutInProgress: boolean;
   workoutElapsedSeconds: number;
-  addExercise: (exercise: { name: string; category: string }) => void;
+  addExercise: (exercise: { catalogId?: string; name: string; category: string }) => void;
   addSetToExercise: (exerciseId: string, set: LoggedSet) => void;
   addSet: (set: LoggedSet) => void; // Deprecated but kept for compatibility
   clearSets: () => void;
@@ -47,9 +57,10 @@ export const CurrentWorkoutProvider: React.FC<{ children: React.ReactNode }> = (
   const [workoutInProgress, setWorkoutInProgress] = useState(false);
   const [workoutElapsedSeconds, setWorkoutElapsedSeconds] = useState(0);
 
-  const addExercise = useCallback((exercise: { name: string; category: string }) => {
+  const addExercise = useCallback((exercise: { catalogId?: string; name: string; category: string }) => {
     const newExercise: WorkoutExercise = {
       id: `${Date.now()}-${Math.random()}`,
+      catalogId: exercise.catalogId,
       name: exercise.name,
       category: exercise.category,
       sets: [],
@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useState, useMemo, ReactNode } from 'react';
+import { PoseBackend, PoseBackendId } from '../pose/poseBackend';
+
+interface PoseBackendContextValue {
+  backends: PoseBackend[]; // Backends this app can load, in display order
+  backend: PoseBackend; // Backend the camera screen uses
+  selectBackend: (id: PoseBackendId) => void;
+  replayRecordingUri: string | null; // Recording the replay backend plays (null = most recent)
+  setReplayRecordingUri: (uri: string | null) => void;
+  showJointAngles: boolean; // Label joint angles on the skeleton overlay
+  setShowJointAngles: (show: boolean) => void;
+  showGhost: boolean; // Draw the ideal-form ghost skeleton while recording
+  setShowGhost: (show: boolean) => void;
+}
+
+const PoseBackendContext = createContext<PoseBackendContextValue | undefined>(undefined);
+
+/**
+ * Holds the selected pose backend. The first backend in `backends` is the default.
+ */
+export const PoseBackendProvider: React.FC<{ backends: PoseBackend[]; children: ReactNode }> = ({
+  backends,
+  children,
+}) => {
+  const [selectedId, setSelectedId] = useState<PoseBackendId>(backends[0].id);
+  const [replayRecordingUri, setReplayRecordingUri] = useState<string | null>(null);
+  const [showJointAngles, setShowJointAngles] = useState(false);
+  const [showGhost, setShowGhost] = useState(true);
+
+  const value = useMemo(() => ({
+    backends,
+    backend: backends.find(backend => backend.id === selectedId) ?? backends[0],
+    selectBackend: setSelectedId,
+    replayRecordingUri,
+    setReplayRecordingUri,
+    showJointAngles,
+    setShowJointAngles,
+    showGhost,
+    setShowGhost,
+  }), [backends, selectedId, replayRecordingUri, showJointAngles, showGhost]);
+
+  return (
+    <PoseBackendContext.Provider value={value}>
+      {children}
+    </PoseBackendContext.Provider>
+  );
+};
+
+export const usePoseBackend = (): PoseBackendContextValue => {
+  const context = useContext(PoseBackendContext);
+  if (!context) {
+    throw new Error('usePoseBackend must be used within a PoseBackendProvider');
+  }
+  return context;
+};
@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Alert } from 'react-native';
+import { BodyCalibration } from '../analysis/bodyCalibration';
+import { EMPTY_USER_PROFILE, UserProfile, loadUserProfile, saveUserProfile } from '../services/userProfileStorage';
+
+interface UserProfileContextValue {
+  profile: UserProfile;
+  loaded: boolean; // False until the saved profile has been read
+  setBodyCalibration: (calibration: BodyCalibration | null) => void; // null clears it
+  setPrescribedTempo: (notation: string | null) => void; // null clears it
+}
+
+const UserProfileContext = createContext<UserProfileContextValue | undefined>(undefined);
+
+/**
+ * Holds the user profile, loaded from and saved to the device.
+ */
+export const UserProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [profile, setProfile] = useState<UserProfile>(EMPTY_USER_PROFILE);
+  const [loaded, setLoaded] = useState(false);
+  // Fields edited since launch: they win over the profile read from disk, and the profile is
+  // only saved once something has been edited
+  const editsRef = useRef<Partial<UserProfile>>({});
+
+  useEffect(() => {
+    loadUserProfile()
+      .then((saved) => setProfile({ ...saved, ...editsRef.current }))
+      .catch((error) => {
+        Alert.alert('Profile not loaded', `Your saved calibration and tempo could not be read: ${error instanceof Error ? error.message : error}`);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Not before the load: an early save would overwrite the fields that haven't been edited
+  useEffect(() => {
+    if (!loaded || Object.keys(editsRef.current).length === 0) return;
+    saveUserProfile(profile).catch((error) => {
+      Alert.alert('Profile not saved', `Your calibration and tempo could not be saved: ${error instanceof Error ? error.message : error}`);
+    });
+  }, [profile, loaded]);
+
+  const setBodyCalibration = useCallback((bodyCalibration: BodyCalibration | null) => {
+    editsRef.current = { ...editsRef.current, bodyCalibration };
+    setProfile((prev) => ({ ...prev, bodyCalibration }));
+  }, []);
+
+  const setPrescribedTempo = useCallback((prescribedTempo: string | null) => {
+    editsRef.current = { ...editsRef.current, prescribedTempo };
+    setProfile((prev) => ({ ...prev, prescribedTempo }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ profile, loaded, setBodyCalibration, setPrescribedTempo }),
+    [profile, loaded, setBodyCalibration, setPrescribedTempo]
+  );
+
+  return (
+    <UserProfileContext.Provider value={value}>
+      {children}
+    </UserProfileContext.Provider>
+  );
+};
+
+export const useUserProfile = (): UserProfileContextValue => {
+  const context = useContext(UserProfileContext);
+  if (!context) {
+    throw new Error('useUserProfile must be used within a UserProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,57 @@
+/**
+ * Pose Backend
+ *
+ * A pose backend turns a camera (or a recorded session) into a stream of
+ * normalized skeletons (see analysis/skeleton.ts). Screens render the
+ * backend's View and consume its poses without knowing which model is
+ * behind it, so backends can be swapped at runtime from Settings and
+ * compared on the same device.
+ *
+ * Each app supplies the backends it can load (MediaPipe, MoveNet) plus the
+ * shared replay backend, and registers them with PoseBackendProvider
+ * (contexts/PoseBackendContext.tsx).
+ */
+
+import type React from 'react';
+import { BodyPart, Skeleton, SkeletonCapabilities } from '../analysis/skeleton';
+import { CameraFacing } from '../analysis/poseRecording';
+import { JointAngles } from '../analysis/exerciseAnalyzers';
+import { ReferencePose } from '../analysis/referenceMotion';
+
+export type PoseBackendId = 'mediapipe' | 'movenet' | 'replay';
+
+/** One pose delivered by a backend */
+export type PoseEvent = {
+  skeleton: Skeleton;
+  timestamp: number; // Epoch ms; analyzers take all timing from this value
+  cameraFacing: CameraFacing; // Camera the pose was captured with
+};
+
+/** Analyzer state a backend draws on its skeleton overlay (components/ui/PoseOverlay.tsx) */
+export type PoseOverlayAnnotations = {
+  faultyParts: readonly BodyPart[];
+  showJointAngles: boolean;
+  jointAngles: JointAngles | null; // Analyzer angles; null labels 2D angles from the drawn skeleton
+  ghostPose: ReferencePose | null; // Ideal pose for the current phase (analysis/referenceMotion.ts); null hides the ghost
+};
+
+export type PoseBackendViewProps = {
+  width: number;
+  height: number;
+  // Start/stop: poses are only delivered while running
+  running: boolean;
+  // Camera to use; changing it switches camera
+  facing: CameraFacing;
+  onPose: (pose: PoseEvent) => void;
+  annotations?: PoseOverlayAnnotations;
+};
+
+export type PoseBackend = {
+  id: PoseBackendId;
+  name: string;
+  description: string;
+  // Landmarks, depth and hand/foot support of the skeletons this backend delivers
+  capabilities: SkeletonCapabilities;
+  // Camera preview (or playback) view; mounting it starts the camera
+  View: React.ComponentType<PoseBackendViewProps>;
+};
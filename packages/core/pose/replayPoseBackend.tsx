@@ -0,0 +1,137 @@
+/**
+ * Replay pose backend: plays a recorded pose session (see
+ * analysis/poseRecording.ts) in place of a camera, frame by frame at the
+ * recorded timing, looping at the end. Use it to check analyzer changes
+ * on-device against a known session, or to compare what each model saw.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, FONTS, SPACING } from '../theme';
+import { LANDMARK_NAMES, capabilitiesFromLandmarks } from '../analysis/skeleton';
+import { PoseRecording } from '../analysis/poseRecording';
+import { listPoseRecordings, loadPoseRecording } from '../services/poseRecordingStorage';
+import { usePoseBackend } from '../contexts/PoseBackendContext';
+import { PoseBackend, PoseBackendViewProps } from './poseBackend';
+
+const LOOP_PAUSE_MS = 1000; // Gap before the session starts over
+
+const fileName = (uri: string): string => uri.substring(uri.lastIndexOf('/') + 1);
+
+const ReplayView: React.FC<PoseBackendViewProps> = ({ width, height, running, onPose }) => {
+  const { replayRecordingUri } = usePoseBackend();
+  const [recording, setRecording] = useState<PoseRecording | null>(null);
+  const [status, setStatus] = useState('Loading recorded session...');
+  const nextFrameRef = useRef(0);
+  const onPoseRef = useRef(onPose);
+
+  useEffect(() => {
+    onPoseRef.current = onPose;
+  }, [onPose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecording(null);
+    (async () => {
+      try {
+        const uri = replayRecordingUri ?? (await listPoseRecordings())[0];
+        if (!uri) {
+          if (!cancelled) setStatus('No recorded sessions to replay');
+          return;
+        }
+        const loaded = await loadPoseRecording(uri);
+        if (cancelled) return;
+        nextFrameRef.current = 0;
+        setRecording(loaded);
+        setStatus(fileName(uri));
+      } catch (error) {
+        if (!cancelled) setStatus(`Could not load recording: ${error instanceof Error ? error.message : error}`);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [replayRecordingUri]);
+
+  // Skeletons carry the capabilities of the recording, not of the model that would run live
+  const capabilities = useMemo(() => recording && {
+    world: capabilitiesFromLandmarks(recording.landmarkNames, 'world'),
+    image: capabilitiesFromLandmarks(recording.landmarkNames, 'image'),
+  }, [recording]);
+
+  useEffect(() => {
+    if (!running || !recording || !capabilities || recording.frames.length === 0) {
+      return;
+    }
+    const { frames } = recording;
+    let index = nextFrameRef.current % frames.length;
+    // Maps recorded time onto the wall clock; reset on resume and on loop so timestamps keep increasing
+    let offset = Date.now() - frames[index].timestamp;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const emitFrame = () => {
+      const frame = frames[index];
+      onPoseRef.current({
+        skeleton: {
+          keypoints: frame.keypoints.map(keypoint => ({ ...keypoint })),
+          source: frame.landmarkSource,
+          capabilities: capabilities[frame.landmarkSource],
+        },
+        timestamp: frame.timestamp + offset,
+        cameraFacing: frame.cameraFacing,
+      });
+
+      index++;
+      if (index >= frames.length) {
+        index = 0;
+        offset = Date.now() + LOOP_PAUSE_MS - frames[0].timestamp;
+      }
+      nextFrameRef.current = index;
+      timer = setTimeout(emitFrame, Math.max(0, frames[index].timestamp + offset - Date.now()));
+    };
+
+    timer = setTimeout(emitFrame, 0);
+    return () => clearTimeout(timer);
+  }, [running, recording, capabilities]);
+
+  return (
+    <View style={[styles.container, { width, height }]}>
+      <Text style={styles.title}>Replay</Text>
+      <Text style={styles.status} numberOfLines={2}>{status}</Text>
+      {recording && (
+        <Text style={styles.status}>
+          {recording.frames.length} frames · {running ? 'playing' : 'paused'}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export const replayPoseBackend: PoseBackend = {
+  id: 'replay',
+  name: 'Replay',
+  description: 'Plays back a recorded session instead of the camera',
+  capabilities: capabilitiesFromLandmarks(LANDMARK_NAMES, 'world'),
+  View: ReplayView,
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.cardBackground,
+    padding: SPACING.lg,
+    gap: SPACING.sm,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: FONTS.ui.bold,
+    color: COLORS.primary,
+  },
+  status: {
+    fontSize: 13,
+    fontFamily: FONTS.mono.regular,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,51 @@
+// On-device storage for recorded pose sessions (see analysis/poseRecording.ts).
+// Files live in the app's document directory so they can be pulled off the
+// device (e.g. adb / Finder) and replayed offline. Only the most recent
+// MAX_RECORDINGS are kept.
+
+import * as FileSystem from 'expo-file-system';
+import { PoseRecording, parsePoseRecording, serializePoseRecording } from '../analysis/poseRecording';
+
+const RECORDINGS_DIR = `${FileSystem.documentDirectory}pose-sessions/`;
+const FILE_EXTENSION = '.forma-pose.json';
+const MAX_RECORDINGS = 20;
+
+const ensureRecordingsDir = async (): Promise<void> => {
+  const info = await FileSystem.getInfoAsync(RECORDINGS_DIR);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(RECORDINGS_DIR, { intermediates: true });
+  }
+};
+
+/**
+ * List saved recording file URIs, newest first
+ */
+export const listPoseRecordings = async (): Promise<string[]> => {
+  await ensureRecordingsDir();
+  const files = await FileSystem.readDirectoryAsync(RECORDINGS_DIR);
+  return files
+    .filter(file => file.endsWith(FILE_EXTENSION))
+    .sort()
+    .reverse()
+    .map(file => RECORDINGS_DIR + file);
+};
+
+/**
+ * Save a recording and prune old ones. Returns the file URI.
+ */
+export const savePoseRecording = async (recording: PoseRecording): Promise<string> => {
+  await ensureRecordingsDir();
+  const exercise = recording.exerciseCatalogId ?? 'unknown';
+  const uri = `${RECORDINGS_DIR}${recording.startedAt}-${exercise}${FILE_EXTENSION}`;
+  await FileSystem.writeAsStringAsync(uri, serializePoseRecording(recording));
+
+  const saved = await listPoseRecordings();
+  for (const oldUri of saved.slice(MAX_RECORDINGS)) {
+    await FileSystem.deleteAsync(oldUri, { idempotent: true });
+  }
+  return uri;
+};
+
+export const loadPoseRecording = async (uri: string): Promise<PoseRecording> => {
+  return parsePoseRecording(await FileSystem.readAsStringAsync(uri));
+};
@@ -0,0 +1,41 @@
+// On-device storage for the user profile. The profile is one JSON file in the
+// app's document directory; it holds the body calibration
+// (see analysis/bodyCalibration.ts) and the prescribed rep tempo
+// (see analysis/tempoAnalysis.ts).
+
+import * as FileSystem from 'expo-file-system';
+import { BODY_CALIBRATION_VERSION, BodyCalibration } from '../analysis/bodyCalibration';
+import { parseTempo } from '../analysis/tempoAnalysis';
+
+export interface UserProfile {
+  bodyCalibration: BodyCalibration | null;
+  prescribedTempo: string | null; // Tempo notation, e.g. "3-1-1-0"
+}
+
+export const EMPTY_USER_PROFILE: UserProfile = {
+  bodyCalibration: null,
+  prescribedTempo: null,
+};
+
+const PROFILE_URI = `${FileSystem.documentDirectory}user-profile.json`;
+
+/**
+ * Load the saved profile, or an empty one if there is none. A calibration
+ * from another format version is dropped so the user is asked to recalibrate,
+ * and a tempo that doesn't parse is dropped.
+ */
+export const loadUserProfile = async (): Promise<UserProfile> => {
+  const info = await FileSystem.getInfoAsync(PROFILE_URI);
+  if (!info.exists) {
+    return EMPTY_USER_PROFILE;
+  }
+
+  const saved = JSON.parse(await FileSystem.readAsStringAsync(PROFILE_URI)) as Partial<UserProfile>;
+  const bodyCalibration = saved.bodyCalibration?.version === BODY_CALIBRATION_VERSION ? saved.bodyCalibration : null;
+  const prescribedTempo = parseTempo(saved.prescribedTempo)?.notation ?? null;
+  return { ...EMPTY_USER_PROFILE, bodyCalibration, prescribedTempo };
+};
+
+export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
+  await FileSystem.writeAsStringAsync(PROFILE_URI, JSON.stringify(profile));
+};
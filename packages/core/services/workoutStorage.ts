@@ -1,6 +1,8 @@
 // Simple in-memory storage for workouts (frontend only)
 // In a real app, this would use AsyncStorage or a database
 
+import type { WorkoutExercise } from '../contexts/CurrentWorkoutContext';
+
 export interface SavedWorkout {
   id: string;
   name: string;
@@ -12,6 +14,8 @@ export interface SavedWorkout {
   totalSets: number;
   totalReps: number;
   formScore: number;
+  effortScore?: number; // Only the MoveNet app scores effort
+  exercises?: WorkoutExercise[]; // Logged sets, with rep records for camera sets
 }
 
 let workouts: SavedWorkout[] = [];
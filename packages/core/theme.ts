@@ -27,6 +27,7 @@ export const COLORS = {
   // UI Elements
   border: '#2A3340', // Subtle dark borders
   inactive: '#4A5568', // Inactive elements
+  danger: '#FF4444', // Form faults and destructive actions
   
   // Chart colors
   chartPrimary: '#20d760',